@@ -0,0 +1,223 @@
+import { BlockType } from './BlockType';
+import type { TintType } from '../world/biomes/BiomeRegistry';
+
+/**
+ * Position of a tile in the texture atlas, in tiles from the top-left corner
+ */
+export type AtlasTile = [x: number, y: number];
+
+/**
+ * Face of a block as used for texturing
+ */
+export type BlockFace = 'top' | 'bottom' | 'side';
+
+/**
+ * Render pass a block's faces are drawn in. Translucent faces are blended in a second pass,
+ * after every opaque face, sorted back to front.
+ */
+export type RenderPass = 'opaque' | 'translucent';
+
+/**
+ * Everything the game needs to know about a block type
+ */
+export interface BlockDefinition {
+    id: BlockType;
+    name: string;
+    /** Collides with the player */
+    solid: boolean;
+    /** Lets neighbouring faces and light show through (air, glass, leaves, water), drawn in the translucent pass */
+    transparent: boolean;
+    /** Block light emitted, 0 (default) to 15 */
+    emission?: number;
+    /** Flows and keeps its level in the block metadata (see world/fluids/FluidState) */
+    fluid?: boolean;
+    /** Falls when the block below can't hold it (see world/gravity/GravityBlocks) */
+    gravity?: boolean;
+    /** Atlas tile of each face */
+    tiles: Record<BlockFace, AtlasTile>;
+    /** Faces coloured by the biome (see world/biomes/BiomeRegistry) */
+    tint?: { type: TintType; faces: BlockFace[] };
+    /** Colour used where the texture isn't available (hotbar icons) */
+    color: string;
+    /** Name shown in the hotbar */
+    label: string;
+}
+
+/**
+ * Builds the tiles of a block that looks the same on every face
+ */
+function allFaces(tile: AtlasTile): Record<BlockFace, AtlasTile> {
+    return { top: tile, bottom: tile, side: tile };
+}
+
+/**
+ * Block definitions, indexed by id. Adding a block means adding its id to BlockType and an entry here
+ * (plus its tile in public/assets/textures/atlas.png).
+ */
+const DEFINITIONS: BlockDefinition[] = [
+    {
+        id: BlockType.AIR, name: 'air', solid: false, transparent: true,
+        tiles: allFaces([0, 0]), color: '#FFFFFF', label: 'Air'
+    },
+    {
+        id: BlockType.GRASS, name: 'grass', solid: true, transparent: false,
+        tiles: { top: [0, 0], side: [1, 0], bottom: [2, 0] }, tint: { type: 'grass', faces: ['top'] },
+        color: '#4CAF50', label: 'Grass'
+    },
+    {
+        id: BlockType.DIRT, name: 'dirt', solid: true, transparent: false,
+        tiles: allFaces([2, 0]), color: '#8D6E63', label: 'Dirt'
+    },
+    {
+        id: BlockType.STONE, name: 'stone', solid: true, transparent: false,
+        tiles: allFaces([3, 0]), color: '#757575', label: 'Stone'
+    },
+    {
+        id: BlockType.SAND, name: 'sand', solid: true, transparent: false, gravity: true,
+        tiles: allFaces([0, 1]), color: '#FFF176', label: 'Sand'
+    },
+    {
+        id: BlockType.WOOD, name: 'wood', solid: true, transparent: false,
+        tiles: { top: [2, 1], side: [1, 1], bottom: [2, 1] }, color: '#8D6E63', label: 'Wood'
+    },
+    {
+        id: BlockType.LEAVES, name: 'leaves', solid: true, transparent: true,
+        tiles: allFaces([3, 1]), tint: { type: 'foliage', faces: ['top', 'bottom', 'side'] },
+        color: '#4CAF50', label: 'Leaves'
+    },
+    {
+        id: BlockType.WATER, name: 'water', solid: false, transparent: true, fluid: true,
+        tiles: allFaces([0, 2]), color: '#2E5CBE', label: 'Water'
+    },
+    {
+        id: BlockType.GLASS, name: 'glass', solid: true, transparent: true,
+        tiles: allFaces([1, 2]), color: '#B3E5FC', label: 'Glass'
+    },
+    {
+        id: BlockType.BRICK, name: 'brick', solid: true, transparent: false,
+        tiles: allFaces([2, 2]), color: '#96413A', label: 'Brick'
+    },
+    {
+        id: BlockType.PLANK, name: 'plank', solid: true, transparent: false,
+        tiles: allFaces([3, 2]), color: '#B08854', label: 'Planks'
+    },
+    {
+        id: BlockType.LAMP, name: 'lamp', solid: true, transparent: false, emission: 15,
+        tiles: allFaces([0, 3]), color: '#FFD54F', label: 'Lamp'
+    },
+    {
+        id: BlockType.COAL_ORE, name: 'coal_ore', solid: true, transparent: false,
+        tiles: allFaces([1, 3]), color: '#424242', label: 'Coal Ore'
+    },
+    {
+        id: BlockType.IRON_ORE, name: 'iron_ore', solid: true, transparent: false,
+        tiles: allFaces([2, 3]), color: '#D8B08C', label: 'Iron Ore'
+    },
+    {
+        id: BlockType.GOLD_ORE, name: 'gold_ore', solid: true, transparent: false,
+        tiles: allFaces([3, 3]), color: '#FAD23C', label: 'Gold Ore'
+    }
+];
+
+/**
+ * Lookup of block definitions by id
+ */
+export namespace BlockRegistry {
+    const byId: BlockDefinition[] = [];
+    for (const definition of DEFINITIONS) {
+        if (byId[definition.id]) {
+            throw new Error(`Duplicate block id ${definition.id} (${definition.name})`);
+        }
+        byId[definition.id] = definition;
+    }
+
+    /**
+     * Gets the definition of a block type, unknown ids fall back to air
+     */
+    export function get(id: number): BlockDefinition {
+        return byId[id] ?? byId[BlockType.AIR];
+    }
+
+    /**
+     * Checks whether a block id has a definition
+     */
+    export function has(id: number): boolean {
+        return byId[id] !== undefined;
+    }
+
+    /**
+     * Gets every registered block, ordered by id
+     */
+    export function all(): BlockDefinition[] {
+        return byId.filter(definition => definition !== undefined);
+    }
+
+    /**
+     * Checks whether the player collides with a block. Unloaded space (undefined) isn't solid.
+     */
+    export function isSolid(id: number | undefined): boolean {
+        return id !== undefined && get(id).solid;
+    }
+
+    /**
+     * Checks whether faces behind a block are visible through it
+     */
+    export function isTransparent(id: number | undefined): boolean {
+        return id === undefined || get(id).transparent;
+    }
+
+    /**
+     * Checks whether a face of a block is drawn next to the given neighbour: the neighbour has to be
+     * see-through. Faces between two see-through blocks are kept even if both are the same block,
+     * the translucent pass blends them. Fluids are the exception, a body of water has no inner faces;
+     * where its surface steps down the meshers add the side between both heights themselves.
+     */
+    export function isFaceVisible(id: number, neighbour: number | undefined): boolean {
+        if (id === BlockType.AIR || !isTransparent(neighbour)) return false;
+        return !(neighbour === id && isFluid(id));
+    }
+
+    /**
+     * Checks whether a block is a fluid
+     */
+    export function isFluid(id: number | undefined): boolean {
+        return id !== undefined && get(id).fluid === true;
+    }
+
+    /**
+     * Checks whether a block falls when unsupported
+     */
+    export function hasGravity(id: number | undefined): boolean {
+        return id !== undefined && get(id).gravity === true;
+    }
+
+    /**
+     * Gets the render pass a block's faces belong to
+     */
+    export function getRenderPass(id: number): RenderPass {
+        return id !== BlockType.AIR && get(id).transparent ? 'translucent' : 'opaque';
+    }
+
+    /**
+     * Gets the block light level a block emits
+     */
+    export function getEmission(id: number): number {
+        return get(id).emission ?? 0;
+    }
+
+    /**
+     * Gets the biome colour a block face is tinted with
+     * @returns The tint type, or null if the face keeps its texture colour
+     */
+    export function getTint(id: number, face: BlockFace): TintType | null {
+        const tint = get(id).tint;
+        return tint && tint.faces.includes(face) ? tint.type : null;
+    }
+
+    /**
+     * Gets the atlas tile of a block face
+     */
+    export function getTile(id: number, face: BlockFace): AtlasTile {
+        return get(id).tiles[face];
+    }
+}
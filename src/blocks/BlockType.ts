@@ -1,5 +1,7 @@
 /**
- * Defines the types of blocks in the game
+ * Numeric ids of the block types in the game.
+ * The values are stored in chunk data, never renumber existing entries.
+ * Every id needs a definition in BlockRegistry.
  */
 export enum BlockType {
     AIR = 0,      // Air block (empty space)
@@ -13,5 +15,8 @@ export enum BlockType {
     GLASS = 8,    // Glass block (transparent)
     BRICK = 9,    // Brick block
     PLANK = 10,   // Wooden planks
-    // Add more block types as needed
+    LAMP = 11,    // Light emitting block
+    COAL_ORE = 12,
+    IRON_ORE = 13,
+    GOLD_ORE = 14,
 }
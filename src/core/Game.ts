@@ -4,7 +4,7 @@ import { World } from '../world/World';
 import { Player } from '../player/Player';
 import { DebugManager } from '../debug/DebugManager';
 import { CrosshairManager } from '../ui/CrosshairManager';
-import { BlockType } from '../world/BlockType';
+import { BlockType } from '../blocks/BlockType';
 import { BlockOutlineHelper } from '../rendering/BlockOutlineHelper';
 import { BlockInteraction } from '../player/BlockInteraction';
 import { Inventory } from '../player/Inventory';
@@ -150,7 +150,7 @@ export class Game {
      * @param time - The current timestamp from requestAnimationFrame
      */
     private gameLoop(time: number): void {
-        this.debugManager.updateStats();
+        this.debugManager.updateStats(this.player.position);
         if (!this.isRunning) return;
     
         const deltaTime = Math.min((time - this.lastTime) / 1000, 0.1);
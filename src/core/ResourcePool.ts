@@ -68,7 +68,7 @@ export class ResourcePool {
      * Returns a BufferGeometry to the pool for reuse
      */
     public releaseGeometry(geometry: THREE.BufferGeometry): void {
-        // Clear all attributes and indices
+        // Free the GPU buffers
         geometry.dispose();
 
         // Determine size category (estimate based on attributes if available)
@@ -78,6 +78,16 @@ export class ResourcePool {
             vertexCount = positionAttr.count;
         }
 
+        // Clear all attributes and indices, so the next user doesn't draw the old geometry
+        // and the pool doesn't keep the old vertex data alive
+        for (const name of Object.keys(geometry.attributes)) {
+            geometry.deleteAttribute(name);
+        }
+        geometry.setIndex(null);
+        geometry.clearGroups();
+        geometry.boundingBox = null;
+        geometry.boundingSphere = null;
+
         const sizeCategory = this.getSizeCategory(vertexCount);
         const pool = this.geometryPools.get(sizeCategory)!;
 
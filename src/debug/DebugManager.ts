@@ -2,15 +2,31 @@ import * as THREE from 'three';
 import Stats from 'stats.js';
 import { World } from '../world/World';
 import { ResourcePool } from '../core/ResourcePool';
+import type { MeshMode } from '../meshing/MeshMode';
+import { ChunkMaterial } from '../rendering/ChunkMaterial';
+
+// Wireframe colour of each meshing mode, from full detail to the coarsest LOD
+const WIREFRAME_COLORS: Record<MeshMode, number> = {
+    detailed: 0x00ff00,
+    greedy: 0xffa500,
+    lod2: 0xffff00,
+    lod4: 0xff4040,
+    lod8: 0xc040ff
+};
 
 export class DebugManager {
     private world: World;
     private wireframeEnabled = false;
-    private originalMaterials: Map<string, THREE.Material | THREE.Material[]> = new Map();
+    private originalMaterials: Map<number, THREE.Material | THREE.Material[]> = new Map();
     private stats: Stats;
     private geometryStats: { vertices: number; indices: number; chunks: number } = { vertices: 0, indices: 0, chunks: 0 };
-    private vertsElement: HTMLDivElement | null = null;
-    private chunksElement: HTMLDivElement | null = null;
+    // Value elements of the custom stats panel, updated every frame
+    private vertsValue: HTMLDivElement | null = null;
+    private chunksValue: HTMLDivElement | null = null;
+    private biomeValue: HTMLDivElement | null = null;
+    private queueValue: HTMLDivElement | null = null;
+    private cullingValue: HTMLDivElement | null = null;
+    private uploadValue: HTMLDivElement | null = null;
 
     constructor(world: World) {
         this.world = world;
@@ -73,38 +89,37 @@ export class DebugManager {
             display: none;
         `;
 
-        // Create verts element
-        this.vertsElement = document.createElement('div');
-        this.vertsElement.style.cssText = `
-            margin-bottom: 2px;
-        `;
-        const vertsLabel = document.createElement('div');
-        vertsLabel.textContent = 'Verts:';
-        vertsLabel.style.cssText = 'font-size: 10px; color: #ccc; margin-bottom: 2px;';
-        const vertsValue = document.createElement('div');
-        vertsValue.textContent = '0';
-        vertsValue.style.cssText = 'font-size: 14px; font-weight: bold; color: white;';
-        vertsValue.id = 'verts-value';
-        this.vertsElement.appendChild(vertsLabel);
-        this.vertsElement.appendChild(vertsValue);
-
-        // Create chunks element
-        this.chunksElement = document.createElement('div');
-        const chunksLabel = document.createElement('div');
-        chunksLabel.textContent = 'Chunks:';
-        chunksLabel.style.cssText = 'font-size: 10px; color: #ccc; margin-bottom: 2px;';
-        const chunksValue = document.createElement('div');
-        chunksValue.textContent = '0';
-        chunksValue.style.cssText = 'font-size: 14px; font-weight: bold; color: white;';
-        chunksValue.id = 'chunks-value';
-        this.chunksElement.appendChild(chunksLabel);
-        this.chunksElement.appendChild(chunksValue);
-
-        customContainer.appendChild(this.vertsElement);
-        customContainer.appendChild(this.chunksElement);
+        this.vertsValue = this.createStat(customContainer, 'Verts', '0');
+        this.chunksValue = this.createStat(customContainer, 'Chunks', '0');
+        this.biomeValue = this.createStat(customContainer, 'Biome', '-');
+        this.queueValue = this.createStat(customContainer, 'Queue', '0');
+        this.cullingValue = this.createStat(customContainer, 'Culling', '-');
+        this.uploadValue = this.createStat(customContainer, 'Upload', '0');
         document.body.appendChild(customContainer);
     }
 
+    /**
+     * Adds a labelled readout to the custom stats panel
+     * @param container Panel the readout is added to
+     * @param label Name shown above the value
+     * @param initial Text shown until the first update
+     * @returns The element holding the value
+     */
+    private createStat(container: HTMLElement, label: string, initial: string): HTMLDivElement {
+        const element = document.createElement('div');
+        element.style.cssText = 'margin-bottom: 2px;';
+        const labelElement = document.createElement('div');
+        labelElement.textContent = `${label}:`;
+        labelElement.style.cssText = 'font-size: 10px; color: #ccc; margin-bottom: 2px;';
+        const valueElement = document.createElement('div');
+        valueElement.textContent = initial;
+        valueElement.style.cssText = 'font-size: 14px; font-weight: bold; color: white;';
+        element.appendChild(labelElement);
+        element.appendChild(valueElement);
+        container.appendChild(element);
+        return valueElement;
+    }
+
     public toggleStatsPanel(): void {
         const isVisible = this.stats.dom.style.display !== 'none';
         this.stats.dom.style.display = isVisible ? 'none' : 'block';
@@ -116,8 +131,16 @@ export class DebugManager {
         }
     }
 
-    public updateStats(): void {
+    /**
+     * Updates the debug panels
+     * @param playerPosition Position of the player, for the biome readout
+     */
+    public updateStats(playerPosition?: THREE.Vector3): void {
         this.updateGeometryStats();
+        if (playerPosition) this.updateBiome(playerPosition);
+        this.updateQueueStats();
+        this.updateCullingStats();
+        this.updateUploadStats();
         this.updatePoolStats();
         this.stats.update();
     }
@@ -146,14 +169,46 @@ export class DebugManager {
         this.geometryStats.chunks = visibleChunks;
 
         // Update custom HTML elements
-        const vertsValue = document.getElementById('verts-value');
-        const chunksValue = document.getElementById('chunks-value');
+        if (this.vertsValue) {
+            this.vertsValue.textContent = totalVertices.toLocaleString();
+        }
+        if (this.chunksValue) {
+            this.chunksValue.textContent = visibleChunks.toString();
+        }
+    }
+
+    private updateBiome(playerPosition: THREE.Vector3): void {
+        const biomeValue = this.biomeValue;
+        if (biomeValue && biomeValue.offsetParent !== null) {
+            biomeValue.textContent = this.world.getBiome(playerPosition.x, playerPosition.z).label;
+        }
+    }
 
-        if (vertsValue) {
-            vertsValue.textContent = totalVertices.toLocaleString();
+    private updateQueueStats(): void {
+        const queueValue = this.queueValue;
+        if (queueValue && queueValue.offsetParent !== null) {
+            const stats = this.world.getChunkQueueStats();
+            // Waiting tasks, then tasks and time spent in the last frame
+            queueValue.textContent = `${stats.size} (${stats.lastFrameTasks} / ${stats.lastFrameMs.toFixed(1)}ms)`;
         }
-        if (chunksValue) {
-            chunksValue.textContent = visibleChunks.toString();
+    }
+
+    private updateCullingStats(): void {
+        const cullingValue = this.cullingValue;
+        if (cullingValue && cullingValue.offsetParent !== null) {
+            const stats = this.world.getCullingStats();
+            // Time spent in the last frame (the previous result is kept while the camera stands still), then visible meshes
+            const cost = stats.recomputed ? `${stats.lastFrameMs.toFixed(2)}ms` : 'cached';
+            cullingValue.textContent = `${cost} (${stats.visible} visible)`;
+        }
+    }
+
+    private updateUploadStats(): void {
+        const uploadValue = this.uploadValue;
+        if (uploadValue && uploadValue.offsetParent !== null) {
+            // Chunk geometry sent to the GPU in the last frame
+            const bytes = this.world.getLastFrameUploadBytes();
+            uploadValue.textContent = bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(1)} KB`;
         }
     }
 
@@ -172,13 +227,13 @@ export class DebugManager {
         }
     }
 
-    public applyWireframeToMesh(key: string, mesh: THREE.Mesh): void {
+    public applyWireframeToMesh(key: number, mesh: THREE.Mesh): void {
         if (this.wireframeEnabled) {
             if (!this.originalMaterials.has(key)) {
                 this.originalMaterials.set(key, mesh.material);
             }
-            const color = mesh.userData.mode === 'greedy' ? 0xffa500 : 0x00ff00;
-            mesh.material = new THREE.MeshBasicMaterial({
+            const color = WIREFRAME_COLORS[mesh.userData.mode as MeshMode] ?? 0x00ff00;
+            mesh.material = new ChunkMaterial({
                 wireframe: true,
                 color
             });
@@ -9,17 +9,80 @@ import { World } from './world/World';
 import { Player } from './player/Player';
 import { FirstPersonControls } from './player/FirstPersonControls';
 import { DebugManager } from './debug/DebugManager';
+import { NoiseTerrainGenerator } from './world/generation/TerrainGenerator';
+import { hashSeed } from './world/generation/Noise';
+import { ChunkStorage, IndexedDBChunkBackend, MemoryChunkBackend } from './world/storage/ChunkStorage';
+
+/**
+ * Reads the world seed from the `?seed=` query parameter.
+ * Numeric seeds are used as-is, any other text is hashed. Returns undefined if there is none.
+ */
+function getSeedFromUrl(): number | undefined {
+    const param = new URLSearchParams(window.location.search).get('seed');
+    if (!param) return undefined;
+    const numeric = Number(param);
+    return Number.isInteger(numeric) ? numeric >>> 0 : hashSeed(param);
+}
+
+// localStorage key of the seed of the last world played
+const SEED_STORAGE_KEY = 'minegame-seed';
+
+/**
+ * Reads the seed of the last world played, so a reload without `?seed=` reopens it (and its saved chunks).
+ * Returns undefined if there is none or localStorage isn't available.
+ */
+function loadSavedSeed(): number | undefined {
+    try {
+        const saved = Number(window.localStorage.getItem(SEED_STORAGE_KEY) ?? NaN);
+        return Number.isInteger(saved) ? saved >>> 0 : undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Remembers the seed of the world being played (see loadSavedSeed)
+ */
+function saveSeed(seed: number): void {
+    try {
+        window.localStorage.setItem(SEED_STORAGE_KEY, String(seed));
+    } catch (error) {
+        console.warn('Could not store the world seed, a reload will start a new world:', error);
+    }
+}
+
+/**
+ * Opens the saved chunks of the world with the given seed.
+ * Falls back to in-memory storage (edits survive unloads but not reloads) if IndexedDB fails.
+ */
+async function openChunkStorage(seed: number): Promise<ChunkStorage> {
+    try {
+        const storage = new ChunkStorage(new IndexedDBChunkBackend(`minegame-world-${seed}`));
+        await storage.open();
+        return storage;
+    } catch (error) {
+        console.warn('IndexedDB not available, world edits will not survive a reload:', error);
+        const storage = new ChunkStorage(new MemoryChunkBackend());
+        await storage.open();
+        return storage;
+    }
+}
 
 // Wait for the DOM to be fully loaded before starting the game
-window.addEventListener('DOMContentLoaded', () => {
+window.addEventListener('DOMContentLoaded', async () => {
     try {
         console.log('Initializing Minecraft Clone...');
         
         // Create and initialize the renderer
         const renderer = new Renderer();
         
-        // Create the world instance
-        const world = new World();
+        // Create the world instance, restoring the chunks saved for its seed.
+        // Without a URL seed the last world played is reopened, a random one the first time.
+        const terrainGenerator = new NoiseTerrainGenerator({ seed: getSeedFromUrl() ?? loadSavedSeed() });
+        saveSeed(terrainGenerator.seed);
+        const chunkStorage = await openChunkStorage(terrainGenerator.seed);
+        const world = new World(terrainGenerator, chunkStorage);
+        console.log(`World seed: ${world.getSeed()}`);
         
         // Create player instance with the renderer's camera
         const camera = renderer.getCamera();
@@ -29,10 +92,13 @@ window.addEventListener('DOMContentLoaded', () => {
         const spawnX = 8;
         const spawnZ = 8;
 
-        // Initialize the world at the spawn point to generate the initial chunks
-        world.initialize({ x: spawnX, y: 0, z: spawnZ } as THREE.Vector3);
+        // Initialize the world around the terrain surface at the spawn point, so the chunks
+        // loaded vertically cover it even on high ground
+        const surfaceY = terrainGenerator.getSurfaceHeight(spawnX, spawnZ) + 1;
+        world.initialize({ x: spawnX, y: surfaceY, z: spawnZ } as THREE.Vector3);
 
-        const spawnY = world.getHighestBlockY(spawnX, spawnZ) + 1;
+        // Highest loaded block, so the player lands on trees or water above the surface
+        const spawnY = Math.max(surfaceY, world.getHighestBlockY(spawnX, spawnZ)) + 1;
 
         // Set player's initial position (feet)
         player.position.set(spawnX, spawnY, spawnZ);
@@ -55,8 +121,20 @@ window.addEventListener('DOMContentLoaded', () => {
             renderer.onWindowResize();
         }, false);
         
+        // Write edited chunks whenever the page is hidden (tab switched, minimised, closed). The browser
+        // may not wait for the write during unload, but the page is often hidden long before that
+        const saveWorld = () => {
+            world.saveAll().catch(error => console.error('Failed to save world:', error));
+        };
+        document.addEventListener('visibilitychange', () => {
+            if (document.visibilityState === 'hidden') saveWorld();
+        });
+        window.addEventListener('pagehide', saveWorld);
+
         // Handle page unload
         window.addEventListener('beforeunload', () => {
+            // Last chance for edits made since the page was hidden, before the world is torn down
+            saveWorld();
             game.dispose();
         });
         
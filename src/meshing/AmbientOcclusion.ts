@@ -0,0 +1,70 @@
+import { BlockRegistry } from '../blocks/BlockRegistry';
+import { paddedIndex } from './ChunkVolume';
+
+/**
+ * Per-vertex ambient occlusion.
+ *
+ * Each vertex of a face looks at the three blocks around its corner in the layer in front of
+ * the face (two sides and the diagonal). The result goes from 0 (corner fully enclosed) to 3
+ * (nothing around it) and darkens the vertex colour.
+ */
+
+/** Vertex colour multiplier for each AO value */
+const AO_BRIGHTNESS = [0.5, 0.68, 0.84, 1];
+
+export const MAX_AO = 3;
+
+const offset = [0, 0, 0];
+
+function occludes(blocks: Uint8Array, x: number, y: number, z: number): number {
+    return BlockRegistry.isTransparent(blocks[paddedIndex(x, y, z)]) ? 0 : 1;
+}
+
+/**
+ * Computes the AO value of one face vertex
+ * @param blocks Padded block volume (see ChunkVolume)
+ * @param fx X of the block in front of the face
+ * @param fy Y of the block in front of the face
+ * @param fz Z of the block in front of the face
+ * @param d Axis of the face normal (0 = X, 1 = Y, 2 = Z)
+ * @param su Direction of the corner along the first tangent axis ((d + 1) % 3), -1 or 1
+ * @param sv Direction of the corner along the second tangent axis ((d + 2) % 3), -1 or 1
+ * @returns 0 (darkest) to 3 (unoccluded)
+ */
+export function vertexAO(
+    blocks: Uint8Array,
+    fx: number, fy: number, fz: number,
+    d: number, su: number, sv: number
+): number {
+    const u = (d + 1) % 3;
+    const v = (d + 2) % 3;
+
+    offset[0] = 0; offset[1] = 0; offset[2] = 0;
+    offset[u] = su;
+    const side1 = occludes(blocks, fx + offset[0], fy + offset[1], fz + offset[2]);
+    offset[v] = sv;
+    const corner = occludes(blocks, fx + offset[0], fy + offset[1], fz + offset[2]);
+    offset[u] = 0;
+    const side2 = occludes(blocks, fx + offset[0], fy + offset[1], fz + offset[2]);
+
+    // Both sides blocked hide the corner completely, whatever the diagonal block is
+    if (side1 && side2) return 0;
+    return MAX_AO - (side1 + side2 + corner);
+}
+
+/**
+ * Whether a quad should be split along its 1-3 diagonal instead of 0-2.
+ * The diagonal is chosen so the interpolated shading stays symmetric
+ * (the "anisotropy" fix: a single dark corner doesn't bleed across the whole quad).
+ * Takes the AO values of the quad's 4 vertices in order.
+ */
+export function shouldFlipQuad(ao0: number, ao1: number, ao2: number, ao3: number): boolean {
+    return ao1 + ao3 > ao0 + ao2;
+}
+
+/**
+ * Converts an AO value into the vertex colour multiplier
+ */
+export function aoToBrightness(ao: number): number {
+    return AO_BRIGHTNESS[ao];
+}
@@ -0,0 +1,51 @@
+/**
+ * Layout of the block volumes sent to the meshers.
+ *
+ * A padded volume holds a chunk's blocks plus a one block border taken from the
+ * neighbouring chunks, so faces on chunk borders can be culled without access to the world.
+ * Local coordinates range from -1 to SIZE (or HEIGHT) inclusive.
+ */
+
+export const CHUNK_SIZE = 16;
+export const CHUNK_HEIGHT = 16;
+
+export const PADDED_SIZE = CHUNK_SIZE + 2;
+export const PADDED_HEIGHT = CHUNK_HEIGHT + 2;
+export const PADDED_VOLUME = PADDED_SIZE * PADDED_SIZE * PADDED_HEIGHT;
+
+/**
+ * Gets the index of a chunk-local coordinate inside a padded volume
+ * @param x Local X (-1 to CHUNK_SIZE)
+ * @param y Local Y (-1 to CHUNK_HEIGHT)
+ * @param z Local Z (-1 to CHUNK_SIZE)
+ */
+export function paddedIndex(x: number, y: number, z: number): number {
+    return (x + 1) + (z + 1) * PADDED_SIZE + (y + 1) * PADDED_SIZE * PADDED_SIZE;
+}
+
+/**
+ * Builds a padded volume from a chunk's blocks and a lookup for the border blocks
+ * @param blocks Chunk blocks indexed as [x + z * SIZE + y * SIZE * SIZE]
+ * @param getBorderBlock Returns the block at a chunk-local coordinate outside the chunk
+ * @param out Optional array to fill instead of allocating a new one
+ */
+export function buildPaddedVolume(
+    blocks: Uint8Array,
+    getBorderBlock: (x: number, y: number, z: number) => number,
+    out: Uint8Array = new Uint8Array(PADDED_VOLUME)
+): Uint8Array {
+    for (let y = -1; y <= CHUNK_HEIGHT; y++) {
+        const yInside = y >= 0 && y < CHUNK_HEIGHT;
+        for (let z = -1; z <= CHUNK_SIZE; z++) {
+            const zInside = z >= 0 && z < CHUNK_SIZE;
+            for (let x = -1; x <= CHUNK_SIZE; x++) {
+                if (yInside && zInside && x >= 0 && x < CHUNK_SIZE) {
+                    out[paddedIndex(x, y, z)] = blocks[x + z * CHUNK_SIZE + y * CHUNK_SIZE * CHUNK_SIZE];
+                } else {
+                    out[paddedIndex(x, y, z)] = getBorderBlock(x, y, z);
+                }
+            }
+        }
+    }
+    return out;
+}
@@ -0,0 +1,110 @@
+import { BlockType } from '../blocks/BlockType';
+import { BlockRegistry } from '../blocks/BlockRegistry';
+import { TextureAtlas } from '../world/TextureAtlas';
+import { CHUNK_SIZE, CHUNK_HEIGHT, paddedIndex } from './ChunkVolume';
+import { MeshScratch, type ChunkMeshArrays } from './MeshScratch';
+import { lightToBrightness } from '../world/lighting/LightLevels';
+import { vertexAO, shouldFlipQuad, aoToBrightness } from './AmbientOcclusion';
+import { getFluidHeight } from '../world/fluids/FluidState';
+import { getFaceIndex, getTintIndex } from './VertexFormat';
+
+/**
+ * Geometry produced by the detailed mesher, in chunk-local coordinates
+ */
+export type DetailedMeshData = ChunkMeshArrays;
+
+/**
+ * One face of a unit cube: 4 corner offsets (counter-clockwise seen from outside) and its normal.
+ * The face is visible when the neighbour along the normal can be seen through.
+ */
+interface CubeFace {
+    name: 'front' | 'back' | 'right' | 'left' | 'top' | 'bottom';
+    corners: number[];
+    normal: [number, number, number];
+}
+
+const CUBE_FACES: CubeFace[] = [
+    { name: 'front',  corners: [0, 0, 1, 1, 0, 1, 1, 1, 1, 0, 1, 1], normal: [0, 0, 1] },
+    { name: 'back',   corners: [1, 0, 0, 0, 0, 0, 0, 1, 0, 1, 1, 0], normal: [0, 0, -1] },
+    { name: 'right',  corners: [1, 0, 1, 1, 0, 0, 1, 1, 0, 1, 1, 1], normal: [1, 0, 0] },
+    { name: 'left',   corners: [0, 0, 0, 0, 0, 1, 0, 1, 1, 0, 1, 0], normal: [-1, 0, 0] },
+    { name: 'top',    corners: [0, 1, 0, 0, 1, 1, 1, 1, 1, 1, 1, 0], normal: [0, 1, 0] },
+    { name: 'bottom', corners: [0, 0, 0, 1, 0, 0, 1, 0, 1, 0, 0, 1], normal: [0, -1, 0] }
+];
+
+const aoTemp = [0, 0, 0, 0];
+
+/**
+ * Builds one quad per visible block face (no merging). Used for chunks close to the player.
+ * @param blocks Padded volume (chunk blocks plus a one block border from the neighbours, see ChunkVolume)
+ * @param light Padded light volume with the same layout, each face is lit by the block in front of it
+ *              and darkened per vertex by ambient occlusion
+ * @param meta Padded block states with the same layout, used for the fluid surface height
+ * @param biomes Biome id per block column of the chunk (not padded), tints grass and leaves
+ * @returns The geometry, or null if the chunk has no visible faces
+ */
+export function buildDetailedMesh(blocks: Uint8Array, light: Uint8Array, meta: Uint8Array, biomes: Uint8Array): DetailedMeshData | null {
+    const scratch = MeshScratch.get();
+    scratch.reset();
+
+    // Loop order (y-z-x) matches the memory layout of the block data
+    for (let y = 0; y < CHUNK_HEIGHT; y++) {
+        for (let z = 0; z < CHUNK_SIZE; z++) {
+            for (let x = 0; x < CHUNK_SIZE; x++) {
+                const blockIndex = paddedIndex(x, y, z);
+                const blockType = blocks[blockIndex] as BlockType;
+                if (blockType === BlockType.AIR) continue;
+                const translucent = BlockRegistry.getRenderPass(blockType) === 'translucent';
+
+                // Fluids below their full height have their top lowered, and the top always shows
+                const height = BlockRegistry.isFluid(blockType)
+                    ? getFluidHeight(meta[blockIndex], blocks[paddedIndex(x, y + 1, z)] === blockType)
+                    : 1;
+
+                for (const face of CUBE_FACES) {
+                    const [nx, ny, nz] = face.normal;
+                    const neighbourIndex = paddedIndex(x + nx, y + ny, z + nz);
+                    // Sides start at the neighbour's surface when it's the same fluid, lower than this one
+                    let bottom = 0;
+                    if (ny === 0 && blocks[neighbourIndex] === blockType && BlockRegistry.isFluid(blockType)) {
+                        bottom = getFluidHeight(meta[neighbourIndex], blocks[paddedIndex(x + nx, y + 1, z + nz)] === blockType);
+                        if (bottom >= height) continue;
+                    } else {
+                        const loweredTop = height < 1 && face.name === 'top';
+                        if (!loweredTop && !BlockRegistry.isFaceVisible(blockType, blocks[neighbourIndex])) continue;
+                    }
+
+                    const brightness = lightToBrightness(light[neighbourIndex]);
+                    const tintType = BlockRegistry.getTint(blockType, TextureAtlas.toBlockFace(face.name));
+                    const tint = getTintIndex(biomes[x + z * CHUNK_SIZE], tintType);
+                    const d = nx !== 0 ? 0 : (ny !== 0 ? 1 : 2);
+                    const u = (d + 1) % 3;
+                    const v = (d + 2) % 3;
+                    const faceIndex = getFaceIndex(d, nx + ny + nz);
+
+                    const tile = TextureAtlas.getTileIndex(blockType, face.name);
+                    const vertexIndex = scratch.vertexCount;
+                    for (let i = 0; i < 4; i++) {
+                        const su = face.corners[i * 3 + u] === 1 ? 1 : -1;
+                        const sv = face.corners[i * 3 + v] === 1 ? 1 : -1;
+                        const ao = vertexAO(blocks, x + nx, y + ny, z + nz, d, su, sv);
+                        aoTemp[i] = ao;
+
+                        scratch.addVertex(
+                            x + face.corners[i * 3], y + (face.corners[i * 3 + 1] === 1 ? height : bottom), z + face.corners[i * 3 + 2],
+                            faceIndex, tile,
+                            brightness * aoToBrightness(ao), tint
+                        );
+                    }
+
+                    // Two triangles: 0,1,2 and 0,2,3, or 1,2,3 and 1,3,0 to keep the AO symmetric
+                    const first = shouldFlipQuad(aoTemp[0], aoTemp[1], aoTemp[2], aoTemp[3]) ? 1 : 0;
+                    scratch.addTriangle(translucent, vertexIndex + first, vertexIndex + first + 1, vertexIndex + first + 2);
+                    scratch.addTriangle(translucent, vertexIndex + first, vertexIndex + first + 2, vertexIndex + (first + 3) % 4);
+                }
+            }
+        }
+    }
+
+    return scratch.finish();
+}
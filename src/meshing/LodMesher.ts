@@ -0,0 +1,303 @@
+import { BlockType } from '../blocks/BlockType';
+import { BlockRegistry } from '../blocks/BlockRegistry';
+import { TextureAtlas } from '../world/TextureAtlas';
+import { CHUNK_SIZE, CHUNK_HEIGHT, paddedIndex } from './ChunkVolume';
+import { MeshScratch, type ChunkMeshArrays } from './MeshScratch';
+import { lightToBrightness } from '../world/lighting/LightLevels';
+import { getFaceIndex, getTintIndex } from './VertexFormat';
+import { blockKey } from '../world/ChunkKey';
+
+const blockCounts = new Uint16Array(256);
+
+/**
+ * Picks the block of a voxel of the downsampled chunk: the most common block of the
+ * scale³ blocks it covers. Ties go to the non-air block, so thin layers of terrain
+ * (a sand beach, a one block deep sea) survive the downsampling.
+ * @param getBlock Block lookup, in the same coordinates as x0/y0/z0
+ * @param x0 First block of the voxel along X (likewise y0, z0)
+ */
+function majorityBlock(getBlock: (x: number, y: number, z: number) => number, x0: number, y0: number, z0: number, scale: number): number {
+    let best = BlockType.AIR as number;
+    let bestCount = 0;
+    for (let y = y0; y < y0 + scale; y++) {
+        for (let z = z0; z < z0 + scale; z++) {
+            for (let x = x0; x < x0 + scale; x++) {
+                const block = getBlock(x, y, z);
+                const count = ++blockCounts[block];
+                if (count > bestCount || (count === bestCount && best === BlockType.AIR)) {
+                    best = block;
+                    bestCount = count;
+                }
+            }
+        }
+    }
+    // Reset only the counters that were used
+    for (let y = y0; y < y0 + scale; y++) {
+        for (let z = z0; z < z0 + scale; z++) {
+            for (let x = x0; x < x0 + scale; x++) {
+                blockCounts[getBlock(x, y, z)] = 0;
+            }
+        }
+    }
+    return best;
+}
+
+/**
+ * Gets a block the way the LOD mesh of its chunk shows it: the block of the voxel holding it.
+ * Chunks bordering a coarser chunk cull their border faces against these, not the real blocks,
+ * so they don't leave holes where the coarse mesh merged blocks away.
+ * @param getBlock Block lookup in world coordinates
+ * @param x World X coordinate (likewise y, z)
+ * @param scale Voxel size of the LOD mesh in blocks, 1 gives the block itself
+ */
+export function getDownsampledBlock(getBlock: (x: number, y: number, z: number) => number, x: number, y: number, z: number, scale: number): number {
+    if (scale === 1) return getBlock(x, y, z);
+    // Chunk sizes are multiples of every scale, so voxels line up with the world grid
+    const x0 = Math.floor(x / scale) * scale;
+    const y0 = Math.floor(y / scale) * scale;
+    const z0 = Math.floor(z / scale) * scale;
+    return majorityBlock(getBlock, x0, y0, z0, scale);
+}
+
+/**
+ * Downsampled blocks of a region, each voxel's majority block worked out once (see getDownsampledBlock).
+ * Used for the border of a chunk next to a coarser one, where a voxel covers scale² border cells.
+ * Only valid while the blocks don't change, create one per use.
+ */
+export class DownsampledBlocks {
+    // Majority block per voxel, by voxel size then by the block key of the voxel's first block
+    private voxels: Map<number, Map<number, number>> = new Map();
+
+    /**
+     * @param getBlock Block lookup in world coordinates
+     */
+    constructor(private readonly getBlock: (x: number, y: number, z: number) => number) {}
+
+    /**
+     * Gets a block the way a mesh with the given voxel size shows it, like getDownsampledBlock
+     */
+    public get(x: number, y: number, z: number, scale: number): number {
+        if (scale === 1) return this.getBlock(x, y, z);
+        let voxels = this.voxels.get(scale);
+        if (!voxels) {
+            voxels = new Map();
+            this.voxels.set(scale, voxels);
+        }
+        const x0 = Math.floor(x / scale) * scale;
+        const y0 = Math.floor(y / scale) * scale;
+        const z0 = Math.floor(z / scale) * scale;
+        const key = blockKey(x0, y0, z0);
+        let block = voxels.get(key);
+        if (block === undefined) {
+            block = majorityBlock(this.getBlock, x0, y0, z0, scale);
+            voxels.set(key, block);
+        }
+        return block;
+    }
+}
+
+/**
+ * Gets the fine block range [min, max] a voxel coordinate covers along one axis.
+ * Voxels outside the chunk (-1 or size) only cover the one block of padding there is.
+ */
+function fineRange(coarse: number, count: number, scale: number, size: number): [number, number] {
+    if (coarse < 0) return [-1, -1];
+    if (coarse >= count) return [size, size];
+    return [coarse * scale, coarse * scale + scale - 1];
+}
+
+/**
+ * Builds the mesh of a chunk downsampled `scale` times in every axis, for distant chunks.
+ * Voxels take the majority block of the blocks they cover and are merged greedily, without
+ * ambient occlusion or lowered fluid surfaces (too small to see at that distance).
+ *
+ * Neighbouring chunks may be meshed at another resolution, so their surfaces don't line up on
+ * the border. To hide the cracks, border faces are kept whenever any of the neighbour's blocks
+ * behind them can be seen through: they hang down the border like a skirt and cover the gap
+ * down to the neighbour's surface. Finer neighbours cull their border faces against this mesh's
+ * voxels instead of the real blocks (see getDownsampledBlock), so they don't leave holes either.
+ * @param blocks Padded volume (chunk blocks plus a one block border from the neighbours, see ChunkVolume)
+ * @param light Padded light volume with the same layout, a face takes the brightest light of the voxel it looks into
+ * @param biomes Biome id per block column of the chunk (not padded), tints grass and leaves
+ * @param scale Size of a voxel in blocks: 2, 4 or 8
+ * @returns The geometry, or null if the chunk has no visible faces
+ */
+export function buildLodMesh(blocks: Uint8Array, light: Uint8Array, biomes: Uint8Array, scale: number): ChunkMeshArrays | null {
+    const countXZ = CHUNK_SIZE / scale;
+    const countY = CHUNK_HEIGHT / scale;
+    const counts = [countXZ, countY, countXZ];
+
+    // Downsampled blocks, indexed [x + z * countXZ + y * countXZ²]
+    const voxels = new Uint8Array(countXZ * countXZ * countY);
+    const getPaddedBlock = (x: number, y: number, z: number): number => blocks[paddedIndex(x, y, z)];
+    let solidVoxels = 0;
+    for (let y = 0; y < countY; y++) {
+        for (let z = 0; z < countXZ; z++) {
+            for (let x = 0; x < countXZ; x++) {
+                const block = majorityBlock(getPaddedBlock, x * scale, y * scale, z * scale, scale);
+                voxels[x + z * countXZ + y * countXZ * countXZ] = block;
+                if (block !== BlockType.AIR) solidVoxels++;
+            }
+        }
+    }
+    if (solidVoxels === 0) return null;
+
+    const getVoxel = (c: number[]): number => voxels[c[0] + c[2] * countXZ + c[1] * countXZ * countXZ];
+
+    // Brightest light in the blocks a voxel covers (solid blocks hold no light)
+    const getVoxelLight = (c: number[]): number => {
+        const [x0, x1] = fineRange(c[0], countXZ, scale, CHUNK_SIZE);
+        const [y0, y1] = fineRange(c[1], countY, scale, CHUNK_HEIGHT);
+        const [z0, z1] = fineRange(c[2], countXZ, scale, CHUNK_SIZE);
+        let sun = 0;
+        let block = 0;
+        for (let y = y0; y <= y1; y++) {
+            for (let z = z0; z <= z1; z++) {
+                for (let x = x0; x <= x1; x++) {
+                    const value = light[paddedIndex(x, y, z)];
+                    sun = Math.max(sun, value >> 4);
+                    block = Math.max(block, value & 0xF);
+                }
+            }
+        }
+        return (sun << 4) | block;
+    };
+
+    // Whether a border face of a voxel shows through any of the neighbour's padding blocks behind it
+    const isBorderFaceVisible = (block: number, outside: number[]): boolean => {
+        const [x0, x1] = fineRange(outside[0], countXZ, scale, CHUNK_SIZE);
+        const [y0, y1] = fineRange(outside[1], countY, scale, CHUNK_HEIGHT);
+        const [z0, z1] = fineRange(outside[2], countXZ, scale, CHUNK_SIZE);
+        for (let y = y0; y <= y1; y++) {
+            for (let z = z0; z <= z1; z++) {
+                for (let x = x0; x <= x1; x++) {
+                    if (BlockRegistry.isFaceVisible(block, blocks[paddedIndex(x, y, z)])) return true;
+                }
+            }
+        }
+        return false;
+    };
+
+    const scratch = MeshScratch.get();
+    scratch.reset();
+
+    for (let d = 0; d < 3; d++) {
+        const u = (d + 1) % 3;
+        const v = (d + 2) % 3;
+        const dimsD = counts[d];
+        const dimsU = counts[u];
+        const dimsV = counts[v];
+
+        const x = [0, 0, 0];
+        const q = [0, 0, 0];
+        q[d] = 1;
+        const a = [0, 0, 0];
+        const b = [0, 0, 0];
+
+        // Mask values are blockType | light << 8 | biome << 16, negated for the faces looking down the axis
+        const mask = new Int32Array(dimsU * dimsV);
+
+        for (x[d] = -1; x[d] < dimsD; x[d]++) {
+            for (const sign of [1, -1]) {
+                let n = 0;
+                for (x[v] = 0; x[v] < dimsV; x[v]++) {
+                    for (x[u] = 0; x[u] < dimsU; x[u]++, n++) {
+                        // The face belongs to voxel `a` and looks into `b`
+                        for (let c = 0; c < 3; c++) {
+                            a[c] = sign > 0 ? x[c] : x[c] + q[c];
+                            b[c] = sign > 0 ? x[c] + q[c] : x[c];
+                        }
+                        mask[n] = 0;
+                        if (a[d] < 0 || a[d] >= dimsD) continue;
+
+                        const block = getVoxel(a);
+                        if (block === BlockType.AIR) continue;
+                        const onBorder = b[d] < 0 || b[d] >= dimsD;
+                        const visible = onBorder ? isBorderFaceVisible(block, b) : BlockRegistry.isFaceVisible(block, getVoxel(b));
+                        if (!visible) continue;
+
+                        const face = d === 1 ? (sign > 0 ? 'top' : 'bottom') : 'side';
+                        const biome = BlockRegistry.getTint(block, face) ? biomes[a[0] * scale + a[2] * scale * CHUNK_SIZE] : 0;
+                        mask[n] = sign * (block | (getVoxelLight(b) << 8) | (biome << 16));
+                    }
+                }
+
+                // Merge equal faces into rectangles
+                n = 0;
+                for (let j = 0; j < dimsV; j++) {
+                    for (let i = 0; i < dimsU; ) {
+                        const m = mask[n];
+                        if (m === 0) {
+                            i++;
+                            n++;
+                            continue;
+                        }
+
+                        let w = 1;
+                        while (i + w < dimsU && mask[n + w] === m) w++;
+                        let h = 1;
+                        outer: while (j + h < dimsV) {
+                            for (let k = 0; k < w; k++) {
+                                if (mask[n + k + h * dimsU] !== m) break outer;
+                            }
+                            h++;
+                        }
+
+                        emitQuad(scratch, m, d, u, v, x[d] + 1, i, j, w, h, scale);
+
+                        for (let l = 0; l < h; l++) {
+                            for (let k = 0; k < w; k++) mask[n + k + l * dimsU] = 0;
+                        }
+                        i += w;
+                        n += w;
+                    }
+                }
+            }
+        }
+    }
+
+    return scratch.finish();
+}
+
+/**
+ * Adds a merged rectangle of faces to the mesh, in block units
+ * @param m Mask value of the faces (sign = facing direction along d)
+ * @param plane Voxel plane the faces lie on
+ * @param i Voxel start along u
+ * @param j Voxel start along v
+ * @param w Width in voxels along u
+ * @param h Height in voxels along v
+ */
+function emitQuad(
+    scratch: MeshScratch, m: number, d: number, u: number, v: number,
+    plane: number, i: number, j: number, w: number, h: number, scale: number
+): void {
+    const packed = Math.abs(m);
+    const block = packed & 0xFF;
+    const face: 'top' | 'bottom' | 'side' = d === 1 ? (m > 0 ? 'top' : 'bottom') : 'side';
+    const translucent = BlockRegistry.getRenderPass(block) === 'translucent';
+
+    const shade = lightToBrightness(packed >> 8 & 0xFF);
+    const tint = getTintIndex(packed >> 16 & 0x7, BlockRegistry.getTint(block, face));
+
+    // The chunk material repeats the tile once per block, so LOD quads keep the texture's scale
+    const tile = TextureAtlas.getTileIndex(block, face);
+    const faceIndex = getFaceIndex(d, m);
+
+    const corner = [0, 0, 0];
+    const vertexIndex = scratch.vertexCount;
+    for (let t = 0; t < 4; t++) {
+        corner[d] = plane * scale;
+        corner[u] = (i + (t === 1 || t === 2 ? w : 0)) * scale;
+        corner[v] = (j + (t >= 2 ? h : 0)) * scale;
+        scratch.addVertex(corner[0], corner[1], corner[2], faceIndex, tile, shade, tint);
+    }
+
+    if (m > 0) {
+        scratch.addTriangle(translucent, vertexIndex, vertexIndex + 1, vertexIndex + 2);
+        scratch.addTriangle(translucent, vertexIndex, vertexIndex + 2, vertexIndex + 3);
+    } else {
+        scratch.addTriangle(translucent, vertexIndex, vertexIndex + 2, vertexIndex + 1);
+        scratch.addTriangle(translucent, vertexIndex, vertexIndex + 3, vertexIndex + 2);
+    }
+}
@@ -0,0 +1,23 @@
+/**
+ * How a chunk is meshed, picked by its distance to the player:
+ * - 'detailed': one quad per visible block face, for chunks around the player
+ * - 'greedy': merged quads, every block still present
+ * - 'lod2' / 'lod4' / 'lod8': merged quads of the chunk downsampled 2, 4 or 8 times
+ *   in every axis (see LodMesher), for distant chunks
+ */
+export type MeshMode = 'detailed' | 'greedy' | 'lod2' | 'lod4' | 'lod8';
+
+const LOD_SCALES: Record<MeshMode, number> = {
+    detailed: 1,
+    greedy: 1,
+    lod2: 2,
+    lod4: 4,
+    lod8: 8
+};
+
+/**
+ * Gets the size in blocks of a voxel of the mesh, 1 for the full resolution modes
+ */
+export function getLodScale(mode: MeshMode): number {
+    return LOD_SCALES[mode];
+}
@@ -0,0 +1,125 @@
+import { CHUNK_SIZE, CHUNK_HEIGHT } from './ChunkVolume';
+import { POSITION_SCALE, POSITION_SIZE, DATA_SIZE } from './VertexFormat';
+
+/**
+ * Geometry of a chunk mesh, in the packed vertex format (see VertexFormat)
+ */
+export interface ChunkMeshArrays {
+    /** Chunk-local positions in 1/POSITION_SCALE block units */
+    positions: Uint16Array;
+    /** Face, tile, shade and tint of each vertex */
+    data: Uint8Array;
+    /** Opaque triangles first, then translucent ones (see BlockRegistry.getRenderPass). 16 bit when the vertices fit. */
+    indices: Uint16Array | Uint32Array;
+    /** Number of indices belonging to the opaque pass */
+    opaqueIndexCount: number;
+}
+
+// Worst case: every face of every block visible, none merged
+const MAX_FACES = CHUNK_SIZE * CHUNK_SIZE * CHUNK_HEIGHT * 6;
+const MAX_VERTICES = MAX_FACES * 4;
+const MAX_INDICES = MAX_FACES * 6;
+
+/**
+ * Buffers the meshers write a chunk's geometry into. They are sized for the worst case,
+ * so there's a single set per thread (see get()) shared by every chunk meshed on it,
+ * and finish() copies the result out into right-sized arrays.
+ */
+export class MeshScratch {
+    private static instance: MeshScratch | null = null;
+
+    public readonly positions = new Uint16Array(MAX_VERTICES * POSITION_SIZE);
+    public readonly data = new Uint8Array(MAX_VERTICES * DATA_SIZE);
+    public readonly opaqueIndices = new Uint32Array(MAX_INDICES);
+    public readonly translucentIndices = new Uint32Array(MAX_INDICES);
+
+    public vertexCount = 0;
+    public opaqueCount = 0;
+    public translucentCount = 0;
+
+    private constructor() {}
+
+    /**
+     * Gets the thread's buffers, allocated on first use. A mesher must finish() before the next one resets them.
+     */
+    public static get(): MeshScratch {
+        if (!MeshScratch.instance) {
+            MeshScratch.instance = new MeshScratch();
+        }
+        return MeshScratch.instance;
+    }
+
+    /**
+     * Empties the buffers for a new mesh
+     */
+    public reset(): void {
+        this.vertexCount = 0;
+        this.opaqueCount = 0;
+        this.translucentCount = 0;
+    }
+
+    /**
+     * Adds a vertex, packing its attributes (see VertexFormat)
+     * @param x Chunk-local position in blocks
+     * @param face Face index of the normal (see VertexFormat.getFaceIndex)
+     * @param tile Atlas tile index (see TextureAtlas.getTileIndex)
+     * @param shade Light times ambient occlusion, 0-1
+     * @param tint Tint index (see VertexFormat.getTintIndex)
+     * @returns Index of the vertex
+     */
+    public addVertex(
+        x: number, y: number, z: number,
+        face: number, tile: number,
+        shade: number, tint: number
+    ): number {
+        const i = this.vertexCount;
+        this.positions[i * POSITION_SIZE] = Math.round(x * POSITION_SCALE);
+        this.positions[i * POSITION_SIZE + 1] = Math.round(y * POSITION_SCALE);
+        this.positions[i * POSITION_SIZE + 2] = Math.round(z * POSITION_SCALE);
+        this.data[i * DATA_SIZE] = face;
+        this.data[i * DATA_SIZE + 1] = tile;
+        this.data[i * DATA_SIZE + 2] = Math.round(shade * 255);
+        this.data[i * DATA_SIZE + 3] = tint;
+        this.vertexCount++;
+        return i;
+    }
+
+    /**
+     * Adds a triangle to one of the render passes
+     */
+    public addTriangle(translucent: boolean, a: number, b: number, c: number): void {
+        if (translucent) {
+            const i = this.translucentCount;
+            this.translucentIndices[i] = a;
+            this.translucentIndices[i + 1] = b;
+            this.translucentIndices[i + 2] = c;
+            this.translucentCount += 3;
+        } else {
+            const i = this.opaqueCount;
+            this.opaqueIndices[i] = a;
+            this.opaqueIndices[i + 1] = b;
+            this.opaqueIndices[i + 2] = c;
+            this.opaqueCount += 3;
+        }
+    }
+
+    /**
+     * Copies the mesh out of the buffers, opaque indices first
+     * @returns The geometry, or null if nothing was added
+     */
+    public finish(): ChunkMeshArrays | null {
+        if (this.vertexCount === 0) return null;
+
+        const indexCount = this.opaqueCount + this.translucentCount;
+        const indices = this.vertexCount <= 0x10000 ? new Uint16Array(indexCount) : new Uint32Array(indexCount);
+        indices.set(this.opaqueIndices.subarray(0, this.opaqueCount));
+        indices.set(this.translucentIndices.subarray(0, this.translucentCount), this.opaqueCount);
+
+        return {
+            positions: this.positions.slice(0, this.vertexCount * POSITION_SIZE),
+            data: this.data.slice(0, this.vertexCount * DATA_SIZE),
+            indices,
+            opaqueIndexCount: this.opaqueCount
+        };
+    }
+}
@@ -0,0 +1,44 @@
+import type { TintType } from '../world/biomes/BiomeRegistry';
+
+/**
+ * Compact vertex format of chunk meshes, decoded by the chunk material's shader (see rendering/ChunkMaterial).
+ *
+ * - position (Uint16 x3): chunk-local position in 1/POSITION_SCALE block units, 0 to 16 blocks.
+ *   Fractions are kept for lowered fluid surfaces.
+ * - packedData (Uint8 x4):
+ *   0. face index (0-5, see ChunkVisibility.FACE_DIRECTIONS), the shader derives texture coordinates
+ *      from it and the position so textures repeat once per block
+ *   1. atlas tile index (see TextureAtlas.getTileIndex)
+ *   2. shade: light times ambient occlusion, 0-255
+ *   3. tint index, 0 for untinted faces (see getTintIndex)
+ *
+ * 10 bytes per vertex instead of 44 for float positions, normals, UVs and colours.
+ */
+
+export const POSITION_SCALE = 1024;
+
+/** Components of each attribute */
+export const POSITION_SIZE = 3;
+export const DATA_SIZE = 4;
+
+/** Number of biome ids the tint index can address */
+export const TINT_BIOMES = 8;
+
+/**
+ * Gets the face index of a face normal
+ * @param d Axis of the normal (0 X, 1 Y, 2 Z)
+ * @param sign Direction along the axis
+ */
+export function getFaceIndex(d: number, sign: number): number {
+    return d * 2 + (sign > 0 ? 1 : 0);
+}
+
+/**
+ * Gets the tint index of a face: which biome colour the shader multiplies it by
+ * @param biome Biome id of the column
+ * @param type Biome colour of the face, null if it isn't tinted
+ */
+export function getTintIndex(biome: number, type: TintType | null): number {
+    if (!type) return 0;
+    return 1 + (biome % TINT_BIOMES) * 2 + (type === 'foliage' ? 1 : 0);
+}
@@ -1,7 +1,8 @@
 import * as THREE from "three";
 import { Player } from "./Player";
 import { World } from "../world/World";
-import { BlockType } from "../world/BlockType";
+import { BlockType } from "../blocks/BlockType";
+import { BlockRegistry } from "../blocks/BlockRegistry";
 import { Inventory } from "./Inventory";
 
 import { InventoryBar } from "../ui/InventoryBar";
@@ -161,7 +162,7 @@ export class BlockInteraction {
       return;
     }
 
-    // 4. Verificar si el lugar está vacío
+    // 4. Verificar si el lugar está vacío (los fluidos se pueden reemplazar)
     const finalPlacementPos = placementPos;
     const existingBlock = this.world.getBlock(
       finalPlacementPos.x,
@@ -169,7 +170,7 @@ export class BlockInteraction {
       finalPlacementPos.z,
     );
 
-    if (existingBlock !== BlockType.AIR) {
+    if (existingBlock !== BlockType.AIR && !BlockRegistry.isFluid(existingBlock)) {
       console.log(
         `Position (${finalPlacementPos.x}, ${finalPlacementPos.y}, ${finalPlacementPos.z}) is occupied by ${existingBlock}`,
       );
@@ -1,4 +1,4 @@
-import { BlockType } from '../world/BlockType';
+import { BlockType } from '../blocks/BlockType';
 
 /**
  * Represents an item stack in the inventory
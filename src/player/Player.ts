@@ -1,7 +1,8 @@
 import * as THREE from "three";
 import { FirstPersonControls } from "./FirstPersonControls";
 import { World } from "../world/World";
-import { BlockType } from "../world/BlockType";
+import { BlockType } from "../blocks/BlockType";
+import { BlockRegistry } from "../blocks/BlockRegistry";
 
 export interface RaycastResult {
   position: THREE.Vector3;
@@ -83,7 +84,7 @@ export class Player {
       for (let x = minX; x < maxX; x++) {
         for (let z = minZ; z < maxZ; z++) {
           const block = this.world.getBlock(x, y, z);
-          if (block !== BlockType.AIR) {
+          if (BlockRegistry.isSolid(block)) {
             const blockBoundingBox = new THREE.Box3(
               new THREE.Vector3(x, y, z),
               new THREE.Vector3(x + 1, y + 1, z + 1),
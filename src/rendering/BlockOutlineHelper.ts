@@ -1,7 +1,8 @@
 // BlockOutlineHelper.ts
 import * as THREE from 'three';
 import { World } from '../world/World';
-import { BlockType } from '../world/BlockType';
+import { BlockType } from '../blocks/BlockType';
+import { BlockRegistry } from '../blocks/BlockRegistry';
 
 // Shared base geometry (unit box along +X). We'll clone it per helper so dispose() es seguro.
 const BASE_EDGE_GEOMETRY = new THREE.BoxGeometry(1, 1, 1);
@@ -66,9 +67,8 @@ export class BlockOutlineHelper {
 
     // default visibility predicate (same behaviour as before)
     this.visibilityPredicate = (_, neighborType) => {
-      if (neighborType === undefined || neighborType === BlockType.AIR) return true;
-      if (this.transparentNeighborTypes.has(neighborType)) return true;
-      return false;
+      if (neighborType === undefined || BlockRegistry.isTransparent(neighborType)) return true;
+      return this.transparentNeighborTypes.has(neighborType);
     };
 
     this.initializeHighlightBox();
@@ -118,9 +118,8 @@ export class BlockOutlineHelper {
   }
   public resetVisibilityPredicate(): void {
     this.visibilityPredicate = (_, neighborType) => {
-      if (neighborType === undefined || neighborType === BlockType.AIR) return true;
-      if (this.transparentNeighborTypes.has(neighborType)) return true;
-      return false;
+      if (neighborType === undefined || BlockRegistry.isTransparent(neighborType)) return true;
+      return this.transparentNeighborTypes.has(neighborType);
     };
   }
 
@@ -0,0 +1,86 @@
+import * as THREE from 'three';
+import { TextureAtlas } from '../world/TextureAtlas';
+import { BiomeRegistry } from '../world/biomes/BiomeRegistry';
+import { POSITION_SCALE, TINT_BIOMES } from '../meshing/VertexFormat';
+
+// Small inset so neighbouring atlas tiles don't bleed into the block edges
+const BLEED = 0.001;
+
+// Biome colours by tint index (see VertexFormat.getTintIndex), index 0 leaves the face untinted
+const TINTS: THREE.Vector3[] = [new THREE.Vector3(1, 1, 1)];
+for (let biome = 0; biome < TINT_BIOMES; biome++) {
+    TINTS.push(new THREE.Vector3(...BiomeRegistry.getTint(biome, 'grass')));
+    TINTS.push(new THREE.Vector3(...BiomeRegistry.getTint(biome, 'foliage')));
+}
+
+const float = (value: number) => value.toFixed(6);
+
+const VERTEX_PARS = /* glsl */`
+attribute vec4 packedData;
+uniform vec3 chunkTints[${TINTS.length}];
+#ifdef USE_MAP
+    varying vec2 vChunkTileMin;
+#endif
+`;
+
+// Texture coordinates in blocks along the face, oriented by face index (-X, +X, -Y, +Y, -Z, +Z) so the
+// texture's up is world Y on side faces. A quad spanning several blocks repeats the tile once per block.
+const UV_VERTEX = /* glsl */`
+#include <uv_vertex>
+#ifdef USE_MAP
+    vec3 chunkPosition = position / ${float(POSITION_SCALE)};
+    int chunkFace = int(packedData.x);
+    if (chunkFace < 2) vMapUv = vec2(chunkFace == 0 ? chunkPosition.z : -chunkPosition.z, chunkPosition.y);
+    else if (chunkFace < 4) vMapUv = chunkFace == 2 ? chunkPosition.xz : chunkPosition.zx;
+    else vMapUv = vec2(chunkFace == 4 ? -chunkPosition.x : chunkPosition.x, chunkPosition.y);
+    float chunkTile = packedData.y;
+    vChunkTileMin = vec2(mod(chunkTile, ${float(TextureAtlas.ATLAS_SIZE)}), ${float(TextureAtlas.ATLAS_SIZE - 1)} - floor(chunkTile / ${float(TextureAtlas.ATLAS_SIZE)})) * ${float(TextureAtlas.TEXTURE_SIZE)};
+#endif
+`;
+
+const COLOR_VERTEX = /* glsl */`
+#if defined( USE_COLOR )
+    vColor = vec3(packedData.z / 255.0) * chunkTints[int(packedData.w)];
+#endif
+`;
+
+const BEGIN_VERTEX = /* glsl */`
+vec3 transformed = position / ${float(POSITION_SCALE)};
+`;
+
+const FRAGMENT_PARS = /* glsl */`
+#ifdef USE_MAP
+    varying vec2 vChunkTileMin;
+#endif
+`;
+
+// Wraps the block coordinates into the face's atlas tile
+const MAP_FRAGMENT = /* glsl */`
+#ifdef USE_MAP
+    vec2 chunkUv = vChunkTileMin + mix(vec2(${float(BLEED)}), vec2(${float(TextureAtlas.TEXTURE_SIZE - BLEED)}), fract(vMapUv));
+    diffuseColor *= texture2D(map, chunkUv);
+#endif
+`;
+
+/**
+ * Material of chunk meshes: a MeshBasicMaterial with a vertex shader that decodes the packed vertex
+ * format of the meshers (see meshing/VertexFormat) and a fragment shader that tiles the atlas,
+ * so merged quads repeat their texture once per block. Everything else (texture, opacity, alpha test,
+ * wireframe, vertex colours on/off) works like on a MeshBasicMaterial, and clones keep the decoding.
+ * Regular geometry (float positions, UVs and colours) can't be drawn with it.
+ */
+export class ChunkMaterial extends THREE.MeshBasicMaterial {
+    public override onBeforeCompile(shader: THREE.WebGLProgramParametersWithUniforms): void {
+        shader.uniforms.chunkTints = { value: TINTS };
+        shader.vertexShader = VERTEX_PARS + shader.vertexShader
+            .replace('#include <uv_vertex>', UV_VERTEX)
+            .replace('#include <color_vertex>', COLOR_VERTEX)
+            .replace('#include <begin_vertex>', BEGIN_VERTEX);
+        shader.fragmentShader = FRAGMENT_PARS + shader.fragmentShader
+            .replace('#include <map_fragment>', MAP_FRAGMENT);
+    }
+
+    public override customProgramCacheKey(): string {
+        return 'chunk';
+    }
+}
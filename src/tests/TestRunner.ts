@@ -0,0 +1,54 @@
+/**
+ * Anota una comprobación de una prueba: ✅ si se cumple, ❌ y un fallo más si no
+ */
+export type Check = (condition: boolean, message: string) => void;
+
+/**
+ * Una prueba: su nombre en los mensajes y las comprobaciones que hace
+ */
+export interface TestCase {
+    /** Completa "prueba ..." en los mensajes de inicio y fin, p. ej. 'de fluidos' */
+    name: string;
+    run(check: Check): void | Promise<void>;
+}
+
+/**
+ * Declara una prueba sin ejecutarla, la ejecuta runTests
+ * @param name Completa "prueba ..." en los mensajes, p. ej. 'de fluidos'
+ * @param run Las comprobaciones, puede ser asíncrona
+ */
+export function defineTest(name: string, run: (check: Check) => void | Promise<void>): TestCase {
+    return { name, run };
+}
+
+/**
+ * Ejecuta las pruebas una detrás de otra y cuenta sus fallos.
+ * Una excepción dentro de una prueba cuenta como un fallo y no para las siguientes.
+ * @returns Número total de fallos
+ */
+export async function runTests(tests: TestCase[]): Promise<number> {
+    let total = 0;
+    for (const test of tests) {
+        console.log(`=== Iniciando prueba ${test.name} ===`);
+        let failures = 0;
+
+        const check: Check = (condition, message) => {
+            if (condition) {
+                console.log(`✅ ${message}`);
+            } else {
+                failures++;
+                console.error(`❌ ${message}`);
+            }
+        };
+
+        try {
+            await test.run(check);
+        } catch (error) {
+            check(false, `Error inesperado: ${error instanceof Error ? error.stack : error}`);
+        }
+
+        console.log(`=== Prueba ${test.name} completada (${failures} fallos) ===`);
+        total += failures;
+    }
+    return total;
+}
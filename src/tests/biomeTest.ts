@@ -0,0 +1,62 @@
+import { BlockType } from '../blocks/BlockType';
+import { BiomeType } from '../world/biomes/BiomeType';
+import { BiomeRegistry } from '../world/biomes/BiomeRegistry';
+import { NoiseTerrainGenerator, DEFAULT_TERRAIN_OPTIONS } from '../world/generation/TerrainGenerator';
+import { Chunk } from '../world/Chunk';
+import { defineTest } from './TestRunner';
+
+/**
+ * Prueba del mapa de biomas y de cómo guía la generación del terreno
+ */
+export const testBiomes = defineTest('de biomas', check => {
+    // 1. Registro: cada id tiene su definición y cabe en los 3 bits de las mallas
+    const ids = Object.values(BiomeType).filter(v => typeof v === 'number') as BiomeType[];
+    check(ids.every(id => BiomeRegistry.get(id).id === id), 'Todos los biomas están registrados');
+    check(ids.every(id => id < 8), 'Los ids de bioma caben en 3 bits');
+
+    // 2. El mapa es determinista y cubre varios biomas
+    const generator = new NoiseTerrainGenerator({ seed: 1234 });
+    const other = new NoiseTerrainGenerator({ seed: 1234 });
+    const found = new Set<BiomeType>();
+    let deterministic = true;
+    let maxStep = 0;
+    for (let x = -1500; x < 1500; x += 15) {
+        for (let z = -1500; z < 1500; z += 15) {
+            const biome = generator.getBiome(x, z);
+            found.add(biome.id);
+            deterministic = deterministic && other.getBiome(x, z).id === biome.id;
+            maxStep = Math.max(maxStep, Math.abs(generator.getSurfaceHeight(x + 1, z) - generator.getSurfaceHeight(x, z)));
+        }
+    }
+    check(deterministic, 'La misma semilla da los mismos biomas');
+    check(found.size >= 5, `Aparecen varios biomas (${found.size})`);
+    check(maxStep <= 6, `El terreno no tiene saltos bruscos entre biomas (máximo ${maxStep})`);
+
+    // 3. Playas y fondos marinos según la altura
+    const { seaLevel } = DEFAULT_TERRAIN_OPTIONS;
+    let shoresOk = true;
+    for (let x = -1500; x < 1500; x += 15) {
+        const surface = generator.getSurfaceHeight(x, 0);
+        const biome = generator.getBiome(x, 0).id;
+        if (surface < seaLevel) shoresOk = shoresOk && (biome === BiomeType.OCEAN || biome === BiomeType.BEACH || biome === BiomeType.MOUNTAINS);
+    }
+    check(shoresOk, 'Bajo el nivel del mar solo hay playa, océano o montaña');
+
+    // 4. Los bloques de la superficie son los del bioma de cada columna
+    let surfaceOk = true;
+    for (let cx = -4; cx <= 4; cx++) {
+        const chunkY = 1; // y de 16 a 31
+        const chunk = new Chunk(cx * 7, chunkY, 3);
+        generator.generate(chunk);
+        for (let z = 0; z < Chunk.SIZE; z++) {
+            for (let x = 0; x < Chunk.SIZE; x++) {
+                const wx = chunk.x * Chunk.SIZE + x, wz = chunk.z * Chunk.SIZE + z;
+                const surface = generator.getSurfaceHeight(wx, wz) - chunkY * Chunk.HEIGHT;
+                if (surface < 0 || surface >= Chunk.HEIGHT) continue;
+                surfaceOk = surfaceOk && chunk.getBlock(x, surface, z) === generator.getBiome(wx, wz).surfaceBlock;
+            }
+        }
+    }
+    check(surfaceOk, 'La superficie usa el bloque del bioma');
+    check(BiomeRegistry.get(BiomeType.DESERT).surfaceBlock === BlockType.SAND, 'El desierto es de arena');
+});
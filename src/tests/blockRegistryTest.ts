@@ -0,0 +1,45 @@
+import { BlockType } from '../blocks/BlockType';
+import { BlockRegistry } from '../blocks/BlockRegistry';
+import { TextureAtlas } from '../world/TextureAtlas';
+import { defineTest } from './TestRunner';
+
+/**
+ * Prueba de consistencia del registro de bloques
+ */
+export const testBlockRegistry = defineTest('del registro de bloques', check => {
+    // 1. Cada valor del enum tiene su definición con el mismo id
+    const ids = Object.values(BlockType).filter(v => typeof v === 'number') as BlockType[];
+    for (const id of ids) {
+        check(BlockRegistry.has(id) && BlockRegistry.get(id).id === id, `${BlockType[id]} está registrado`);
+    }
+    check(BlockRegistry.all().length === ids.length, 'No hay definiciones sin id en el enum');
+
+    // 2. Todas las caras apuntan a una casilla dentro del atlas
+    for (const block of BlockRegistry.all()) {
+        const inAtlas = (['top', 'bottom', 'side'] as const).every(face => {
+            const [x, y] = block.tiles[face];
+            return x >= 0 && y >= 0 && x < TextureAtlas.ATLAS_SIZE && y < TextureAtlas.ATLAS_SIZE;
+        });
+        check(inAtlas, `Las texturas de ${block.name} están dentro del atlas`);
+    }
+
+    // 3. Propiedades usadas por la colisión y el mallado
+    check(!BlockRegistry.isSolid(BlockType.AIR) && BlockRegistry.isTransparent(BlockType.AIR), 'El aire no es sólido y es transparente');
+    check(!BlockRegistry.isSolid(BlockType.WATER), 'El agua no es sólida');
+    check(!BlockRegistry.isSolid(undefined), 'El espacio sin cargar no es sólido');
+    check(BlockRegistry.isFaceVisible(BlockType.STONE, BlockType.AIR), 'Cara de piedra junto a aire visible');
+    check(BlockRegistry.isFaceVisible(BlockType.STONE, BlockType.GLASS), 'Cara de piedra detrás de cristal visible');
+    check(!BlockRegistry.isFaceVisible(BlockType.STONE, BlockType.DIRT), 'Cara entre bloques opacos oculta');
+    check(BlockRegistry.isFaceVisible(BlockType.GLASS, BlockType.GLASS), 'Cara entre dos bloques de cristal visible');
+    check(!BlockRegistry.isFaceVisible(BlockType.WATER, BlockType.WATER), 'Cara entre dos bloques de agua oculta');
+    check(BlockRegistry.getRenderPass(BlockType.STONE) === 'opaque', 'La piedra se dibuja en la pasada opaca');
+    check(BlockRegistry.getRenderPass(BlockType.WATER) === 'translucent' &&
+          BlockRegistry.getRenderPass(BlockType.LEAVES) === 'translucent', 'Agua y hojas se dibujan en la pasada translúcida');
+    check(BlockRegistry.getTint(BlockType.GRASS, 'top') === 'grass' && BlockRegistry.getTint(BlockType.GRASS, 'side') === null,
+          'Solo la parte de arriba de la hierba toma el color del bioma');
+    check(BlockRegistry.getTint(BlockType.LEAVES, 'side') === 'foliage' && BlockRegistry.getTint(BlockType.STONE, 'top') === null,
+          'Las hojas toman el color del bioma y la piedra no');
+
+    // 4. Ids desconocidos se tratan como aire
+    check(BlockRegistry.get(250).id === BlockType.AIR, 'Un id desconocido devuelve aire');
+});
@@ -0,0 +1,97 @@
+import { BlockType } from '../blocks/BlockType';
+import { BlockRegistry } from '../blocks/BlockRegistry';
+import { Chunk } from '../world/Chunk';
+import { NoiseTerrainGenerator, DEFAULT_TERRAIN_OPTIONS } from '../world/generation/TerrainGenerator';
+import { defineTest } from './TestRunner';
+
+/**
+ * Prueba de las cuevas y las vetas de mineral
+ */
+export const testCaves = defineTest('de cuevas y minerales', check => {
+    const generate = (generator: NoiseTerrainGenerator, x: number, y: number, z: number): Chunk => {
+        const chunk = new Chunk(x, y, z);
+        generator.generate(chunk);
+        return chunk;
+    };
+
+    // 1. Los minerales son bloques sólidos con su propia textura
+    const ores = [BlockType.COAL_ORE, BlockType.IRON_ORE, BlockType.GOLD_ORE];
+    check(ores.every(ore => BlockRegistry.isSolid(ore) && !BlockRegistry.isTransparent(ore)), 'Los minerales son sólidos y opacos');
+    const stoneTile = BlockRegistry.get(BlockType.STONE).tiles.top.join(',');
+    check(ores.every(ore => BlockRegistry.get(ore).tiles.top.join(',') !== stoneTile), 'Cada mineral tiene su textura');
+
+    // 2. Determinismo: la misma semilla genera las mismas cuevas
+    const generator = new NoiseTerrainGenerator({ seed: 7 });
+    const a = generate(generator, 2, 0, -3).getBlockData();
+    const b = generate(new NoiseTerrainGenerator({ seed: 7 }), 2, 0, -3).getBlockData();
+    check(a.every((block, i) => block === b[i]), 'La misma semilla genera el mismo subsuelo');
+
+    // 3. Hay cuevas bajo tierra y los túneles siguen en el chunk de abajo
+    const solidOnly = new NoiseTerrainGenerator({ seed: 7, caveThreshold: 0, ores: [] });
+    let underground = 0;
+    let carved = 0;
+    let crossings = 0;
+    for (let cz = -2; cz <= 2; cz++) {
+        for (let cx = -2; cx <= 2; cx++) {
+            const upper = generate(generator, cx, 0, cz);
+            const lower = generate(generator, cx, -1, cz);
+            const upperSolid = generate(solidOnly, cx, 0, cz);
+            const lowerSolid = generate(solidOnly, cx, -1, cz);
+            for (const [chunk, solid] of [[upper, upperSolid], [lower, lowerSolid]]) {
+                for (let i = 0; i < chunk.getBlockData().length; i++) {
+                    if (solid.getBlockData()[i] !== BlockType.STONE) continue;
+                    underground++;
+                    if (chunk.getBlockData()[i] === BlockType.AIR) carved++;
+                }
+            }
+            // Un hueco en la base del chunk de arriba tiene que continuar justo debajo
+            for (let z = 0; z < Chunk.SIZE; z++) {
+                for (let x = 0; x < Chunk.SIZE; x++) {
+                    if (upper.getBlock(x, 0, z) === BlockType.AIR && upperSolid.getBlock(x, 0, z) === BlockType.STONE &&
+                        upper.getBlock(x, 1, z) === BlockType.AIR && lower.getBlock(x, Chunk.HEIGHT - 1, z) === BlockType.AIR) {
+                        crossings++;
+                    }
+                }
+            }
+        }
+    }
+    const fraction = carved / underground;
+    check(fraction > 0.01 && fraction < 0.15, `Las cuevas ocupan parte del subsuelo (${(fraction * 100).toFixed(1)}%)`);
+    check(crossings > 0, `Los túneles atraviesan chunks apilados (${crossings} columnas)`);
+
+    // 4. Las cuevas nunca quitan el bloque de la superficie
+    let surfaceKept = true;
+    for (let z = 0; z < Chunk.SIZE; z++) {
+        for (let x = 0; x < Chunk.SIZE; x++) {
+            const height = generator.getSurfaceHeight(x, z);
+            const chunkY = Math.floor(height / Chunk.HEIGHT);
+            const chunk = generate(generator, 0, chunkY, 0);
+            if (chunk.getBlock(x, height - chunkY * Chunk.HEIGHT, z) === BlockType.AIR) surfaceKept = false;
+        }
+    }
+    check(surfaceKept, 'La superficie queda intacta');
+
+    // 5. Los minerales solo aparecen en su rango de altura
+    const counts = new Map<BlockType, number>();
+    let inRange = true;
+    for (let cy = -2; cy <= 3; cy++) {
+        for (let cx = -1; cx <= 1; cx++) {
+            const chunk = generate(generator, cx, cy, 0);
+            for (let y = 0; y < Chunk.HEIGHT; y++) {
+                for (let z = 0; z < Chunk.SIZE; z++) {
+                    for (let x = 0; x < Chunk.SIZE; x++) {
+                        const block = chunk.getBlock(x, y, z);
+                        const ore = DEFAULT_TERRAIN_OPTIONS.ores.find(o => o.block === block);
+                        if (!ore) continue;
+                        counts.set(block, (counts.get(block) ?? 0) + 1);
+                        const worldY = cy * Chunk.HEIGHT + y;
+                        if (worldY < ore.minY || worldY > ore.maxY) inRange = false;
+                    }
+                }
+            }
+        }
+    }
+    check(ores.every(ore => (counts.get(ore) ?? 0) > 0),
+        `Se generan todos los minerales (${ores.map(ore => counts.get(ore) ?? 0).join(' / ')})`);
+    check(inRange, 'Los minerales respetan su rango de altura');
+});
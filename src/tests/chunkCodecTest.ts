@@ -0,0 +1,85 @@
+import { Chunk } from '../world/Chunk';
+import { BlockType } from '../blocks/BlockType';
+import { CHUNK_CODEC_VERSION, crc32, decodeChunk } from '../world/ChunkCodec';
+import { NoiseTerrainGenerator } from '../world/generation/TerrainGenerator';
+import { createRandom } from '../world/generation/Noise';
+import { defineTest } from './TestRunner';
+
+/**
+ * Prueba de ida y vuelta del formato binario de chunks
+ */
+export const testChunkCodec = defineTest('del códec de chunks', check => {
+    const sameBlocks = (a: Chunk, b: Chunk) => {
+        const blocksA = a.getBlockData();
+        const blocksB = b.getBlockData();
+        if (blocksA.length !== blocksB.length) return false;
+        for (let i = 0; i < blocksA.length; i++) {
+            if (blocksA[i] !== blocksB[i]) return false;
+        }
+        return true;
+    };
+
+    const expectError = (fn: () => void) => {
+        try {
+            fn();
+            return false;
+        } catch {
+            return true;
+        }
+    };
+
+    // 1. Chunk vacío: debe ocupar muy poco
+    const empty = new Chunk(0, 0, 0);
+    const emptyBytes = empty.encode();
+    const emptyDecoded = Chunk.decode(emptyBytes);
+    check(sameBlocks(empty, emptyDecoded) && emptyDecoded.isEmpty(), 'Chunk vacío ida y vuelta');
+    check(emptyBytes.length < 64, `Chunk vacío ocupa ${emptyBytes.length} bytes`);
+
+    // 2. Chunk de terreno generado con coordenadas negativas
+    const terrain = new Chunk(-3, 1, -7);
+    new NoiseTerrainGenerator({ seed: 1234 }).generate(terrain);
+    const terrainBytes = terrain.encode();
+    const terrainDecoded = Chunk.decode(terrainBytes);
+    check(sameBlocks(terrain, terrainDecoded), 'Chunk de terreno ida y vuelta');
+    check(terrainDecoded.x === -3 && terrainDecoded.y === 1 && terrainDecoded.z === -7, 'Se conservan las coordenadas negativas');
+    check(terrainBytes.length < terrain.getBlockData().length, `Terreno comprimido a ${terrainBytes.length} bytes`);
+
+    // 3. Peor caso: bloques aleatorios sin repeticiones largas
+    const noisy = new Chunk(5, -2, 9);
+    const random = createRandom(99);
+    for (let y = 0; y < Chunk.HEIGHT; y++) {
+        for (let z = 0; z < Chunk.SIZE; z++) {
+            for (let x = 0; x < Chunk.SIZE; x++) {
+                noisy.setBlock(x, y, z, Math.floor(random() * 7) as BlockType);
+            }
+        }
+    }
+    check(sameBlocks(noisy, Chunk.decode(noisy.encode())), 'Chunk aleatorio ida y vuelta');
+
+    // 4. La cabecera indica la versión del formato
+    check(decodeChunk(terrainBytes).version === CHUNK_CODEC_VERSION, 'La cabecera guarda la versión del formato');
+
+    // 5. Datos corruptos se detectan con el checksum
+    const corrupted = terrainBytes.slice();
+    corrupted[30] ^= 0xFF;
+    check(expectError(() => Chunk.decode(corrupted)), 'Se detectan datos corruptos');
+
+    // 6. Datos truncados o ajenos se rechazan
+    check(expectError(() => Chunk.decode(terrainBytes.slice(0, terrainBytes.length - 6))), 'Se rechazan datos truncados');
+    check(expectError(() => Chunk.decode(new Uint8Array(4096))), 'Se rechazan datos sin número mágico');
+
+    // 7. Versiones más nuevas del formato se rechazan
+    const future = terrainBytes.slice();
+    future[4] = CHUNK_CODEC_VERSION + 1;
+    const view = new DataView(future.buffer);
+    view.setUint32(future.length - 4, crc32(future, 0, future.length - 4), true);
+    check(expectError(() => Chunk.decode(future)), 'Se rechazan versiones futuras del formato');
+
+    // 8. Los estados de bloque (niveles de agua) se conservan
+    const flooded = new Chunk(0, 0, 0);
+    flooded.setBlock(3, 4, 5, BlockType.WATER, 6);
+    flooded.setBlock(3, 3, 5, BlockType.WATER);
+    const floodedDecoded = Chunk.decode(flooded.encode());
+    check(floodedDecoded.getMeta(3, 4, 5) === 6 && floodedDecoded.getMeta(3, 3, 5) === 0, 'Los estados de bloque se conservan');
+    check(decodeChunk(terrainBytes).meta === undefined, 'Un chunk sin estados no guarda la sección de estados');
+});
@@ -0,0 +1,68 @@
+import { BlockType } from '../blocks/BlockType';
+import { Chunk } from '../world/Chunk';
+import { World } from '../world/World';
+import { blockKey, chunkKey, chunkKeyX, chunkKeyY, chunkKeyZ, columnKey } from '../world/ChunkKey';
+import { NoiseTerrainGenerator } from '../world/generation/TerrainGenerator';
+import { defineTest } from './TestRunner';
+
+/**
+ * Prueba de las claves numéricas de chunk y del índice por columnas.
+ * En node no hay workers ni texturas, los avisos de World al crearse son esperados.
+ */
+export const testChunkKeys = defineTest('de claves de chunk', check => {
+    // 1. Las claves se deshacen en las mismas coordenadas y no se repiten
+    const values = [-1048576, -70000, -17, -1, 0, 1, 16, 1048575];
+    const seen = new Set<number>();
+    let roundTrip = true;
+    let unique = true;
+    for (const x of values) {
+        for (const y of [-512, -2, 0, 5, 511]) {
+            for (const z of values) {
+                const key = chunkKey(x, y, z);
+                if (chunkKeyX(key) !== x || chunkKeyY(key) !== y || chunkKeyZ(key) !== z) roundTrip = false;
+                if (!Number.isSafeInteger(key) || seen.has(key)) unique = false;
+                seen.add(key);
+            }
+        }
+    }
+    check(roundTrip, 'Las coordenadas se recuperan de la clave');
+    check(unique, 'Cada chunk tiene una clave distinta y entera');
+    check(columnKey(-1, 0) !== columnKey(0, -1) && columnKey(3, 4) === columnKey(3, 4), 'Las claves de columna distinguen X de Z');
+
+    // Las claves de bloque no se repiten entre vecinos ni en los extremos de altura del mundo
+    const blockKeys = new Set<number>();
+    for (const [x, y, z] of [[0, 0, 0], [1, 0, 0], [0, 1, 0], [0, 0, 1], [-1, -1, -1], [-1048576, -512, 1048575], [1048575, 511, -1048576]]) {
+        blockKeys.add(blockKey(x, y, z));
+    }
+    check(blockKeys.size === 7 && [...blockKeys].every(Number.isSafeInteger), 'Cada bloque tiene una clave distinta y entera');
+
+    // 2. El índice por columnas da la misma altura que recorrer los bloques
+    const world = new World(new NoiseTerrainGenerator({ seed: 99 }));
+    for (let y = -1; y <= 3; y++) {
+        for (let x = -1; x <= 0; x++) world.generateChunk(x, y, 0);
+    }
+    let heightsOk = true;
+    for (let x = -Chunk.SIZE; x < Chunk.SIZE; x += 3) {
+        for (let z = 0; z < Chunk.SIZE; z += 3) {
+            let expected = 0;
+            for (let y = 4 * Chunk.HEIGHT - 1; y >= -Chunk.HEIGHT; y--) {
+                if (world.getBlock(x, y, z) !== BlockType.AIR) {
+                    expected = y + 1;
+                    break;
+                }
+            }
+            if (world.getHighestBlockY(x, z) !== expected) heightsOk = false;
+        }
+    }
+    check(heightsOk, 'getHighestBlockY coincide con la columna de bloques');
+    check(world.getHighestBlockY(5 * Chunk.SIZE, 0) === 0, 'Una columna sin chunks da 0');
+
+    // 3. La caché del último chunk no confunde chunks vecinos
+    world.setBlock(-1, 20, 3, BlockType.GLASS);
+    world.setBlock(0, 20, 3, BlockType.LAMP);
+    check(world.getBlock(-1, 20, 3) === BlockType.GLASS && world.getBlock(0, 20, 3) === BlockType.LAMP &&
+        world.getBlock(-1, 20, 3) === BlockType.GLASS, 'getBlock alterna bien entre chunks');
+    check(world.getChunk(7, 0, 7) === undefined, 'Un chunk sin cargar sigue sin existir');
+
+    world.dispose();
+});
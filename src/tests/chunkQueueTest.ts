@@ -0,0 +1,96 @@
+import { ChunkQueue } from '../world/ChunkQueue';
+import { defineTest } from './TestRunner';
+
+/**
+ * Prueba de la cola de chunks (montículo con índice por chunk).
+ * En node no hay requestAnimationFrame: los fotogramas se ejecutan a mano.
+ */
+export const testChunkQueue = defineTest('de la cola de chunks', check => {
+    let nextFrame: FrameRequestCallback | null = null;
+    globalThis.requestAnimationFrame = callback => { nextFrame = callback; return 1; };
+    globalThis.cancelAnimationFrame = () => { nextFrame = null; };
+    const runFrame = () => {
+        const callback = nextFrame;
+        nextFrame = null;
+        callback?.(performance.now());
+    };
+
+    // Mundo falso que apunta el orden en que se procesan los chunks
+    const processed: string[] = [];
+    const modes = new Map<string, string>();
+    const world = {
+        getChunk: () => undefined,
+        generateChunk: (x: number, y: number, z: number) => ({ x, y, z }),
+        addChunkToScene: (chunk: { x: number; y: number; z: number }, mode: string) => {
+            processed.push(`${chunk.x},${chunk.y},${chunk.z}`);
+            modes.set(`${chunk.x},${chunk.y},${chunk.z}`, mode);
+        }
+    };
+
+    // 1. Las tareas salen por orden de prioridad
+    const queue = new ChunkQueue(world, Infinity);
+    const priorities = [50, 3, 27, 8, 99, 1, 64, 15, 42, 0, 77, 33];
+    priorities.forEach((priority, i) => queue.addTask(i, 0, 0, 'detailed', priority));
+    check(processed.length === 0, 'Nada se procesa hasta el siguiente fotograma');
+    check(queue.getQueueSize() === priorities.length, 'Todas las tareas están en la cola');
+    runFrame();
+    const expected = priorities.map((priority, i) => ({ priority, i }))
+        .sort((a, b) => a.priority - b.priority)
+        .map(({ i }) => `${i},0,0`);
+    check(processed.join(' ') === expected.join(' '), 'Se procesan de la más cercana a la más lejana');
+
+    // 2. Sin duplicados: una tarea repetida se actualiza (prioridad y modo)
+    processed.length = 0;
+    queue.addTask(0, 0, 0, 'detailed', 10);
+    queue.addTask(1, 0, 0, 'detailed', 20);
+    queue.addTask(2, 0, 0, 'detailed', 30);
+    queue.addTask(2, 0, 0, 'greedy', 5);
+    queue.addTask(0, 0, 0, 'detailed', 40); // Peor prioridad: se queda con la que tenía
+    check(queue.getQueueSize() === 3, 'Un chunk solo tiene una tarea');
+    runFrame();
+    check(processed.join(' ') === '2,0,0 0,0,0 1,0,0', 'Una prioridad mejor adelanta la tarea');
+    check(modes.get('2,0,0') === 'greedy', 'La tarea toma el modo nuevo');
+
+    // 3. Quitar tareas y recalcular prioridades cuando el jugador se mueve
+    processed.length = 0;
+    for (let x = 0; x < 10; x++) queue.addTask(x, 0, 0, 'detailed', x);
+    check(queue.removeTask(4, 0, 0) && !queue.hasTask(4, 0, 0), 'Se puede quitar una tarea');
+    check(!queue.removeTask(4, 0, 0), 'Quitar una tarea que no existe no hace nada');
+    // El jugador está ahora en x = 9 y ve 3 chunks alrededor
+    queue.reprioritize(x => Math.abs(x - 9) > 3 ? null : Math.abs(x - 9));
+    runFrame();
+    check(processed.join(' ') === '9,0,0 8,0,0 7,0,0 6,0,0', 'Los chunks lejanos se descartan y el resto se reordena');
+
+    // 4. Presupuesto de tiempo: con 0 ms se procesa una tarea por fotograma
+    const slow = new ChunkQueue(world, 0);
+    processed.length = 0;
+    for (let x = 0; x < 3; x++) slow.addTask(x, 1, 0, 'detailed', x);
+    runFrame();
+    check(processed.length === 1 && slow.getStats().lastFrameTasks === 1, 'Siempre avanza al menos una tarea por fotograma');
+    runFrame();
+    runFrame();
+    const stats = slow.getStats();
+    check(stats.size === 0 && stats.totalProcessed === 3 && stats.peakSize === 3, 'Las estadísticas cuentan las tareas');
+
+    // 5. Muchas tareas con prioridades al azar, actualizadas y quitadas
+    const big = new ChunkQueue(world, Infinity);
+    const reference = new Map<string, number>();
+    let seed = 1;
+    const random = () => (seed = (seed * 16807) % 2147483647) / 2147483647;
+    for (let i = 0; i < 5000; i++) {
+        const x = Math.floor(random() * 40), z = Math.floor(random() * 40);
+        const key = `${x},2,${z}`;
+        if (random() < 0.1) {
+            big.removeTask(x, 2, z);
+            reference.delete(key);
+            continue;
+        }
+        const priority = Math.floor(random() * 1000);
+        big.addTask(x, 2, z, 'detailed', priority);
+        reference.set(key, Math.min(priority, reference.get(key) ?? Infinity));
+    }
+    processed.length = 0;
+    runFrame();
+    const ordered = processed.every((key, i) => i === 0 || reference.get(processed[i - 1])! <= reference.get(key)!);
+    check(processed.length === reference.size && ordered, `El montículo mantiene el orden (${processed.length} tareas)`);
+});
@@ -0,0 +1,52 @@
+import { Chunk } from '../world/Chunk';
+import { BlockType } from '../blocks/BlockType';
+import { ChunkStorage, MemoryChunkBackend } from '../world/storage/ChunkStorage';
+import { defineTest } from './TestRunner';
+
+/**
+ * Prueba del guardado de chunks usando el backend en memoria en lugar de IndexedDB
+ */
+export const testChunkStorage = defineTest('de guardado de chunks', async check => {
+    const backend = new MemoryChunkBackend();
+    const storage = new ChunkStorage(backend);
+    await storage.open();
+
+    // 1. Un chunk editado se guarda primero en memoria y luego en el backend
+    const chunk = new Chunk(2, -1, 5);
+    chunk.setBlock(1, 2, 3, BlockType.STONE);
+    chunk.setBlock(15, 15, 15, BlockType.WOOD);
+    storage.save(chunk);
+
+    check(storage.has(2, -1, 5), 'El chunk guardado está disponible en la caché');
+    check(storage.getPendingCount() === 1, 'El chunk queda pendiente de escritura');
+    check(backend.size === 0, 'Nada se escribe en el backend antes del flush');
+
+    await storage.flush();
+    check(storage.getPendingCount() === 0, 'El flush vacía la lista de pendientes');
+    check(backend.size === 1, 'El flush escribe el chunk en el backend');
+
+    // 2. Los datos sobreviven a una "recarga" (nuevo ChunkStorage sobre el mismo backend)
+    const reloaded = new ChunkStorage(backend);
+    await reloaded.open();
+    const data = reloaded.load(2, -1, 5);
+    check(data !== undefined, 'El chunk se recupera después de recargar');
+
+    if (data) {
+        const restored = new Chunk(2, -1, 5);
+        restored.setBlockData(data);
+        check(restored.getBlock(1, 2, 3) === BlockType.STONE, 'Se conserva el bloque de piedra');
+        check(restored.getBlock(15, 15, 15) === BlockType.WOOD, 'Se conserva el bloque de madera');
+        check(restored.getBlock(0, 0, 0) === BlockType.AIR, 'El resto del chunk sigue siendo aire');
+        check(!restored.isEmpty(), 'El conteo de bloques se recalcula al restaurar');
+    }
+
+    // 3. load() devuelve copias, modificar el resultado no altera lo guardado
+    data?.fill(BlockType.DIRT);
+    check(reloaded.load(2, -1, 5)![0] === BlockType.AIR, 'load() devuelve una copia de los datos');
+
+    // 4. Chunks nunca guardados no existen
+    check(reloaded.load(0, 0, 0) === undefined, 'Un chunk sin guardar devuelve undefined');
+
+    await reloaded.clear();
+    check(backend.size === 0 && !reloaded.has(2, -1, 5), 'clear() elimina todos los chunks');
+});
@@ -0,0 +1,69 @@
+import { BlockType } from '../blocks/BlockType';
+import { Chunk } from '../world/Chunk';
+import { buildPaddedVolume, PADDED_VOLUME } from '../meshing/ChunkVolume';
+import { chunkKey } from '../world/ChunkKey';
+import { ALL_FACES_CONNECTED, canSeeThrough, computeChunkVisibility, ChunkVisibilitySearch } from '../world/ChunkVisibility';
+import { defineTest } from './TestRunner';
+
+/**
+ * Prueba de la oclusión entre chunks (caras conectadas y búsqueda desde la cámara)
+ */
+export const testChunkVisibility = defineTest('de visibilidad entre chunks', check => {
+    // Caras: 0 -X, 1 +X, 2 -Y, 3 +Y, 4 -Z, 5 +Z
+    const volume = (isStone: (x: number, y: number, z: number) => boolean) => {
+        const blocks = new Uint8Array(Chunk.SIZE * Chunk.SIZE * Chunk.HEIGHT);
+        for (let y = 0; y < Chunk.HEIGHT; y++) {
+            for (let z = 0; z < Chunk.SIZE; z++) {
+                for (let x = 0; x < Chunk.SIZE; x++) {
+                    if (isStone(x, y, z)) blocks[x + z * Chunk.SIZE + y * Chunk.SIZE * Chunk.SIZE] = BlockType.STONE;
+                }
+            }
+        }
+        // El borde de los vecinos no cuenta, se rellena de piedra para comprobarlo
+        return buildPaddedVolume(blocks, () => BlockType.STONE);
+    };
+
+    // 1. Chunks vacíos y llenos
+    check(computeChunkVisibility(new Uint8Array(PADDED_VOLUME)) === ALL_FACES_CONNECTED, 'En un chunk de aire todas las caras se ven');
+    check(computeChunkVisibility(volume(() => true)) === 0, 'En un chunk de piedra ninguna cara se ve');
+
+    // 2. Un suelo separa arriba de abajo pero no los lados
+    const floor = computeChunkVisibility(volume((_x, y) => y === 8));
+    check(!canSeeThrough(floor, 2, 3) && !canSeeThrough(floor, 3, 2), 'Un suelo completo tapa de abajo a arriba');
+    check(canSeeThrough(floor, 0, 1) && canSeeThrough(floor, 3, 5) && canSeeThrough(floor, 2, 4), 'Los lados se ven por encima y por debajo del suelo');
+
+    // 3. Un túnel solo une sus dos extremos
+    const tunnel = computeChunkVisibility(volume((_x, y, z) => !(y >= 6 && y <= 7 && z >= 6 && z <= 7)));
+    check(canSeeThrough(tunnel, 0, 1) && canSeeThrough(tunnel, 1, 0), 'El túnel une -X con +X');
+    check(!canSeeThrough(tunnel, 0, 3) && !canSeeThrough(tunnel, 4, 5) && !canSeeThrough(tunnel, 2, 3), 'El túnel no une otras caras');
+
+    // 4. Búsqueda desde la cámara: una fila de chunks con una pared en medio.
+    // La misma búsqueda se reutiliza, cada resultado sustituye al anterior
+    const search = new ChunkVisibilitySearch();
+    const row = (walls: Map<number, number>, isInView = (_x: number, _y: number, _z: number) => true) =>
+        search.search(0, 0, 0, (x, y, z) => {
+            if (Math.abs(x) > 4 || Math.abs(y) > 1 || Math.abs(z) > 1) return null;
+            return walls.get(chunkKey(x, y, z)) ?? ALL_FACES_CONNECTED;
+        }, isInView);
+    const seen = (x: number, y: number, z: number) => search.isVisible(chunkKey(x, y, z));
+    const open = row(new Map());
+    check(open === 9 * 3 * 3 && seen(4, 1, -1), `Sin paredes se ven todos los chunks del rango (${open})`);
+
+    // Una pared de chunks macizos en x = 2 esconde todo lo que hay detrás
+    const walls = new Map<number, number>();
+    for (let y = -1; y <= 1; y++) {
+        for (let z = -1; z <= 1; z++) walls.set(chunkKey(2, y, z), 0);
+    }
+    row(walls);
+    check(seen(2, 0, 0) && !seen(3, 0, 0) && !seen(4, 1, -1), 'La pared se ve pero lo de detrás no');
+    check(seen(-4, 0, 0), 'Lo que hay al otro lado de la cámara sigue viéndose');
+
+    // Con un túnel en la pared se ve a través de él
+    walls.set(chunkKey(2, 0, 0), tunnel);
+    row(walls);
+    check(seen(3, 0, 0) && seen(4, 0, 0), 'Se ve a través del túnel');
+
+    // 5. Lo que queda fuera del frustum no se recorre
+    row(new Map(), (x) => x >= 0);
+    check(seen(4, 0, 0) && !seen(-1, 0, 0), 'Los chunks detrás de la cámara no se ven');
+});
@@ -0,0 +1,117 @@
+import { BlockType } from '../blocks/BlockType';
+import { World } from '../world/World';
+import { Chunk } from '../world/Chunk';
+import { NoiseTerrainGenerator } from '../world/generation/TerrainGenerator';
+import { canPlaceStructureBlock } from '../world/generation/structures/Structure';
+import { ChunkStorage, MemoryChunkBackend } from '../world/storage/ChunkStorage';
+import { defineTest } from './TestRunner';
+
+/**
+ * Prueba de la decoración (árboles) entre chunks.
+ * En node no hay workers ni texturas, los avisos de World al crearse son esperados.
+ */
+export const testDecoration = defineTest('de decoración', async check => {
+    // 1. Prioridades: los troncos atraviesan hojas, nada pisa el terreno
+    check(canPlaceStructureBlock(BlockType.AIR, BlockType.LEAVES), 'Las hojas crecen en el aire');
+    check(canPlaceStructureBlock(BlockType.LEAVES, BlockType.WOOD), 'Los troncos atraviesan las hojas');
+    check(!canPlaceStructureBlock(BlockType.WOOD, BlockType.LEAVES), 'Las hojas no tapan los troncos');
+    check(!canPlaceStructureBlock(BlockType.GRASS, BlockType.WOOD), 'Las estructuras no reemplazan el terreno');
+
+    // 2. El mismo mundo generado en dos órdenes distintos
+    const radius = 3;
+    const coords: [number, number, number][] = [];
+    for (let y = 0; y <= 3; y++) {
+        for (let z = -radius; z <= radius; z++) {
+            for (let x = -radius; x <= radius; x++) coords.push([x, y, z]);
+        }
+    }
+    const forward = new World(new NoiseTerrainGenerator({ seed: 42 }));
+    const backward = new World(new NoiseTerrainGenerator({ seed: 42 }));
+    coords.forEach(([x, y, z]) => forward.generateChunk(x, y, z));
+    [...coords].reverse().forEach(([x, y, z]) => backward.generateChunk(x, y, z));
+
+    let identical = true;
+    let wood = 0;
+    for (const [x, y, z] of coords) {
+        const a = forward.getChunk(x, y, z)!.getBlockData();
+        const b = backward.getChunk(x, y, z)!.getBlockData();
+        for (let i = 0; i < a.length; i++) {
+            if (a[i] !== b[i]) identical = false;
+            if (a[i] === BlockType.WOOD) wood++;
+        }
+    }
+    check(wood > 0, `Se generan árboles (${wood} bloques de tronco)`);
+    check(identical, 'El resultado no depende del orden de carga');
+
+    // 3. Los árboles cerca del borde tienen la copa completa en el chunk vecino
+    let crossing = 0;
+    let complete = true;
+    const inner = (radius - 1) * Chunk.SIZE;
+    for (let z = -inner; z < inner; z++) {
+        for (let x = -inner; x < inner; x++) {
+            for (let y = 0; y < 4 * Chunk.HEIGHT - 1; y++) {
+                // Parte de arriba de cada tronco: encima tiene que haber hojas
+                if (forward.getBlock(x, y, z) !== BlockType.WOOD || forward.getBlock(x, y + 1, z) === BlockType.WOOD) continue;
+                if (forward.getBlock(x, y + 1, z) !== BlockType.LEAVES) complete = false;
+                const nearBorder = [x, z].some(c => {
+                    const local = ((c % Chunk.SIZE) + Chunk.SIZE) % Chunk.SIZE;
+                    return local < 2 || local >= Chunk.SIZE - 2;
+                });
+                if (nearBorder) {
+                    crossing++;
+                    for (const [dx, dz] of [[2, 0], [-2, 0], [0, 2], [0, -2]]) {
+                        if (forward.getBlock(x + dx, y - 1, z + dz) !== BlockType.LEAVES &&
+                            forward.getBlock(x + dx, y - 1, z + dz) !== BlockType.WOOD) complete = false;
+                    }
+                }
+            }
+        }
+    }
+    check(crossing > 0, `Hay árboles que cruzan el borde de un chunk (${crossing})`);
+    check(complete, 'Ningún árbol queda cortado por el borde');
+
+    // 4. Volver a generar solo los chunks interiores, sin los del borde cargados, da los mismos bloques
+    const innerCoords = coords.filter(([x, , z]) => Math.abs(x) < radius && Math.abs(z) < radius);
+    const regenerated = new World(new NoiseTerrainGenerator({ seed: 42 }));
+    [...innerCoords].reverse().forEach(([x, y, z]) => regenerated.generateChunk(x, y, z));
+    let changedChunks = 0;
+    for (const [x, y, z] of innerCoords) {
+        const a = forward.getChunk(x, y, z)!.getBlockData();
+        const b = regenerated.getChunk(x, y, z)!.getBlockData();
+        if (a.some((block, i) => block !== b[i])) changedChunks++;
+    }
+    check(changedChunks === 0, `Los chunks regenerados recuperan sus árboles y los de sus vecinos (${changedChunks} distintos)`);
+
+    // 5. Las hojas que quita el jugador no vuelven al recargar el chunk ni sus vecinos
+    const storage = new ChunkStorage(new MemoryChunkBackend());
+    const edited = new World(new NoiseTerrainGenerator({ seed: 42 }), storage);
+    coords.forEach(([x, y, z]) => edited.generateChunk(x, y, z));
+    const countLeaves = ([x, y, z]: [number, number, number], world: World = edited) =>
+        world.getChunk(x, y, z)!.getBlockData().filter(block => block === BlockType.LEAVES).length;
+    const leafy = innerCoords.reduce((best, c) => countLeaves(c) > countLeaves(best) ? c : best);
+    const [cx, cy, cz] = leafy;
+    const leavesBefore = countLeaves(leafy);
+    for (let y = 0; y < Chunk.HEIGHT; y++) {
+        for (let z = 0; z < Chunk.SIZE; z++) {
+            for (let x = 0; x < Chunk.SIZE; x++) {
+                const worldX = cx * Chunk.SIZE + x, worldY = cy * Chunk.HEIGHT + y, worldZ = cz * Chunk.SIZE + z;
+                if (edited.getBlock(worldX, worldY, worldZ) === BlockType.LEAVES) edited.setBlock(worldX, worldY, worldZ, BlockType.AIR);
+            }
+        }
+    }
+    // Se guarda todo y se carga en un mundo nuevo: primero el chunk editado, luego sus vecinos con él cargado
+    await edited.saveAll();
+    const reloaded = new World(new NoiseTerrainGenerator({ seed: 42 }), storage);
+    reloaded.generateChunk(cx, cy, cz);
+    const leavesRestored = countLeaves(leafy, reloaded);
+    const neighbours = innerCoords.filter(([x, y, z]) => Math.abs(x - cx) <= 1 && Math.abs(y - cy) <= 1 && Math.abs(z - cz) <= 1 && !(x === cx && y === cy && z === cz));
+    neighbours.forEach(([x, y, z]) => reloaded.generateChunk(x, y, z));
+    check(leavesBefore > 0 && leavesRestored === 0 && countLeaves(leafy, reloaded) === 0,
+        `Las hojas quitadas (${leavesBefore}) no reaparecen (${leavesRestored} al restaurarlo, ${countLeaves(leafy, reloaded)} con los vecinos regenerados)`);
+
+    forward.dispose();
+    backward.dispose();
+    regenerated.dispose();
+    edited.dispose();
+    reloaded.dispose();
+});
@@ -0,0 +1,72 @@
+import { BlockType } from '../blocks/BlockType';
+import { BlockRegistry } from '../blocks/BlockRegistry';
+import { TickQueue } from '../world/TickQueue';
+import { FluidSimulator, type FluidWorld } from '../world/fluids/FluidSimulator';
+import { FALLING_FLAG, getFlowLevel, isSource } from '../world/fluids/FluidState';
+import { defineTest } from './TestRunner';
+
+/**
+ * Prueba de la simulación de agua sobre un suelo plano de piedra
+ */
+export const testFluids = defineTest('de fluidos', check => {
+    // Mundo mínimo: suelo de piedra en y = 0 entre -20 y 20, aire encima
+    const blocks = new Map<string, [BlockType, number]>();
+    const queue = new TickQueue();
+    const inside = (x: number, z: number) => Math.abs(x) <= 20 && Math.abs(z) <= 20;
+    const world: FluidWorld = {
+        getBlock: (x, y, z) => blocks.get(`${x},${y},${z}`)?.[0] ?? (y === 0 && inside(x, z) ? BlockType.STONE : BlockType.AIR),
+        getBlockMeta: (x, y, z) => blocks.get(`${x},${y},${z}`)?.[1] ?? 0,
+        setBlock: (x, y, z, type, meta = 0) => {
+            blocks.set(`${x},${y},${z}`, [type, meta]);
+            for (const [dx, dy, dz] of [[0, 0, 0], [1, 0, 0], [-1, 0, 0], [0, 1, 0], [0, -1, 0], [0, 0, 1], [0, 0, -1]]) {
+                if (BlockRegistry.isFluid(world.getBlock(x + dx, y + dy, z + dz))) {
+                    queue.schedule(x + dx, y + dy, z + dz, FluidSimulator.TICK_DELAY);
+                }
+            }
+        },
+        isBlockLoaded: (x, _y, z) => inside(x, z)
+    };
+    const simulator = new FluidSimulator(world);
+    const run = (ticks: number) => {
+        for (let t = 0; t < ticks; t++) {
+            const due = queue.advance();
+            for (let i = 0; i < due.length; i += 3) simulator.update(due[i], due[i + 1], due[i + 2]);
+        }
+    };
+    const isWater = (x: number, y: number, z: number) => world.getBlock(x, y, z) === BlockType.WATER;
+
+    // 1. Una fuente se extiende por el suelo perdiendo un nivel por bloque
+    world.setBlock(0, 1, 0, BlockType.WATER);
+    run(200);
+    check(isSource(world.getBlockMeta(0, 1, 0)), 'La fuente se mantiene');
+    check(isWater(1, 1, 0) && getFlowLevel(world.getBlockMeta(1, 1, 0)) === 1, 'Nivel 1 junto a la fuente');
+    check(isWater(7, 1, 0) && getFlowLevel(world.getBlockMeta(7, 1, 0)) === 7, 'Nivel 7 a siete bloques');
+    check(!isWater(8, 1, 0), 'El agua no pasa de siete bloques');
+    check(isWater(3, 1, 4) && !isWater(4, 1, 4), 'La distancia se mide por bloques adyacentes');
+    check(queue.size === 0, 'La simulación se estabiliza');
+
+    // 2. Un agujero cavado junto al agua se inunda desde arriba
+    world.setBlock(3, -1, 0, BlockType.STONE);
+    world.setBlock(3, 0, 0, BlockType.AIR);
+    run(200);
+    check(isWater(3, 0, 0) && world.getBlockMeta(3, 0, 0) === FALLING_FLAG, 'El agujero se llena con agua que cae');
+    check(!isWater(3, -1, 0), 'El fondo del agujero sigue siendo sólido');
+
+    // 3. Al quitar la fuente el agua que fluye se seca
+    world.setBlock(0, 1, 0, BlockType.AIR);
+    run(400);
+    let remaining = 0;
+    for (const [type] of blocks.values()) {
+        if (type === BlockType.WATER) remaining++;
+    }
+    check(remaining === 0, 'Sin fuente no queda agua');
+
+    // 4. La cola no repite posiciones y respeta el límite por tick
+    const limited = new TickQueue();
+    limited.schedule(0, 0, 0, 2);
+    limited.schedule(0, 0, 0, 1);
+    limited.schedule(1, 0, 0, 1);
+    check(limited.size === 2, 'Una posición se programa una sola vez');
+    check(limited.advance(1).length === 3 && limited.size === 1, 'Las actualizaciones sobrantes pasan al siguiente tick');
+    check(limited.advance().length === 3 && limited.advance().length === 0, 'Las posiciones adelantadas no se repiten');
+});
@@ -0,0 +1,99 @@
+import { BlockType } from '../blocks/BlockType';
+import { TickQueue } from '../world/TickQueue';
+import type { BlockUpdateHandler } from '../world/BlockUpdateHandler';
+import { FluidSimulator } from '../world/fluids/FluidSimulator';
+import { GravityBlocks } from '../world/gravity/GravityBlocks';
+import { FallingBlock } from '../world/gravity/FallingBlock';
+import { defineTest } from './TestRunner';
+
+/**
+ * Prueba de los bloques con gravedad (arena) y de las actualizaciones de bloques vecinos
+ */
+export const testGravity = defineTest('de gravedad', check => {
+    // Mundo mínimo: suelo de piedra en y = 0, cargado entre y = -16 y y = 63
+    const blocks = new Map<string, [BlockType, number]>();
+    const queue = new TickQueue();
+    let fallingBlocks: FallingBlock[] = [];
+    // Lowest loaded block, the column x = 10 is loaded at any depth
+    let loadedBottom = -16;
+    const world = {
+        getBlock: (x: number, y: number, z: number) => blocks.get(`${x},${y},${z}`)?.[0] ?? (y === 0 ? BlockType.STONE : BlockType.AIR),
+        getBlockMeta: (x: number, y: number, z: number) => blocks.get(`${x},${y},${z}`)?.[1] ?? 0,
+        setBlock: (x: number, y: number, z: number, type: BlockType, meta = 0) => {
+            blocks.set(`${x},${y},${z}`, [type, meta]);
+            for (const [dx, dy, dz] of [[0, 0, 0], [1, 0, 0], [-1, 0, 0], [0, 1, 0], [0, -1, 0], [0, 0, 1], [0, 0, -1]]) {
+                const handler = handlers.find(h => h.handles(world.getBlock(x + dx, y + dy, z + dz)));
+                if (handler) queue.schedule(x + dx, y + dy, z + dz, handler.tickDelay);
+            }
+        },
+        isBlockLoaded: (x: number, y: number, _z: number) => x === 10 || (y >= loadedBottom && y < 64),
+        spawnFallingBlock: (x: number, y: number, z: number, type: BlockType) => {
+            fallingBlocks.push(new FallingBlock(x, y, z, type));
+        }
+    };
+    const handlers: BlockUpdateHandler[] = [new FluidSimulator(world), new GravityBlocks(world)];
+    const run = (ticks: number) => {
+        for (let t = 0; t < ticks; t++) {
+            const due = queue.advance();
+            for (let i = 0; i < due.length; i += 3) {
+                handlers.find(h => h.handles(world.getBlock(due[i], due[i + 1], due[i + 2])))?.update(due[i], due[i + 1], due[i + 2]);
+            }
+            const current = fallingBlocks;
+            fallingBlocks = [];
+            for (const fallingBlock of current) {
+                if (fallingBlock.tick(world, 0.05)) fallingBlocks.push(fallingBlock);
+            }
+        }
+    };
+
+    // 1. La arena colocada en el aire cae hasta el suelo
+    world.setBlock(0, 10, 0, BlockType.SAND);
+    run(3);
+    check(world.getBlock(0, 10, 0) === BlockType.AIR && fallingBlocks.length === 1, 'La arena sin apoyo se convierte en un bloque que cae');
+    run(40);
+    check(fallingBlocks.length === 0, 'El bloque que cae desaparece al aterrizar');
+    check(world.getBlock(0, 1, 0) === BlockType.SAND, 'La arena aterriza sobre el suelo');
+
+    // 2. La piedra no cae
+    world.setBlock(2, 10, 0, BlockType.STONE);
+    run(40);
+    check(world.getBlock(2, 10, 0) === BlockType.STONE, 'Los bloques sin gravedad se quedan en su sitio');
+
+    // 3. Al quitar el apoyo cae toda la columna, que se vuelve a apilar
+    for (let y = 2; y <= 5; y++) world.setBlock(4, y, 0, BlockType.SAND);
+    world.setBlock(4, 1, 0, BlockType.DIRT);
+    run(40);
+    world.setBlock(4, 1, 0, BlockType.AIR);
+    run(80);
+    let stacked = true;
+    for (let y = 1; y <= 4; y++) stacked = stacked && world.getBlock(4, y, 0) === BlockType.SAND;
+    check(stacked && world.getBlock(4, 5, 0) === BlockType.AIR, 'La columna de arena cae un bloque entero');
+
+    // 4. La arena se hunde en el agua y la reemplaza
+    world.setBlock(6, 1, 0, BlockType.WATER);
+    world.setBlock(6, 6, 0, BlockType.SAND);
+    run(60);
+    check(world.getBlock(6, 1, 0) === BlockType.SAND, 'La arena atraviesa el agua hasta el fondo');
+
+    // 5. Sobre espacio sin cargar el bloque espera, sin expirar, hasta que se carga
+    blocks.set('8,0,0', [BlockType.AIR, 0]);
+    world.setBlock(8, 1, 0, BlockType.SAND);
+    run(60);
+    check(fallingBlocks.length === 1 && fallingBlocks[0].height === -16, 'El bloque espera sobre el espacio sin cargar');
+    run(FallingBlock.MAX_AGE);
+    check(fallingBlocks.length === 1 && fallingBlocks[0].height === -16, 'El bloque que espera no expira');
+    blocks.set('8,-20,0', [BlockType.STONE, 0]);
+    loadedBottom = -32;
+    run(20);
+    check(fallingBlocks.length === 0 && world.getBlock(8, -19, 0) === BlockType.SAND, 'Al cargarse el espacio el bloque sigue cayendo y aterriza');
+
+    // 6. El bloque que cae demasiado tiempo se coloca donde está en vez de perderse
+    blocks.set('10,0,0', [BlockType.AIR, 0]);
+    world.setBlock(10, 1, 0, BlockType.SAND);
+    // Colocado en el aire vuelve a caer poco después, se mira justo al colocarse
+    run(FallingBlock.MAX_AGE);
+    for (let t = 0; t < 10 && fallingBlocks.length > 0; t++) run(1);
+    const placed = [...blocks].filter(([key, [type]]) => key.startsWith('10,') && type === BlockType.SAND);
+    check(fallingBlocks.length === 0 && placed.length === 1 && Number(placed[0][0].split(',')[1]) < -1000,
+        `El bloque que no aterriza se coloca donde estaba (${placed.length} colocados)`);
+});
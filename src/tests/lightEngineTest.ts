@@ -0,0 +1,62 @@
+import { BlockType } from '../blocks/BlockType';
+import { Chunk } from '../world/Chunk';
+import { LightEngine, type LightWorld } from '../world/lighting/LightEngine';
+import { getSunLight, getBlockLight } from '../world/lighting/LightLevels';
+import { defineTest } from './TestRunner';
+
+/**
+ * Prueba de propagación de luz solar y de bloques en un chunk aislado
+ */
+export const testLightEngine = defineTest('de iluminación', check => {
+    // Un único chunk cargado con el cielo encima
+    const chunk = new Chunk(0, 0, 0);
+    const world: LightWorld = {
+        getChunk: (x, y, z) => (x === 0 && y === 0 && z === 0 ? chunk : undefined),
+        isSkyExposed: () => true
+    };
+    const engine = new LightEngine(world);
+    const sun = (x: number, y: number, z: number) => getSunLight(chunk.getLight(x, y, z));
+    const blockLight = (x: number, y: number, z: number) => getBlockLight(chunk.getLight(x, y, z));
+    const setBlock = (x: number, y: number, z: number, type: BlockType) => {
+        const old = chunk.getBlock(x, y, z);
+        chunk.setBlock(x, y, z, type);
+        engine.onBlockChanged(x, y, z, old, type);
+    };
+
+    // 1. Un chunk vacío queda iluminado por completo
+    engine.initializeChunk(chunk);
+    check(sun(0, 0, 0) === 15 && sun(15, 15, 15) === 15, 'Chunk vacío con luz solar máxima');
+
+    // 2. Un techo de piedra deja el interior a oscuras
+    chunk.fill(0, 15, 0, 15, 15, 15, BlockType.STONE);
+    engine.initializeChunk(chunk);
+    check(sun(8, 14, 8) === 0 && sun(0, 0, 0) === 0, 'Bajo el techo no hay luz solar');
+
+    // 3. Una lámpara ilumina y se atenúa un nivel por bloque
+    setBlock(8, 5, 8, BlockType.LAMP);
+    check(blockLight(8, 5, 8) === 15, 'La lámpara emite luz 15');
+    check(blockLight(9, 5, 8) === 14, 'Luz 14 junto a la lámpara');
+    check(blockLight(8, 5, 13) === 10, 'Luz 10 a cinco bloques');
+    check(blockLight(0, 0, 0) === 0, 'La luz de la lámpara no llega a la esquina');
+
+    // 4. Un muro detiene la luz
+    chunk.fill(10, 0, 0, 10, 14, 15, BlockType.STONE);
+    engine.initializeChunk(chunk);
+    check(blockLight(10, 5, 8) === 0, 'El muro no recibe luz');
+    check(blockLight(11, 5, 8) === 0, 'La luz no pasa al otro lado del muro');
+
+    // 5. Quitar la lámpara apaga su luz
+    setBlock(8, 5, 8, BlockType.AIR);
+    check(blockLight(8, 5, 8) === 0 && blockLight(9, 5, 8) === 0, 'Sin lámpara no queda luz de bloque');
+
+    // 6. Un agujero en el techo deja bajar la luz del sol
+    setBlock(4, 15, 4, BlockType.AIR);
+    check(sun(4, 15, 4) === 15 && sun(4, 0, 4) === 15, 'La columna bajo el agujero recibe sol completo');
+    check(sun(5, 3, 4) === 14, 'La luz solar se extiende de lado con un nivel menos');
+
+    // 7. Tapar el agujero vuelve a oscurecer
+    setBlock(4, 15, 4, BlockType.GLASS);
+    check(sun(4, 0, 4) === 15, 'El cristal deja pasar la luz solar');
+    setBlock(4, 15, 4, BlockType.STONE);
+    check(sun(4, 14, 4) === 0 && sun(5, 3, 4) === 0, 'Al tapar el agujero no queda luz solar');
+});
@@ -0,0 +1,147 @@
+import { BlockType } from '../blocks/BlockType';
+import { BlockRegistry } from '../blocks/BlockRegistry';
+import { Chunk } from '../world/Chunk';
+import { NoiseTerrainGenerator } from '../world/generation/TerrainGenerator';
+import { buildPaddedVolume, PADDED_VOLUME } from '../meshing/ChunkVolume';
+import { buildDetailedMesh } from '../meshing/DetailedMesher';
+import { buildLodMesh, DownsampledBlocks, getDownsampledBlock } from '../meshing/LodMesher';
+import type { ChunkMeshArrays } from '../meshing/MeshScratch';
+import { DATA_SIZE, getFaceIndex, POSITION_SCALE } from '../meshing/VertexFormat';
+import { defineTest } from './TestRunner';
+
+/**
+ * Prueba de los niveles de detalle (chunks submuestreados y faldones)
+ */
+export const testLodMesh = defineTest('de niveles de detalle', check => {
+    const fullLight = new Uint8Array(PADDED_VOLUME).fill(0xF0);
+    const meta = new Uint8Array(PADDED_VOLUME);
+    const biomes = new Uint8Array(Chunk.SIZE * Chunk.SIZE);
+    const vertexCount = (mesh: ChunkMeshArrays | null) => mesh ? mesh.positions.length / 3 : 0;
+    const maxY = (mesh: ChunkMeshArrays) => {
+        let max = -Infinity;
+        for (let i = 1; i < mesh.positions.length; i += 3) max = Math.max(max, mesh.positions[i]);
+        return max / POSITION_SCALE;
+    };
+
+    // Chunk con las capas de abajo de piedra, piedra debajo y los vecinos de los lados dados
+    const layers = (height: number, border: BlockType) => {
+        const blocks = new Uint8Array(Chunk.SIZE * Chunk.SIZE * Chunk.HEIGHT);
+        blocks.fill(BlockType.STONE, 0, height * Chunk.SIZE * Chunk.SIZE);
+        return buildPaddedVolume(blocks, (_x, y) => y < 0 ? BlockType.STONE : y < height ? border : BlockType.AIR);
+    };
+
+    // 1. Un chunk vacío no tiene geometría
+    check(buildLodMesh(new Uint8Array(PADDED_VOLUME), fullLight, biomes, 2) === null, 'Un chunk de aire no genera malla');
+
+    // 2. Regla de la mayoría: con empate gana el bloque sólido
+    const lod2 = buildLodMesh(layers(3, BlockType.STONE), fullLight, biomes, 2)!;
+    const lod8 = buildLodMesh(layers(4, BlockType.STONE), fullLight, biomes, 8)!;
+    check(maxY(lod2) === 4, `3 capas a 2x quedan en 2 vóxeles (altura ${maxY(lod2)})`);
+    check(maxY(lod8) === 8, `4 capas de 8 empatan y se quedan (altura ${maxY(lod8)})`);
+    check(vertexCount(buildLodMesh(layers(3, BlockType.STONE), fullLight, biomes, 8)) === 0, 'Menos de media celda de piedra desaparece a 8x');
+
+    // 3. Faldones: la cara del borde se dibuja si el vecino deja ver algo detrás
+    const covered = buildLodMesh(layers(8, BlockType.STONE), fullLight, biomes, 4)!;
+    const skirted = buildLodMesh(layers(8, BlockType.AIR), fullLight, biomes, 4)!;
+    check(vertexCount(covered) === 4, 'Con vecinos sólidos solo queda la cara de arriba');
+    check(vertexCount(skirted) === 4 * 5, 'Con vecinos de aire el borde se cierra con faldones');
+
+    // 4. En terreno real cada nivel tiene menos vértices
+    const generator = new NoiseTerrainGenerator({ seed: 3 });
+    const chunks = new Map<string, Chunk>();
+    const getChunk = (x: number, y: number, z: number) => {
+        const key = `${x},${y},${z}`;
+        let chunk = chunks.get(key);
+        if (!chunk) {
+            chunk = new Chunk(x, y, z);
+            generator.generate(chunk);
+            chunks.set(key, chunk);
+        }
+        return chunk;
+    };
+    const counts = [0, 0, 0, 0];
+    for (let cx = 0; cx < 3; cx++) {
+        for (let cy = 0; cy < 3; cy++) {
+            const chunk = getChunk(cx, cy, 0);
+            const blocks = buildPaddedVolume(chunk.getBlockData(), (x, y, z) => {
+                const wx = cx * Chunk.SIZE + x, wy = cy * Chunk.HEIGHT + y, wz = z;
+                const ox = Math.floor(wx / Chunk.SIZE), oy = Math.floor(wy / Chunk.HEIGHT), oz = Math.floor(wz / Chunk.SIZE);
+                return getChunk(ox, oy, oz).getBlock(wx - ox * Chunk.SIZE, wy - oy * Chunk.HEIGHT, wz - oz * Chunk.SIZE);
+            });
+            counts[0] += vertexCount(buildDetailedMesh(blocks, fullLight, meta, biomes));
+            [2, 4, 8].forEach((scale, i) => counts[i + 1] += vertexCount(buildLodMesh(blocks, fullLight, biomes, scale)));
+        }
+    }
+    check(counts[0] > counts[1] && counts[1] > counts[2] && counts[2] > counts[3], `Los vértices bajan con cada nivel (${counts.join(' > ')})`);
+
+    // 5. Costura entre un chunk detallado (x = 0) y uno a 2x (x = 1): en el plano x = 16 que comparten,
+    // cada celda donde un lado deja ver al otro tiene que quedar tapada por una cara
+    const seamGaps = (getBlock: (x: number, y: number, z: number) => number, cy: number) => {
+        const baseY = cy * Chunk.HEIGHT;
+        const column = (cx: number) => new Uint8Array(Chunk.SIZE * Chunk.SIZE * Chunk.HEIGHT).map((_, i) =>
+            getBlock(cx * Chunk.SIZE + i % Chunk.SIZE, baseY + Math.floor(i / (Chunk.SIZE * Chunk.SIZE)), Math.floor(i / Chunk.SIZE) % Chunk.SIZE));
+        // Igual que Chunk.buildPaddedBlocks: el detallado ve los vóxeles del vecino a 2x, el de 2x ve los bloques reales
+        const downsampled = new DownsampledBlocks(getBlock);
+        const detailedBlocks = buildPaddedVolume(column(0), (x, y, z) => downsampled.get(x, baseY + y, z, x >= Chunk.SIZE ? 2 : 1));
+        const lodBlocks = buildPaddedVolume(column(1), (x, y, z) => getBlock(Chunk.SIZE + x, baseY + y, z));
+        const detailed = buildDetailedMesh(detailedBlocks, fullLight, meta, biomes);
+        const lod = buildLodMesh(lodBlocks, fullLight, biomes, 2);
+
+        // Celdas (y, z) del plano cubiertas por las caras de una malla que miran en un sentido
+        const coverage = (mesh: ChunkMeshArrays | null, planeX: number, face: number) => {
+            const covered = new Uint8Array(Chunk.SIZE * Chunk.HEIGHT);
+            if (!mesh) return covered;
+            for (let v = 0; v < mesh.data.length / DATA_SIZE; v += 4) {
+                if (mesh.data[v * DATA_SIZE] !== face || mesh.positions[v * 3] !== planeX * POSITION_SCALE) continue;
+                const ys = [0, 1, 2, 3].map(k => mesh.positions[(v + k) * 3 + 1] / POSITION_SCALE);
+                const zs = [0, 1, 2, 3].map(k => mesh.positions[(v + k) * 3 + 2] / POSITION_SCALE);
+                for (let y = Math.floor(Math.min(...ys)); y < Math.max(...ys); y++) {
+                    for (let z = Math.floor(Math.min(...zs)); z < Math.max(...zs); z++) covered[z + y * Chunk.SIZE] = 1;
+                }
+            }
+            return covered;
+        };
+        const fromDetailed = coverage(detailed, Chunk.SIZE, getFaceIndex(0, 1));
+        const fromLod = coverage(lod, 0, getFaceIndex(0, -1));
+
+        let gaps = 0;
+        for (let y = 0; y < Chunk.HEIGHT; y++) {
+            for (let z = 0; z < Chunk.SIZE; z++) {
+                const inside = getBlock(Chunk.SIZE - 1, baseY + y, z);
+                const shown = getDownsampledBlock(getBlock, Chunk.SIZE, baseY + y, z, 2);
+                if (BlockRegistry.isFaceVisible(inside, shown) && !fromDetailed[z + y * Chunk.SIZE]) gaps++;
+                if (BlockRegistry.isFaceVisible(shown, inside) && !fromLod[z + y * Chunk.SIZE]) gaps++;
+            }
+        }
+        return gaps;
+    };
+
+    // Pared de piedra a cuadros en el borde del chunk de 2x: a 2x se queda en aire y no tapa nada
+    const checkered = (x: number, y: number, z: number) =>
+        x < Chunk.SIZE || (x === Chunk.SIZE && (y + z) % 2 === 0) ? BlockType.STONE : BlockType.AIR;
+    check(seamGaps(checkered, 0) === 0, 'El chunk detallado no oculta caras tras bloques que el 2x fusionó');
+
+    let terrainGaps = 0;
+    for (let cy = 0; cy < 3; cy++) {
+        terrainGaps += seamGaps((x, y, z) => {
+            const ox = Math.floor(x / Chunk.SIZE), oy = Math.floor(y / Chunk.HEIGHT), oz = Math.floor(z / Chunk.SIZE);
+            return getChunk(ox, oy, oz).getBlock(x - ox * Chunk.SIZE, y - oy * Chunk.HEIGHT, z - oz * Chunk.SIZE);
+        }, cy);
+    }
+    check(terrainGaps === 0, `En terreno real la costura no tiene huecos (${terrainGaps})`);
+
+    // 6. El borde junto a un vecino a 8x vota cada vóxel una sola vez
+    let lookups = 0;
+    const counted = new DownsampledBlocks((x, y, z) => {
+        lookups++;
+        return checkered(x, y, z);
+    });
+    let sameBlocks = true;
+    for (let y = -1; y <= Chunk.HEIGHT; y++) {
+        for (let z = -1; z <= Chunk.SIZE; z++) {
+            if (counted.get(Chunk.SIZE, y, z, 8) !== getDownsampledBlock(checkered, Chunk.SIZE, y, z, 8)) sameBlocks = false;
+        }
+    }
+    // 18x18 celdas del borde caen en 4x4 vóxeles de 8³ bloques, cada voto mira cada bloque dos veces
+    check(sameBlocks && lookups === 4 * 4 * 8 * 8 * 8 * 2, `Los vóxeles del vecino se calculan una vez (${lookups} consultas)`);
+});
@@ -0,0 +1,50 @@
+import { runTests, type TestCase } from './TestRunner';
+import { testBiomes } from './biomeTest';
+import { testBlockRegistry } from './blockRegistryTest';
+import { testCaves } from './caveTest';
+import { testChunkCodec } from './chunkCodecTest';
+import { testChunkKeys } from './chunkKeyTest';
+import { testChunkQueue } from './chunkQueueTest';
+import { testChunkStorage } from './chunkStorageTest';
+import { testChunkVisibility } from './chunkVisibilityTest';
+import { testDecoration } from './decorationTest';
+import { testFluids } from './fluidTest';
+import { testGravity } from './gravityTest';
+import { testLightEngine } from './lightEngineTest';
+import { testLodMesh } from './lodMeshTest';
+import { testVertexFormat } from './vertexFormatTest';
+
+/**
+ * Ejecuta las pruebas en node, todas o las nombradas por su archivo:
+ *   esbuild src/tests/runTests.ts --bundle --platform=node --outfile=tests.js && node tests.js fluidTest gravityTest
+ * En node no hay workers ni texturas, los avisos de World al crearse son esperados.
+ */
+const tests: Record<string, TestCase> = {
+    biomeTest: testBiomes,
+    blockRegistryTest: testBlockRegistry,
+    caveTest: testCaves,
+    chunkCodecTest: testChunkCodec,
+    chunkKeyTest: testChunkKeys,
+    chunkQueueTest: testChunkQueue,
+    chunkStorageTest: testChunkStorage,
+    chunkVisibilityTest: testChunkVisibility,
+    decorationTest: testDecoration,
+    fluidTest: testFluids,
+    gravityTest: testGravity,
+    lightEngineTest: testLightEngine,
+    lodMeshTest: testLodMesh,
+    vertexFormatTest: testVertexFormat
+};
+
+const selected = process.argv.slice(2);
+const unknown = selected.filter(name => !(name in tests));
+if (unknown.length > 0) {
+    console.error(`Pruebas desconocidas: ${unknown.join(', ')}. Disponibles: ${Object.keys(tests).join(', ')}`);
+    process.exitCode = 1;
+} else {
+    const names = selected.length > 0 ? selected : Object.keys(tests);
+    runTests(names.map(name => tests[name])).then(failures => {
+        console.log(`=== ${names.length} pruebas, ${failures} fallos ===`);
+        process.exitCode = failures > 0 ? 1 : 0;
+    });
+}
@@ -1,6 +1,6 @@
 import * as THREE from 'three';
-import { BlockType } from '../blocks/BlockType';
-import { BlockTextures } from '../assets/textureAtlas';
+import { BlockRegistry } from '../blocks/BlockRegistry';
+import { TextureAtlas } from '../world/TextureAtlas';
 
 /**
  * Prueba para verificar que las texturas se carguen correctamente
@@ -9,15 +9,14 @@ export function testTextureLoading() {
     console.log('=== Iniciando prueba de texturas ===');
     
     // 1. Verificar que las texturas estén definidas para todos los tipos de bloques
-    const blockTypes = Object.values(BlockType).filter(v => typeof v === 'number') as BlockType[];
-    console.log(`Verificando ${blockTypes.length} tipos de bloques...`);
+    const blocks = BlockRegistry.all();
+    console.log(`Verificando ${blocks.length} tipos de bloques...`);
     
-    blockTypes.forEach(blockType => {
-        const textures = BlockTextures[blockType];
-        console.log(`\nBloque: ${BlockType[blockType]}`);
-        console.log('Top:', textures.top);
-        console.log('Side:', textures.side);
-        console.log('Bottom:', textures.bottom);
+    blocks.forEach(block => {
+        console.log(`\nBloque: ${block.name}`);
+        console.log('Top:', TextureAtlas.getTileBounds(block.id, 'top'));
+        console.log('Side:', TextureAtlas.getTileBounds(block.id, 'side'));
+        console.log('Bottom:', TextureAtlas.getTileBounds(block.id, 'bottom'));
     });
     
     // 2. Verificar que el archivo de textura se pueda cargar
@@ -0,0 +1,61 @@
+import { BlockType } from '../blocks/BlockType';
+import { Chunk } from '../world/Chunk';
+import { buildPaddedVolume, PADDED_VOLUME, paddedIndex } from '../meshing/ChunkVolume';
+import { buildDetailedMesh } from '../meshing/DetailedMesher';
+import { MeshScratch } from '../meshing/MeshScratch';
+import { DATA_SIZE, getFaceIndex, getTintIndex, POSITION_SCALE } from '../meshing/VertexFormat';
+import { TextureAtlas } from '../world/TextureAtlas';
+import { defineTest } from './TestRunner';
+
+/**
+ * Prueba del formato de vértice empaquetado de los chunks
+ */
+export const testVertexFormat = defineTest('del formato de vértice', check => {
+    // 1. Un vértice se empaqueta en 10 bytes y conserva sus datos
+    const scratch = MeshScratch.get();
+    scratch.reset();
+    scratch.addVertex(16, 8 / 9, 0.5, getFaceIndex(1, 1), 13, 0.5, getTintIndex(3, 'foliage'));
+    scratch.addTriangle(false, 0, 0, 0);
+    const single = scratch.finish()!;
+    check(single.positions.byteLength + single.data.byteLength === 10, 'Un vértice ocupa 10 bytes');
+    check(single.positions[0] === 16 * POSITION_SCALE && Math.abs(single.positions[1] / POSITION_SCALE - 8 / 9) < 1 / POSITION_SCALE,
+        'Las posiciones guardan fracciones de bloque (superficies de fluidos)');
+    check(single.data[0] === 3 && single.data[1] === 13 && single.data[2] === 128 && single.data[3] === 1 + 3 * 2 + 1,
+        'Cara, casilla, sombra y tinte se leen de vuelta');
+    check(getTintIndex(5, null) === 0, 'Las caras sin tinte usan el índice 0');
+
+    // 2. Índices de 16 bits mientras los vértices caben
+    const blocks = new Uint8Array(Chunk.SIZE * Chunk.SIZE * Chunk.HEIGHT);
+    blocks[0] = BlockType.GRASS;
+    const cube = buildDetailedMesh(buildPaddedVolume(blocks, () => BlockType.AIR), new Uint8Array(PADDED_VOLUME).fill(0xF0),
+        new Uint8Array(PADDED_VOLUME), new Uint8Array(Chunk.SIZE * Chunk.SIZE))!;
+    check(cube.indices instanceof Uint16Array && cube.indices.length === 36, 'Un bloque suelto usa índices de 16 bits');
+
+    // 3. La cara de arriba del bloque lleva la casilla de hierba y su tinte
+    let topFaces = 0;
+    for (let i = 0; i < cube.data.length; i += DATA_SIZE) {
+        if (cube.data[i] !== getFaceIndex(1, 1)) continue;
+        if (cube.data[i + 1] === TextureAtlas.getTileIndex(BlockType.GRASS, 'top') && cube.data[i + 3] === getTintIndex(0, 'grass')) topFaces++;
+    }
+    check(topFaces === 4, 'Los 4 vértices de arriba llevan la casilla y el tinte de la hierba');
+
+    // 4. Entre dos aguas de distinta altura solo se dibuja el escalón de la más alta
+    const water = new Uint8Array(Chunk.SIZE * Chunk.SIZE * Chunk.HEIGHT);
+    water[0] = BlockType.WATER;
+    water[1] = BlockType.WATER;
+    const waterMeta = new Uint8Array(PADDED_VOLUME);
+    waterMeta[paddedIndex(1, 0, 0)] = 3;
+    const pool = buildDetailedMesh(buildPaddedVolume(water, () => BlockType.AIR), new Uint8Array(PADDED_VOLUME).fill(0xF0),
+        waterMeta, new Uint8Array(Chunk.SIZE * Chunk.SIZE))!;
+    const stepHeights: number[] = [];
+    let innerFaces = 0;
+    for (let i = 0; i < pool.data.length / DATA_SIZE; i++) {
+        const x = pool.positions[i * 3] / POSITION_SCALE;
+        if (x !== 1) continue;
+        if (pool.data[i * DATA_SIZE] === getFaceIndex(0, 1)) stepHeights.push(pool.positions[i * 3 + 1] / POSITION_SCALE);
+        if (pool.data[i * DATA_SIZE] === getFaceIndex(0, -1)) innerFaces++;
+    }
+    const near = (a: number, b: number) => Math.abs(a - b) < 1 / POSITION_SCALE;
+    check(stepHeights.length === 4 && stepHeights.every(y => near(y, 5 / 9) || near(y, 8 / 9)) && innerFaces === 0,
+        `La cara entre las dos aguas va de 5/9 a 8/9 y solo la tiene la más alta (${stepHeights.length} vértices, ${innerFaces} en la baja)`);
+});
@@ -1,5 +1,6 @@
 import { Inventory } from '../player/Inventory';
-import { BlockType } from '../world/BlockType';
+import { BlockType } from '../blocks/BlockType';
+import { BlockRegistry } from '../blocks/BlockRegistry';
 
 /**
  * UI component for the Minecraft-style inventory hotbar
@@ -180,27 +181,11 @@ export class InventoryBar {
     }
 
     private getBlockDisplayName(blockType: BlockType): string {
-        switch (blockType) {
-            case BlockType.GRASS: return 'Grass';
-            case BlockType.DIRT: return 'Dirt';
-            case BlockType.STONE: return 'Stone';
-            case BlockType.SAND: return 'Sand';
-            case BlockType.WOOD: return 'Wood';
-            case BlockType.LEAVES: return 'Leaves';
-            default: return 'Unknown';
-        }
+        return BlockRegistry.has(blockType) ? BlockRegistry.get(blockType).label : 'Unknown';
     }
 
     private getBlockColor(blockType: BlockType): string {
-        switch (blockType) {
-            case BlockType.GRASS: return '#4CAF50'; // Green
-            case BlockType.DIRT: return '#8D6E63'; // Brown
-            case BlockType.STONE: return '#757575'; // Gray
-            case BlockType.SAND: return '#FFF176'; // Yellow
-            case BlockType.WOOD: return '#8D6E63'; // Brown
-            case BlockType.LEAVES: return '#4CAF50'; // Green
-            default: return '#FFFFFF'; // White
-        }
+        return BlockRegistry.get(blockType).color;
     }
 
     /**
@@ -0,0 +1,284 @@
+// chunk mesher worker (TypeScript for WebWorker): greedy and detailed meshing
+import { BlockRegistry } from '../blocks/BlockRegistry';
+import { TextureAtlas } from '../world/TextureAtlas';
+import { CHUNK_SIZE as SIZE, CHUNK_HEIGHT as HEIGHT, paddedIndex } from '../meshing/ChunkVolume';
+import { buildDetailedMesh } from '../meshing/DetailedMesher';
+import { MeshScratch, type ChunkMeshArrays } from '../meshing/MeshScratch';
+import { buildLodMesh } from '../meshing/LodMesher';
+import { getLodScale, type MeshMode } from '../meshing/MeshMode';
+import { lightToBrightness } from '../world/lighting/LightLevels';
+import { vertexAO, shouldFlipQuad, aoToBrightness } from '../meshing/AmbientOcclusion';
+import { getFluidHeight, getFlowLevel, isFalling } from '../world/fluids/FluidState';
+import { getFaceIndex, getTintIndex } from '../meshing/VertexFormat';
+import { computeChunkVisibility } from '../world/ChunkVisibility';
+
+class GreedyMesherWorker {
+  /**
+   * Packs the AO of a face's 4 vertices (2 bits each, in quad vertex order)
+   * @param fx Block in front of the face
+   * @param d Axis of the face normal
+   */
+  private static getFaceAO(blocks: Uint8Array, fx: number, fy: number, fz: number, d: number): number {
+    return vertexAO(blocks, fx, fy, fz, d, -1, -1)
+      | (vertexAO(blocks, fx, fy, fz, d, 1, -1) << 2)
+      | (vertexAO(blocks, fx, fy, fz, d, 1, 1) << 4)
+      | (vertexAO(blocks, fx, fy, fz, d, -1, 1) << 6);
+  }
+
+  /**
+   * Gets the code of a fluid block whose surface is lowered: 1 + its flow level, 0 if it's full height
+   * (or not a fluid). Part of the mask key so only surfaces at the same height merge.
+   */
+  private static getLoweredFluidCode(blocks: Uint8Array, meta: Uint8Array, x: number, y: number, z: number): number {
+    const index = paddedIndex(x, y, z);
+    const block = blocks[index];
+    if (!BlockRegistry.isFluid(block) || isFalling(meta[index]) || blocks[paddedIndex(x, y + 1, z)] === block) return 0;
+    return 1 + getFlowLevel(meta[index]);
+  }
+
+  /**
+   * Gets the biome a face is tinted with, as part of the mask key: the column's biome id
+   * if the face takes a biome colour, 0 otherwise
+   */
+  private static getFaceBiome(biomes: Uint8Array, blockType: number, face: 'top'|'bottom'|'side', x: number, z: number): number {
+    return BlockRegistry.getTint(blockType, face) ? biomes[x + z * SIZE] : 0;
+  }
+
+  /**
+   * Builds the greedy mesh of a chunk.
+   * @param blocks Padded volume (chunk blocks plus a one block border from the neighbours, see ChunkVolume)
+   * @param light Padded light volume with the same layout
+   * @param meta Padded block states with the same layout (fluid levels)
+   * @param biomes Biome id per block column of the chunk (not padded), tints grass and leaves
+   */
+  public static generateMeshData(
+    blocks: Uint8Array,
+    light: Uint8Array,
+    meta: Uint8Array,
+    biomes: Uint8Array,
+    _debug = false
+  ) : ChunkMeshArrays | null {
+    // Opaque and translucent triangles are collected separately and concatenated at the end
+    const scratch = MeshScratch.get();
+    scratch.reset();
+    const corners = [0, 0, 0,  0, 0, 0,  0, 0, 0,  0, 0, 0];
+
+    const sizes = [SIZE, HEIGHT, SIZE];
+
+    // Local coordinates may be -1 or SIZE/HEIGHT, those come from the neighbour border (see ChunkVolume)
+    // Greedy sweep (Mikolá Lysenko style)
+    for (let d = 0; d < 3; d++) {
+      const u = (d + 1) % 3;
+      const v = (d + 2) % 3;
+      const dimsD = sizes[d];
+      const dimsU = sizes[u];
+      const dimsV = sizes[v];
+
+      const x = [0,0,0];
+      const q = [0,0,0];
+      q[d] = 1;
+
+      // + faces (of the block before the plane) and - faces (of the block after it) are merged
+      // separately, both can be visible when two different see-through blocks touch.
+      // Mask values are blockType | light << 8 | ao << 16 | fluid << 24 | biome << 28 (light of the block
+      // the face looks into, AO of its 4 vertices, lowered fluid code, biome of tinted faces), so only faces
+      // with the same block, light, AO, surface height and tint are merged
+      const maskPos = new Int32Array(dimsU * dimsV);
+      const maskNeg = new Int32Array(dimsU * dimsV);
+      // Fluid sides facing a lower surface of the same fluid only cover the step between both surfaces,
+      // they keep the neighbour's lowered fluid code here (the mask has no bits left), 0 for full faces
+      const stepPos = new Uint8Array(dimsU * dimsV);
+      const stepNeg = new Uint8Array(dimsU * dimsV);
+
+      // iterate planes, including both chunk borders (plane -1|0 and SIZE-1|SIZE)
+      for (x[d] = -1; x[d] < dimsD; ) {
+        // faces of border blocks belong to the neighbouring chunk, we only use them for culling
+        const aInside = x[d] >= 0;
+        const bInside = x[d] < dimsD - 1;
+
+        // build mask
+        let n = 0;
+        for (x[v] = 0; x[v] < dimsV; x[v]++) {
+          for (x[u] = 0; x[u] < dimsU; x[u]++) {
+            const ia = paddedIndex(x[0], x[1], x[2]);
+            const ib = paddedIndex(x[0] + q[0], x[1] + q[1], x[2] + q[2]);
+            const a = blocks[ia];
+            const b = blocks[ib];
+            const sameFluid = d !== 1 && a === b && BlockRegistry.isFluid(a);
+            const fluidA = aInside || sameFluid ? this.getLoweredFluidCode(blocks, meta, x[0], x[1], x[2]) : 0;
+            const fluidB = bInside || sameFluid ? this.getLoweredFluidCode(blocks, meta, x[0] + q[0], x[1] + q[1], x[2] + q[2]) : 0;
+            // The lowered top of a fluid shows even under a solid block
+            const loweredTop = d === 1 && fluidA !== 0;
+            // Higher codes are lower surfaces, 0 is full height
+            stepPos[n] = sameFluid && fluidB !== 0 && (fluidA === 0 || fluidB > fluidA) ? fluidB : 0;
+            stepNeg[n] = sameFluid && fluidA !== 0 && (fluidB === 0 || fluidA > fluidB) ? fluidA : 0;
+            maskPos[n] = aInside && (loweredTop || BlockRegistry.isFaceVisible(a, b) || stepPos[n] !== 0)
+              ? a | (light[ib] << 8) | (this.getFaceAO(blocks, x[0] + q[0], x[1] + q[1], x[2] + q[2], d) << 16) | (fluidA << 24)
+                | (this.getFaceBiome(biomes, a, d === 1 ? 'top' : 'side', x[0], x[2]) << 28)
+              : 0;
+            maskNeg[n] = bInside && (BlockRegistry.isFaceVisible(b, a) || stepNeg[n] !== 0)
+              ? -(b | (light[ia] << 8) | (this.getFaceAO(blocks, x[0], x[1], x[2], d) << 16) | (fluidB << 24)
+                | (this.getFaceBiome(biomes, b, d === 1 ? 'bottom' : 'side', x[0] + q[0], x[2] + q[2]) << 28))
+              : 0;
+            n++;
+          }
+        }
+
+        x[d]++; // advance plane exactly once per iteration
+
+        // generate mesh from masks
+        for (const [mask, steps] of [[maskPos, stepPos], [maskNeg, stepNeg]] as const) {
+          n = 0;
+          for (let j = 0; j < dimsV; j++) {
+            for (let i = 0; i < dimsU; ) {
+              const m = mask[n];
+              if (m !== 0) {
+                const step = steps[n];
+                // Lowered fluid sides and steps only have one edge moved, so they can't span several blocks in Y
+                const singleY = ((Math.abs(m) >> 24 & 0xF) !== 0 || step !== 0) && d !== 1;
+
+                // compute width
+                let w = 1;
+                while (i + w < dimsU && mask[n + w] === m && steps[n + w] === step && !(singleY && u === 1)) w++;
+
+                // compute height
+                let h = 1;
+                outer: while (j + h < dimsV && !(singleY && v === 1)) {
+                  for (let k = 0; k < w; k++) {
+                    if (mask[n + k + h * dimsU] !== m || steps[n + k + h * dimsU] !== step) break outer;
+                  }
+                  h++;
+                }
+
+                // base coords
+                x[u] = i;
+                x[v] = j;
+
+                const du = [0,0,0]; du[u] = w;
+                const dv = [0,0,0]; dv[v] = h;
+
+                // 4 corners: base, base+du, base+du+dv, base+dv (no duplication)
+                for (let c = 0; c < 3; c++) {
+                  corners[c] = x[c];
+                  corners[3 + c] = x[c] + du[c];
+                  corners[6 + c] = x[c] + du[c] + dv[c];
+                  corners[9 + c] = x[c] + dv[c];
+                }
+
+                const packed = Math.abs(m);
+                const blockType = packed & 0xFF;
+
+                // Lower the top edge of fluid surfaces below full height (bottom faces stay where they are)
+                // and raise the bottom edge of steps to the lower surface
+                const fluidCode = packed >> 24 & 0xF;
+                const topY = Math.max(corners[1], corners[4], corners[7], corners[10]);
+                const bottomY = topY - 1;
+                if (fluidCode !== 0 && !(d === 1 && m < 0)) {
+                  const drop = 1 - getFluidHeight(fluidCode - 1, false);
+                  for (let t = 0; t < 4; t++) {
+                    if (corners[t * 3 + 1] === topY) corners[t * 3 + 1] -= drop;
+                  }
+                }
+                if (step !== 0) {
+                  const rise = getFluidHeight(step - 1, false);
+                  for (let t = 0; t < 4; t++) {
+                    if (corners[t * 3 + 1] === bottomY) corners[t * 3 + 1] += rise;
+                  }
+                }
+                const translucent = BlockRegistry.getRenderPass(blockType) === 'translucent';
+                const ao = [packed >> 16 & 3, packed >> 18 & 3, packed >> 20 & 3, packed >> 22 & 3];
+
+                // normal (q * sign)
+                const faceIndex = getFaceIndex(d, m);
+
+                // the chunk material repeats the tile once per block of the quad
+                const faceType: 'top'|'bottom'|'side' = (d === 1) ? (m > 0 ? 'top' : 'bottom') : 'side';
+                const brightness = lightToBrightness(packed >> 8 & 0xFF);
+                const tint = getTintIndex(packed >> 28 & 0x7, BlockRegistry.getTint(blockType, faceType));
+                const tile = TextureAtlas.getTileIndex(blockType, faceType);
+
+                const vertexIndex = scratch.vertexCount;
+                for (let t = 0; t < 4; t++) {
+                  scratch.addVertex(
+                    corners[t * 3], corners[t * 3 + 1], corners[t * 3 + 2],
+                    faceIndex, tile,
+                    brightness * aoToBrightness(ao[t]), tint
+                  );
+                }
+
+                // winding/indices depending on sign, split along the 1-3 diagonal when the AO asks for it
+                const v0 = vertexIndex, v1 = vertexIndex+1, v2 = vertexIndex+2, v3 = vertexIndex+3;
+                const flip = shouldFlipQuad(ao[0], ao[1], ao[2], ao[3]);
+                if (m > 0) {
+                  if (flip) { scratch.addTriangle(translucent, v1, v2, v3); scratch.addTriangle(translucent, v1, v3, v0); }
+                  else { scratch.addTriangle(translucent, v0, v1, v2); scratch.addTriangle(translucent, v0, v2, v3); }
+                } else {
+                  // invert winding for negative faces
+                  if (flip) { scratch.addTriangle(translucent, v1, v3, v2); scratch.addTriangle(translucent, v1, v0, v3); }
+                  else { scratch.addTriangle(translucent, v0, v2, v1); scratch.addTriangle(translucent, v0, v3, v2); }
+                }
+
+                // zero out mask
+                for (let l = 0; l < h; l++) {
+                  for (let k = 0; k < w; k++) {
+                    mask[n + k + l * dimsU] = 0;
+                    steps[n + k + l * dimsU] = 0;
+                  }
+                }
+
+                i += w;
+                n += w;
+              } else {
+                i++;
+                n++;
+              }
+            }
+          }
+        }
+      }
+    }
+
+    return scratch.finish();
+  }
+}
+
+// worker message handling (minimal logs)
+(self as any).onmessage = (e: MessageEvent<any>) => {
+  const { id, blocks: blocksBuffer, light: lightBuffer, meta: metaBuffer, biomes: biomesBuffer } = e.data;
+  const mode: MeshMode = e.data.mode;
+  const blocks = new Uint8Array(blocksBuffer);
+  const light = new Uint8Array(lightBuffer);
+  const meta = new Uint8Array(metaBuffer);
+  const biomes = new Uint8Array(biomesBuffer);
+
+  try {
+    const result = mode === 'detailed'
+      ? buildDetailedMesh(blocks, light, meta, biomes)
+      : mode === 'greedy'
+        ? GreedyMesherWorker.generateMeshData(blocks, light, meta, biomes)
+        : buildLodMesh(blocks, light, biomes, getLodScale(mode));
+    // Which chunk faces see each other, for occlusion culling (see ChunkVisibility)
+    const visibility = computeChunkVisibility(blocks);
+    if (!result) {
+      (self as any).postMessage({ id, empty: true, visibility });
+      return;
+    }
+
+    // send the typed arrays (their buffers are transferred, the index array keeps its 16 or 32 bit type)
+    const message = {
+      id,
+      positions: result.positions,
+      data: result.data,
+      indices: result.indices,
+      opaqueIndexCount: result.opaqueIndexCount,
+      visibility
+    };
+
+    const transfer: Transferable[] = [result.positions.buffer, result.data.buffer, result.indices.buffer];
+    (self as any).postMessage(message, transfer);
+  } catch (err) {
+    (self as any).postMessage({ id, error: err instanceof Error ? err.message : String(err) });
+  }
+};
+
+export {}; // TS worker module
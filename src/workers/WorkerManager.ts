@@ -1,321 +1,364 @@
-// WorkerManager handles communication with the GreedyMesher WebWorker
-import * as THREE from 'three';
+// WorkerManager handles communication with a pool of ChunkMesher WebWorkers
+import { chunkKey } from '../world/ChunkKey';
+import type { MeshMode } from '../meshing/MeshMode';
+import { ALL_FACES_CONNECTED } from '../world/ChunkVisibility';
 
 interface MeshData {
-    positions: Float32Array;
-    normals: Float32Array;
-    uvs: Float32Array;
-    indices: Uint32Array;
-    groups?: Array<{
-        key: string;
-        blockType: number;
-        face: 'top' | 'bottom' | 'side';
-        start: number;
-        count: number;
-    }>;
+    /** Packed chunk-local positions (see meshing/VertexFormat) */
+    positions: Uint16Array;
+    /** Packed face, tile, shade and tint of each vertex */
+    data: Uint8Array;
+    /** Opaque triangles first, then translucent ones */
+    indices: Uint16Array | Uint32Array;
+    /** Number of indices drawn in the opaque pass, the rest go to the translucent pass */
+    opaqueIndexCount: number;
 }
 
-type WorkerCallback = (meshData: MeshData | null, error?: string) => void;
+/**
+ * Outcome of a mesh job.
+ * 'stale' means a newer job for the same chunk replaced it, 'cancelled' that the chunk was unloaded.
+ * Only 'done' results should be applied to the chunk.
+ */
+type MeshJobResult =
+    | { status: 'done'; meshData: MeshData | null; visibility: number }
+    | { status: 'stale' | 'cancelled' };
+
+interface WorkerManagerOptions {
+    /** Number of workers, defaults to one per logical core minus the main thread */
+    poolSize?: number;
+    /** Time in ms after which a job is failed and its worker restarted */
+    jobTimeout?: number;
+}
+
+interface MeshJob {
+    id: number;
+    key: number; // chunkKey of the chunk
+    revision: number;
+    mode: MeshMode;
+    blocks: Uint8Array;
+    light: Uint8Array;
+    meta: Uint8Array;
+    biomes: Uint8Array;
+    chunkX: number;
+    chunkY: number;
+    chunkZ: number;
+    resolve: (result: MeshJobResult) => void;
+    reject: (error: Error) => void;
+    timer: ReturnType<typeof setTimeout> | null;
+}
+
+interface PooledWorker {
+    worker: Worker;
+    job: MeshJob | null;
+}
 
 class WorkerManager {
-    private worker: Worker | null = null;
-    private isWorkerInitialized = false;
-    private callbacks: Map<string, WorkerCallback> = new Map();
+    private workers: PooledWorker[] = [];
+    private queue: MeshJob[] = [];
+    private queuedByChunk: Map<number, MeshJob> = new Map();
+    private runningByChunk: Map<number, MeshJob> = new Map();
     private nextId = 0;
-    private static instance: WorkerManager;
-    
-    // Cache for material keys and their indices
-    private materialKeys: string[] = [];
-    private materialKeyToIndex = new Map<string, number>();
-
-    private constructor() {
-        this.initializeWorker();
+    private readonly poolSize: number;
+    private readonly jobTimeout: number;
+    private static instance: WorkerManager | null = null;
+
+    private constructor(options: WorkerManagerOptions) {
+        const cores = typeof navigator !== 'undefined' && navigator.hardwareConcurrency
+            ? navigator.hardwareConcurrency
+            : 2;
+        this.poolSize = Math.max(1, options.poolSize ?? cores - 1);
+        this.jobTimeout = options.jobTimeout ?? 10000;
+
+        for (let i = 0; i < this.poolSize; i++) {
+            const worker = this.createWorker(i);
+            if (!worker) break;
+            this.workers.push({ worker, job: null });
+        }
+        if (this.workers.length > 0) {
+            console.log(`[WorkerManager] ${this.workers.length} mesher workers initialized`);
+        }
     }
 
-    public static getInstance(): WorkerManager {
+    /**
+     * Gets the shared manager
+     * @param options Pool options, only used the first time the manager is created
+     */
+    public static getInstance(options: WorkerManagerOptions = {}): WorkerManager {
         if (!WorkerManager.instance) {
-            WorkerManager.instance = new WorkerManager();
+            WorkerManager.instance = new WorkerManager(options);
         }
         return WorkerManager.instance;
     }
 
-    private initializeWorker(): void {
+    private createWorker(index: number): Worker | null {
         try {
-            // In Vite, we can use the ?worker import syntax
-            // This tells Vite to handle the worker file correctly
-            this.worker = new Worker(new URL('./GreedyMesher.worker.ts', import.meta.url), {
+            // In Vite, new URL(..., import.meta.url) tells Vite to bundle the worker file
+            const worker = new Worker(new URL('./ChunkMesher.worker.ts', import.meta.url), {
                 type: 'module',
-                name: 'greedy-mesher-worker'
+                name: `chunk-mesher-worker-${index}`
             });
-            
-            this.isWorkerInitialized = true;
-            console.log('[WorkerManager] Worker initialized successfully with Vite');
-            
-            this.worker.onmessage = (e: MessageEvent<{
-                id: string;
-                error?: string;
-                empty?: boolean;
-                positions?: ArrayBuffer;
-                normals?: ArrayBuffer;
-                uvs?: ArrayBuffer;
-                indices?: ArrayBuffer;
-                groups?: Array<{
-                    key: string;
-                    blockType: number;
-                    face: 'top' | 'bottom' | 'side';
-                    start: number;
-                    count: number;
-                }>;
-            }>) => {
-                const { id, error, empty, ...meshData } = e.data;
-                const callback = this.callbacks.get(id);
-                
-                if (!callback) {
-                    console.warn(`No callback found for message id: ${id}`);
-                    return;
-                }
-                
-                if (error) {
-                    console.error('Worker error:', error);
-                    callback(null, error);
-                } else if (empty) {
-                    console.log('[WorkerManager] Worker returned empty mesh');
-                    callback(null);
-                } else if (meshData.positions && meshData.normals && meshData.uvs && meshData.indices) {
-                    // Convert ArrayBuffers back to typed arrays
-                    const positions = new Float32Array(meshData.positions);
-                    const normals = new Float32Array(meshData.normals);
-                    const uvs = new Float32Array(meshData.uvs);
-                    const indices = new Uint32Array(meshData.indices);
-
-                    // Include groups data if available
-                    const result: MeshData = {
-                        positions,
-                        normals,
-                        uvs,
-                        indices,
-                        groups: meshData.groups
-                    };
-                    
-                    callback(result);
-                } else {
-                    const errorMessage = !meshData ? 'No mesh data received' : 'Incomplete mesh data received from worker';
-                    console.error(errorMessage);
-                    callback(null, errorMessage);
-                }
-                
-                // Clean up the callback
-                this.callbacks.delete(id);
-            };
-
-            this.worker.onerror = (error: ErrorEvent | null) => {
+            worker.onmessage = (e) => this.handleMessage(worker, e);
+            worker.onerror = (error: ErrorEvent | null) => {
                 console.error('Worker error:', error);
-                this.isWorkerInitialized = false;
-                
-                // Reject all pending callbacks
-                const errorMessage = error?.message || 'Unknown worker error';
-                this.callbacks.forEach((callback) => {
-                    callback(null, errorMessage);
-                });
-                this.callbacks.clear();
-                
-                // Try to reinitialize the worker after a delay
-                setTimeout(() => {
-                    if (!this.isWorkerInitialized) {
-                        console.log('Attempting to reinitialize worker...');
-                        this.initializeWorker();
-                    }
-                }, 1000);
+                this.restartWorker(worker, error?.message || 'Unknown worker error');
             };
+            return worker;
         } catch (error) {
             console.error('Failed to initialize worker:', error);
+            return null;
+        }
+    }
+
+    private handleMessage(worker: Worker, e: MessageEvent<{
+        id: number;
+        error?: string;
+        empty?: boolean;
+        positions?: Uint16Array;
+        data?: Uint8Array;
+        indices?: Uint16Array | Uint32Array;
+        opaqueIndexCount?: number;
+        visibility?: number;
+    }>): void {
+        const slot = this.workers.find(w => w.worker === worker);
+        const job = slot?.job;
+        const { id, error, empty, visibility = ALL_FACES_CONNECTED, ...meshData } = e.data;
+
+        if (!slot || !job || job.id !== id) {
+            // Result of a job that already timed out
+            return;
+        }
+        this.finishJob(slot);
+
+        if (error) {
+            console.error('Worker error:', error);
+            job.reject(new Error(error));
+        } else if (empty) {
+            job.resolve({ status: 'done', meshData: null, visibility });
+        } else if (meshData.positions && meshData.data && meshData.indices && meshData.opaqueIndexCount !== undefined) {
+            // The typed arrays arrive over the transferred buffers
+            job.resolve({
+                status: 'done',
+                meshData: {
+                    positions: meshData.positions,
+                    data: meshData.data,
+                    indices: meshData.indices,
+                    opaqueIndexCount: meshData.opaqueIndexCount
+                },
+                visibility
+            });
+        } else {
+            job.reject(new Error('Incomplete mesh data received from worker'));
         }
+
+        this.dispatch();
     }
 
     /**
-     * Generate mesh data asynchronously using a WebWorker
-     * @param blocks The chunk's block data
-     * @param chunkX Chunk X coordinate
-     * @param chunkY Chunk Y coordinate
-     * @param chunkZ Chunk Z coordinate
-     * @returns A promise that resolves with the mesh data or null if no geometry was generated
+     * Frees a worker slot and forgets its job
+     */
+    private finishJob(slot: PooledWorker): void {
+        const job = slot.job;
+        if (!job) return;
+        if (job.timer !== null) clearTimeout(job.timer);
+        if (this.runningByChunk.get(job.key) === job) {
+            this.runningByChunk.delete(job.key);
+        }
+        slot.job = null;
+    }
+
+    /**
+     * Replaces a crashed or hung worker, failing the job it was running
+     */
+    private restartWorker(worker: Worker, reason: string): void {
+        const index = this.workers.findIndex(w => w.worker === worker);
+        if (index === -1) return;
+
+        const slot = this.workers[index];
+        const job = slot.job;
+        this.finishJob(slot);
+        worker.terminate();
+        job?.reject(new Error(reason));
+
+        const replacement = this.createWorker(index);
+        if (replacement) {
+            this.workers[index] = { worker: replacement, job: null };
+        } else {
+            this.workers.splice(index, 1);
+        }
+        this.dispatch();
+    }
+
+    /**
+     * Sends queued jobs to idle workers
      */
+    private dispatch(): void {
+        for (const slot of this.workers) {
+            if (slot.job) continue;
+            const job = this.queue.shift();
+            if (!job) return;
+            this.queuedByChunk.delete(job.key);
+
+            slot.job = job;
+            this.runningByChunk.set(job.key, job);
+            job.timer = setTimeout(() => {
+                console.warn(`[WorkerManager] Mesh job for chunk (${job.chunkX},${job.chunkY},${job.chunkZ}) timed out`);
+                this.restartWorker(slot.worker, `Mesh job timed out after ${this.jobTimeout}ms`);
+            }, this.jobTimeout);
+
+            try {
+                // Transfer the block, light, state and biome arrays to avoid copying
+                slot.worker.postMessage(
+                    {
+                        id: job.id,
+                        mode: job.mode,
+                        blocks: job.blocks.buffer,
+                        light: job.light.buffer,
+                        meta: job.meta.buffer,
+                        biomes: job.biomes.buffer,
+                        chunkX: job.chunkX,
+                        chunkY: job.chunkY,
+                        chunkZ: job.chunkZ
+                    },
+                    [job.blocks.buffer, job.light.buffer, job.meta.buffer, job.biomes.buffer] // Transfer ownership of the buffers
+                );
+            } catch (error) {
+                this.finishJob(slot);
+                job.reject(error instanceof Error ? error : new Error(String(error)));
+            }
+        }
+    }
+
     /**
-     * Generate mesh data asynchronously using a WebWorker
-     * @param blocks The chunk's block data
+     * Generate mesh data asynchronously in the worker pool.
+     * A chunk has at most one queued job: submitting a newer revision replaces the queued one,
+     * and the result of an older job still running is reported as stale.
+     * @param blocks The chunk's blocks padded with a one block border from its neighbours
+     *               (see meshing/ChunkVolume). The buffer is transferred to the worker.
+     * @param light The chunk's light values padded the same way, also transferred
+     * @param meta The chunk's block states padded the same way, also transferred
+     * @param biomes The chunk's biome id per column (not padded), also transferred
      * @param chunkX Chunk X coordinate
      * @param chunkY Chunk Y coordinate
      * @param chunkZ Chunk Z coordinate
-     * @param worldGetBlock Optional function to get block data from world (for chunk borders)
+     * @param revision The chunk's revision the blocks were taken from
+     * @param mode Meshing algorithm to use
+     * @returns A promise with the job result, rejected if the worker fails or times out
      */
     public generateMesh(
         blocks: Uint8Array,
+        light: Uint8Array,
+        meta: Uint8Array,
+        biomes: Uint8Array,
         chunkX: number,
         chunkY: number,
         chunkZ: number,
-        worldGetBlock?: (x: number, y: number, z: number) => number | undefined
-    ): Promise<MeshData | null> {
-        return new Promise((resolve) => {
-            if (!this.worker) {
-                console.warn('Worker not available, falling back to null');
-                resolve(null);
+        revision: number,
+        mode: MeshMode = 'greedy'
+    ): Promise<MeshJobResult> {
+        return new Promise((resolve, reject) => {
+            if (this.workers.length === 0) {
+                console.warn('Mesher workers not available, check isAvailable() before queueing jobs');
+                resolve({ status: 'done', meshData: null, visibility: ALL_FACES_CONNECTED });
                 return;
             }
 
-            const id = `task_${this.nextId++}`;
-            
-            this.callbacks.set(id, (meshData, error) => {
-                if (error) {
-                    resolve(null);
-                } else {
-                    resolve(meshData);
-                }
-            });
+            const key = chunkKey(chunkX, chunkY, chunkZ);
+            const job: MeshJob = {
+                id: this.nextId++,
+                key, revision, mode, blocks, light, meta, biomes,
+                chunkX, chunkY, chunkZ,
+                resolve, reject,
+                timer: null
+            };
 
-            try {
-                // Transfer the blocks array to avoid copying
-                this.worker.postMessage(
-                    {
-                        id,
-                        blocks: blocks.buffer,
-                        chunkX,
-                        chunkY,
-                        chunkZ,
-                        worldGetBlock: worldGetBlock ? true : undefined
-                    },
-                    [blocks.buffer] // Transfer ownership of the buffer
-                );
-                
-            } catch (error) {
-                resolve(null);
+            const queued = this.queuedByChunk.get(key);
+            if (queued) {
+                // Take the old job's place in the queue
+                this.queue[this.queue.indexOf(queued)] = job;
+                queued.resolve({ status: 'stale' });
+            } else {
+                this.queue.push(job);
             }
+            this.queuedByChunk.set(key, job);
+
+            const running = this.runningByChunk.get(key);
+            if (running && running.revision <= revision) {
+                this.supersede(running, 'stale');
+            }
+
+            this.dispatch();
         });
     }
 
     /**
-     * Terminate the worker and clean up
-     */
-    /**
-     * Get or create material index for a given block type and face
-     * @param blockType Block type number
-     * @param face Face type ('top', 'bottom', or 'side')
-     * @returns Material index
-     */
-    public getMaterialIndex(blockType: number, face: 'top' | 'bottom' | 'side'): number {
-        const key = `${blockType}:${face}`;
-        
-        // Return existing index if found
-        if (this.materialKeyToIndex.has(key)) {
-            return this.materialKeyToIndex.get(key)!;
-        }
-        
-        // Add new material key and return its index
-        const index = this.materialKeys.length;
-        this.materialKeys.push(key);
-        this.materialKeyToIndex.set(key, index);
-        return index;
-    }
-    
-    /**
-     * Get all material keys in order of their indices
+     * Resolves a running job early; the worker keeps going but its result is ignored
      */
-    public getMaterialKeys(): string[] {
-        return [...this.materialKeys];
+    private supersede(job: MeshJob, status: 'stale' | 'cancelled'): void {
+        const resolve = job.resolve;
+        job.resolve = () => {};
+        job.reject = () => {};
+        this.runningByChunk.delete(job.key);
+        resolve({ status });
     }
-    
+
     /**
-     * Clear all material keys and indices
+     * Cancels the jobs of a chunk, used when the chunk is unloaded
+     * @param chunkX Chunk X coordinate
+     * @param chunkY Chunk Y coordinate
+     * @param chunkZ Chunk Z coordinate
      */
-    public clearMaterialCache(): void {
-        this.materialKeys = [];
-        this.materialKeyToIndex.clear();
+    public cancelChunk(chunkX: number, chunkY: number, chunkZ: number): void {
+        const key = chunkKey(chunkX, chunkY, chunkZ);
+
+        const queued = this.queuedByChunk.get(key);
+        if (queued) {
+            this.queue.splice(this.queue.indexOf(queued), 1);
+            this.queuedByChunk.delete(key);
+            queued.resolve({ status: 'cancelled' });
+        }
+
+        const running = this.runningByChunk.get(key);
+        if (running) {
+            this.supersede(running, 'cancelled');
+        }
     }
-    
+
     /**
-     * Process mesh groups and return material indices for each group
-     * @param groups Array of mesh groups
-     * @returns Array of material indices for each group
+     * Checks whether meshing can run in workers. When it can't, callers mesh on the main thread.
      */
-    public processGroups(groups: Array<{blockType: number, face: 'top' | 'bottom' | 'side'}>): number[] {
-        return groups.map(group => 
-            this.getMaterialIndex(group.blockType, group.face)
-        );
+    public isAvailable(): boolean {
+        return this.workers.length > 0;
     }
-    
+
     /**
-     * Apply material groups to a THREE.js BufferGeometry
-     * @param geometry The geometry to add groups to
-     * @param groups Array of groups with start, count, and material key
+     * Gets the pool usage, for debugging
      */
-/**
-     * Apply material groups to a THREE.js BufferGeometry
-     * @param geometry The geometry to add groups to
-     * @param groups Array of groups with start, count, and material key
-     */
-    public applyMaterialGroups(geometry: THREE.BufferGeometry, groups: Array<{
-        key: string;
-        start: number;
-        count: number;
-    }>): void {
-        if (!groups || groups.length === 0) return;
-        
-        // Clear any existing groups
-        geometry.groups = [];
-        
-        // Add each group with the correct material index
-        for (const group of groups) {
-            const materialIndex = this.materialKeyToIndex.get(group.key);
-            if (materialIndex !== undefined) {
-                geometry.addGroup(group.start, group.count, materialIndex);
-            } else {
-                console.warn(`Material key not found: ${group.key}`);
-            }
-        }
+    public getStats(): { workers: number; busy: number; queued: number } {
+        return {
+            workers: this.workers.length,
+            busy: this.workers.filter(w => w.job !== null).length,
+            queued: this.queue.length
+        };
     }
-    
+
     /**
-     * Create a single THREE.Mesh with multiple materials from mesh data
-     * @param meshData The mesh data from the worker
-     * @param createMaterial Function that creates a material from a block type and face
-     * @returns A THREE.Mesh with the geometry and materials
+     * Terminates the workers and cancels every pending job
      */
-    public createMesh(
-        meshData: MeshData,
-        createMaterial: (blockType: number, face: 'top' | 'bottom' | 'side') => THREE.Material
-    ): THREE.Mesh {
-        // Create geometry
-        const geometry = new THREE.BufferGeometry();
-        
-        // Set attributes
-        geometry.setAttribute('position', new THREE.Float32BufferAttribute(meshData.positions, 3));
-        geometry.setAttribute('normal', new THREE.Float32BufferAttribute(meshData.normals, 3));
-        geometry.setAttribute('uv', new THREE.Float32BufferAttribute(meshData.uvs, 2));
-        geometry.setIndex(new THREE.BufferAttribute(meshData.indices, 1));
-        
-        // Apply material groups if available
-        if (meshData.groups && meshData.groups.length > 0) {
-            this.applyMaterialGroups(geometry, meshData.groups);
-        }
-        
-        // Create materials array in the correct order
-        const materialKeys = this.getMaterialKeys();
-        const materials = materialKeys.map(key => {
-            const [blockType, face] = key.split(':');
-            return createMaterial(parseInt(blockType, 10), face as 'top' | 'bottom' | 'side');
-        });
-        
-        // Create and return a single mesh with all materials
-        return new THREE.Mesh(geometry, materials);
-    }
-    
     public dispose(): void {
-        if (this.worker) {
-            this.worker.terminate();
-            this.worker = null;
+        for (const job of this.queue) {
+            job.resolve({ status: 'cancelled' });
+        }
+        for (const slot of this.workers) {
+            if (slot.job) this.supersede(slot.job, 'cancelled');
+            this.finishJob(slot);
+            slot.worker.terminate();
         }
-        this.callbacks.clear();
-        this.clearMaterialCache();
+        this.workers = [];
+        this.queue = [];
+        this.queuedByChunk.clear();
+        this.runningByChunk.clear();
+        WorkerManager.instance = null;
     }
 }
 
-export { WorkerManager, type MeshData };
+export { WorkerManager, type MeshData, type MeshMode, type MeshJobResult, type WorkerManagerOptions };
@@ -0,0 +1,25 @@
+import { BlockType } from '../blocks/BlockType';
+
+/**
+ * A rule run on scheduled block updates (see TickQueue).
+ *
+ * When a block changes, the world schedules an update for it and its six neighbours,
+ * each one delayed by the tick delay of the first handler that handles its block type.
+ */
+export interface BlockUpdateHandler {
+    /** Ticks between a change next to a block and its update */
+    readonly tickDelay: number;
+
+    /**
+     * Whether the handler reacts to updates of a block type
+     */
+    handles(blockType: BlockType): boolean;
+
+    /**
+     * Updates the block at a position. The block may have changed since the update was scheduled.
+     * @param x World X coordinate
+     * @param y World Y coordinate
+     * @param z World Z coordinate
+     */
+    update(x: number, y: number, z: number): void;
+}
@@ -1,8 +1,14 @@
 import * as THREE from 'three';
-import { BlockType } from './BlockType';
-import { TextureAtlas } from './TextureAtlas';
+import { BlockType } from '../blocks/BlockType';
 import { WorkerManager, type MeshData } from '../workers/WorkerManager';
 import { ResourcePool } from '../core/ResourcePool';
+import { encodeChunk, decodeChunk } from './ChunkCodec';
+import { buildPaddedVolume } from '../meshing/ChunkVolume';
+import { buildDetailedMesh } from '../meshing/DetailedMesher';
+import { buildLodMesh, DownsampledBlocks } from '../meshing/LodMesher';
+import { getLodScale, type MeshMode } from '../meshing/MeshMode';
+import { ALL_FACES_CONNECTED, computeChunkVisibility } from './ChunkVisibility';
+import { POSITION_SCALE, POSITION_SIZE, DATA_SIZE } from '../meshing/VertexFormat';
 
 /**
  * Minimal interface for world objects that can be used for block queries
@@ -18,11 +24,32 @@ export interface WorldLike {
     getBlock(x: number, y: number, z: number): BlockType | undefined;
     
     /**
-     * Gets the shared material for chunk meshes
-     * @param debug Optional flag to get the debug wireframe material
-     * @returns The shared material or null if not loaded yet
+     * Gets the shared materials for chunk meshes, one per render pass: [opaque, translucent]
+     * @param debug Optional flag to get the debug wireframe materials
+     * @returns The shared materials or null if not loaded yet
      */
-    getMaterial(debug?: boolean): THREE.Material | null;
+    getMaterial(debug?: boolean): THREE.Material[] | null;
+    
+    /**
+     * Gets the packed light value at the specified world coordinates (see lighting/LightLevels)
+     */
+    getLight(x: number, y: number, z: number): number;
+    
+    /**
+     * Gets the block state at the specified world coordinates, 0 where nothing is loaded
+     */
+    getBlockMeta(x: number, y: number, z: number): number;
+    
+    /**
+     * Called when new geometry (or none) was applied to a chunk's mesh, changing its bounds and visibility
+     * @param uploadBytes Size of the new vertex and index buffers, sent to the GPU on the next render
+     */
+    onChunkMeshUpdated?(chunk: Chunk, uploadBytes: number): void;
+
+    /**
+     * Gets the level of detail the chunks of a column are meshed at, every column counts as detailed if omitted
+     */
+    getColumnMeshMode?(chunkX: number, chunkZ: number): MeshMode;
 }
 
 /**
@@ -35,45 +62,33 @@ export class Chunk {
     // Using a flat array for better memory locality and performance
     // Indexed as [x + z * SIZE + y * SIZE * SIZE]
     private blocks: Uint8Array;
+    // Light per block, same layout as blocks (see lighting/LightLevels for the packing)
+    private light: Uint8Array;
+    // Block state per block (e.g. fluid levels, see fluids/FluidState), same layout as blocks
+    private meta: Uint8Array;
+    // Biome id per block column, indexed as [x + z * SIZE] (see biomes/BiomeType)
+    private biomes: Uint8Array;
     private mesh: THREE.Mesh | null;
-    private transitionMesh: THREE.Mesh | null = null; // For LOD transitions
+    public transitionMesh: THREE.Mesh | null = null; // Previous mesh, faded out during LOD transitions
     public isDirty: boolean;
+    public isModified: boolean = false; // True when edited since it was generated/loaded (needs saving)
+    private revision: number = 0; // Bumped on every change, mesh results built from older revisions are dropped
     private nonAirCount: number = 0; // Track number of non-air blocks for fast isEmpty()
+    private visibility: number = ALL_FACES_CONNECTED; // Faces connected through see-through blocks, from the last mesh
+    private bounds = new THREE.Box3(); // World-space bounds of the mesh geometry, empty while there is none
     private transitionProgress: number = 0; // 0-1 value for transition progress
     private transitionStartTime: number = 0;
     private transitionDuration: number = 300; // ms for transition
-    public currentLOD: 'detailed' | 'greedy' | 'transitioning' = 'detailed';
-    
-    // Pre-allocated typed arrays for mesh data
-    private positionArray: Float32Array;
-    private normalArray: Float32Array;
-    private uvArray: Float32Array;
-    private indexArray: Uint32Array;
-    private vertexCount: number = 0;
-    private indexCount: number = 0;
-    
-    // Reusable array for UV calculations
-    private uvTemp: number[][] = [[0, 0], [0, 0], [0, 0], [0, 0]];
+    public currentLOD: MeshMode | 'transitioning' = 'detailed';
     
     // Chunk position in chunk coordinates (not block coordinates)
     constructor(public readonly x: number, public readonly y: number, public readonly z: number) {
         this.blocks = new Uint8Array(Chunk.SIZE * Chunk.SIZE * Chunk.HEIGHT);
+        this.light = new Uint8Array(Chunk.SIZE * Chunk.SIZE * Chunk.HEIGHT);
+        this.meta = new Uint8Array(Chunk.SIZE * Chunk.SIZE * Chunk.HEIGHT);
+        this.biomes = new Uint8Array(Chunk.SIZE * Chunk.SIZE);
         this.mesh = null;
         this.isDirty = true;
-        
-        // Pre-allocate typed arrays with maximum possible size
-        // Maximum possible faces in a chunk: 16x16x16 blocks * 6 faces = 24,576 faces
-        // Each face has 4 vertices (24,576 * 4 = 98,304 vertices)
-        // Each vertex has 3 components (x,y,z) = 294,912 position/normal components
-        // Each vertex has 2 UV components = 196,608 UV components
-        // Each face has 6 indices = 147,456 indices
-        const maxVertices = Chunk.SIZE * Chunk.SIZE * Chunk.HEIGHT * 24; // 24 vertices per block (6 faces * 4 vertices)
-        const maxIndices = Chunk.SIZE * Chunk.SIZE * Chunk.HEIGHT * 36;  // 36 indices per block (6 faces * 6 indices)
-        
-        this.positionArray = new Float32Array(maxVertices * 3); // x,y,z for each vertex
-        this.normalArray = new Float32Array(maxVertices * 3);   // nx,ny,nz for each vertex
-        this.uvArray = new Float32Array(maxVertices * 2);       // u,v for each vertex
-        this.indexArray = new Uint32Array(maxIndices);
     }
     
     /**
@@ -111,15 +126,16 @@ export class Chunk {
     /**
      * Sets the block type at the specified local chunk coordinates.
      * If the coordinates are out of bounds, this method does nothing.
-     * Automatically marks the chunk as dirty if the block type changes.
+     * Automatically marks the chunk as dirty if the block type or metadata changes.
      *
      * @param x - X coordinate within the chunk (0 to Chunk.SIZE-1)
      * @param y - Y coordinate within the chunk (0 to Chunk.HEIGHT-1)
      * @param z - Z coordinate within the chunk (0 to Chunk.SIZE-1)
      * @param blockType - The type of block to set at the specified coordinates
+     * @param meta - Block state of the new block (0 by default)
      * @returns {void}
      */
-    public setBlock(x: number, y: number, z: number, blockType: BlockType): void {
+    public setBlock(x: number, y: number, z: number, blockType: BlockType, meta: number = 0): void {
         if (x < 0 || x >= Chunk.SIZE || y < 0 || y >= Chunk.HEIGHT || z < 0 || z >= Chunk.SIZE) {
             return; // Out of bounds
         }
@@ -128,7 +144,7 @@ export class Chunk {
         const oldBlockType = this.blocks[index];
         
         // Skip if no change
-        if (oldBlockType === blockType) return;
+        if (oldBlockType === blockType && this.meta[index] === meta) return;
         
         // Update non-air count
         if (oldBlockType === BlockType.AIR) {
@@ -138,7 +154,19 @@ export class Chunk {
         }
         
         this.blocks[index] = blockType;
-        this.isDirty = true;
+        this.meta[index] = meta;
+        this.markDirty();
+    }
+    
+    /**
+     * Gets the block state at the specified local chunk coordinates
+     * @returns The metadata byte, 0 if out of bounds
+     */
+    public getMeta(x: number, y: number, z: number): number {
+        if (x < 0 || x >= Chunk.SIZE || y < 0 || y >= Chunk.HEIGHT || z < 0 || z >= Chunk.SIZE) {
+            return 0;
+        }
+        return this.meta[this.getIndex(x, y, z)];
     }
     
     /**
@@ -205,10 +233,134 @@ export class Chunk {
         for (let y = minY; y <= maxY; y++) {
             for (let z = minZ; z <= maxZ; z++) {
                 for (let x = minX; x <= maxX; x++) {
-                    this.blocks[this.getIndex(x, y, z)] = blockType;
+                    const index = this.getIndex(x, y, z);
+                    this.blocks[index] = blockType;
+                    this.meta[index] = 0;
                 }
             }
         }
+        this.markDirty();
+    }
+    
+    /**
+     * Gets the packed light value at the specified local chunk coordinates
+     * @returns Sunlight in the high nibble and block light in the low nibble, 0 if out of bounds
+     */
+    public getLight(x: number, y: number, z: number): number {
+        if (x < 0 || x >= Chunk.SIZE || y < 0 || y >= Chunk.HEIGHT || z < 0 || z >= Chunk.SIZE) {
+            return 0;
+        }
+        return this.light[x + z * Chunk.SIZE + y * Chunk.SIZE * Chunk.SIZE];
+    }
+    
+    /**
+     * Sets the packed light value at the specified local chunk coordinates.
+     * Doesn't mark the chunk dirty, the light engine does that once it's done propagating.
+     */
+    public setLight(x: number, y: number, z: number, packed: number): void {
+        if (x < 0 || x >= Chunk.SIZE || y < 0 || y >= Chunk.HEIGHT || z < 0 || z >= Chunk.SIZE) {
+            return;
+        }
+        this.light[x + z * Chunk.SIZE + y * Chunk.SIZE * Chunk.SIZE] = packed;
+    }
+    
+    /**
+     * Gets the raw light data of the chunk (the chunk's own storage)
+     */
+    public getLightData(): Uint8Array {
+        return this.light;
+    }
+    
+    /**
+     * Gets the raw block data of the chunk.
+     * The returned array is the chunk's own storage, copy it before keeping a reference.
+     * @returns Flat block array indexed as [x + z * SIZE + y * SIZE * SIZE]
+     */
+    public getBlockData(): Uint8Array {
+        return this.blocks;
+    }
+    
+    /**
+     * Gets the raw block state data of the chunk (the chunk's own storage)
+     * @returns Flat metadata array with the same layout as getBlockData()
+     */
+    public getMetaData(): Uint8Array {
+        return this.meta;
+    }
+    
+    /**
+     * Gets the biome id of every block column (the chunk's own storage)
+     * @returns Flat array indexed as [x + z * SIZE]
+     */
+    public getBiomeData(): Uint8Array {
+        return this.biomes;
+    }
+    
+    /**
+     * Replaces the biome map of the chunk. Biomes follow from the world seed, they aren't saved.
+     * @param biomes Biome id per column, indexed as [x + z * SIZE]
+     * @throws {Error} If the map doesn't have exactly SIZE * SIZE entries
+     */
+    public setBiomeData(biomes: Uint8Array): void {
+        if (biomes.length !== this.biomes.length) {
+            throw new Error(`Invalid chunk biome map length ${biomes.length}, expected ${this.biomes.length}`);
+        }
+        this.biomes.set(biomes);
+        this.markDirty();
+    }
+    
+    /**
+     * Replaces all blocks of the chunk with the given data (e.g. loaded from storage)
+     * @param data Flat block array with the same layout as getBlockData()
+     * @param meta Block states with the same layout, all 0 if omitted
+     * @throws {Error} If the data doesn't have exactly SIZE * SIZE * HEIGHT entries
+     */
+    public setBlockData(data: Uint8Array, meta?: Uint8Array): void {
+        if (data.length !== this.blocks.length) {
+            throw new Error(`Invalid chunk data length ${data.length}, expected ${this.blocks.length}`);
+        }
+        if (meta && meta.length !== this.meta.length) {
+            throw new Error(`Invalid chunk metadata length ${meta.length}, expected ${this.meta.length}`);
+        }
+        
+        this.blocks.set(data);
+        if (meta) {
+            this.meta.set(meta);
+        } else {
+            this.meta.fill(0);
+        }
+        
+        let nonAir = 0;
+        for (let i = 0; i < this.blocks.length; i++) {
+            if (this.blocks[i] !== BlockType.AIR) nonAir++;
+        }
+        this.nonAirCount = nonAir;
+        this.markDirty();
+    }
+    
+    /**
+     * Serializes the chunk's coordinates, blocks and block states with the binary chunk codec
+     * @returns Compact, versioned and checksummed bytes (see ChunkCodec)
+     */
+    public encode(): Uint8Array {
+        return encodeChunk(this.x, this.y, this.z, this.blocks, Chunk.SIZE, Chunk.HEIGHT, this.meta);
+    }
+    
+    /**
+     * Creates a chunk from bytes produced by encode()
+     * @param data Encoded chunk
+     * @returns A new chunk at the encoded coordinates
+     * @throws {Error} If the data is invalid or was encoded with different chunk dimensions
+     */
+    public static decode(data: Uint8Array): Chunk {
+        const decoded = decodeChunk(data);
+        if (decoded.size !== Chunk.SIZE || decoded.height !== Chunk.HEIGHT) {
+            throw new Error(`Encoded chunk is ${decoded.size}x${decoded.height}x${decoded.size}, expected ${Chunk.SIZE}x${Chunk.HEIGHT}x${Chunk.SIZE}`);
+        }
+        
+        const chunk = new Chunk(decoded.x, decoded.y, decoded.z);
+        chunk.setBlockData(decoded.blocks, decoded.meta);
+        return chunk;
     }
     
     /**
@@ -219,11 +371,36 @@ export class Chunk {
         return this.nonAirCount === 0;
     }
     
+    /**
+     * Gets which faces of the chunk see each other, as of its last mesh (see ChunkVisibility).
+     * Until the chunk is meshed every face counts as connected.
+     */
+    public getVisibility(): number {
+        return this.visibility;
+    }
+    
+    /**
+     * Gets the world-space bounds of the chunk's mesh geometry, as tight as the geometry itself.
+     * Empty while the chunk has no geometry.
+     */
+    public getBounds(): THREE.Box3 {
+        return this.bounds;
+    }
+    
     /**
      * Marks the chunk as needing a mesh update
      */
     public markDirty(): void {
         this.isDirty = true;
+        this.revision++;
+    }
+    
+    /**
+     * Gets the chunk's revision, which increases every time the chunk (or a neighbour
+     * border it is meshed against) changes
+     */
+    public getRevision(): number {
+        return this.revision;
     }
     
     /**
@@ -242,7 +419,7 @@ export class Chunk {
     }
     
     // Starts a transition to a new LOD level
-    public startTransitionToLOD(mode: 'detailed' | 'greedy'): void {
+    public startTransitionToLOD(mode: MeshMode): void {
         if (this.currentLOD === mode) return;
         
         // If already in transition, complete the current transition first
@@ -278,11 +455,11 @@ export class Chunk {
                 if (Array.isArray(material)) {
                     material.forEach(m => {
                         if ('opacity' in m) m.opacity = opacity;
-                        m.transparent = opacity < 1;
+                        m.transparent = opacity < 1 || m.userData.translucent === true;
                     });
                 } else if ('opacity' in material) {
                     material.opacity = opacity;
-                    material.transparent = opacity < 1;
+                    material.transparent = opacity < 1 || material.userData.translucent === true;
                 }
             };
             
@@ -322,7 +499,7 @@ export class Chunk {
     /**
      * Gets the chunk's mesh, creating it if necessary
      */
-    public getMesh(mode: 'detailed' | 'greedy', world: import('./World').World): THREE.Mesh | null {
+    public getMesh(mode: MeshMode, world: import('./World').World): THREE.Mesh | null {
         // If we're already in a transition, continue with it
         if (this.currentLOD === 'transitioning' && this.mesh) {
             return this.mesh;
@@ -352,15 +529,9 @@ export class Chunk {
             if (mesh.geometry) {
                 const geometry = mesh.geometry as THREE.BufferGeometry;
 
-                // Release attributes to pool
-                const positionAttr = geometry.getAttribute('position') as THREE.BufferAttribute;
-                const normalAttr = geometry.getAttribute('normal') as THREE.BufferAttribute;
-                const uvAttr = geometry.getAttribute('uv') as THREE.BufferAttribute;
+                // Release the index to the pool. The packed vertex attributes (see meshing/VertexFormat)
+                // don't match the pool's float attributes, releaseGeometry drops them.
                 const indexAttr = geometry.getIndex() as THREE.BufferAttribute;
-
-                if (positionAttr) pool.releaseAttribute(positionAttr, 'position');
-                if (normalAttr) pool.releaseAttribute(normalAttr, 'normal');
-                if (uvAttr) pool.releaseAttribute(uvAttr, 'uv');
                 if (indexAttr) pool.releaseAttribute(indexAttr, 'index');
 
                 // Release geometry to pool instead of disposing
@@ -384,505 +555,127 @@ export class Chunk {
     }
     
     /**
-     * Updates the chunk's mesh based on its block data using simple face culling
+     * Copies the chunk's blocks into a padded volume whose border holds the
+     * neighbouring chunks' blocks (air where the neighbour isn't loaded).
+     * Neighbours meshed coarser than this chunk give the blocks of their voxels instead, what their
+     * mesh shows, so border faces aren't culled against blocks the coarse mesh merged away.
+     * @param world The world used to look up the border blocks
+     * @param mode The level of detail this chunk is meshed at
+     */
+    private buildPaddedBlocks(world: WorldLike, mode: MeshMode): Uint8Array {
+        const baseX = this.x * Chunk.SIZE;
+        const baseY = this.y * Chunk.HEIGHT;
+        const baseZ = this.z * Chunk.SIZE;
+        const scale = getLodScale(mode);
+        const getBlock = (x: number, y: number, z: number): number => world.getBlock(x, y, z) ?? BlockType.AIR;
+
+        // Voxel size of the 3x3 columns around this one (this one's own in the middle), 1 where it's not coarser
+        const columnScales = [1, 1, 1, 1, 1, 1, 1, 1, 1];
+        let coarser = false;
+        for (let dz = -1; dz <= 1; dz++) {
+            for (let dx = -1; dx <= 1; dx++) {
+                const neighbourMode = world.getColumnMeshMode?.(this.x + dx, this.z + dz);
+                const neighbourScale = neighbourMode ? getLodScale(neighbourMode) : scale;
+                if (neighbourScale > scale && (dx !== 0 || dz !== 0)) {
+                    columnScales[(dx + 1) + (dz + 1) * 3] = neighbourScale;
+                    coarser = true;
+                }
+            }
+        }
+        if (!coarser) {
+            return buildPaddedVolume(this.blocks, (x, y, z) => getBlock(baseX + x, baseY + y, baseZ + z));
+        }
+
+        const downsampled = new DownsampledBlocks(getBlock);
+        return buildPaddedVolume(this.blocks, (x, y, z) => {
+            const column = (x < 0 ? 0 : x < Chunk.SIZE ? 1 : 2) + (z < 0 ? 0 : z < Chunk.SIZE ? 3 : 6);
+            return downsampled.get(baseX + x, baseY + y, baseZ + z, columnScales[column]);
+        });
+    }
+    
+    /**
+     * Copies the chunk's light into a padded volume, the same way as buildPaddedBlocks
+     * @param world The world used to look up the border light
+     */
+    private buildPaddedLight(world: WorldLike): Uint8Array {
+        const baseX = this.x * Chunk.SIZE;
+        const baseY = this.y * Chunk.HEIGHT;
+        const baseZ = this.z * Chunk.SIZE;
+        return buildPaddedVolume(this.light, (x, y, z) =>
+            world.getLight(baseX + x, baseY + y, baseZ + z)
+        );
+    }
+    
+    /**
+     * Copies the chunk's block states into a padded volume, the same way as buildPaddedBlocks
+     * @param world The world used to look up the border states
+     */
+    private buildPaddedMeta(world: WorldLike): Uint8Array {
+        const baseX = this.x * Chunk.SIZE;
+        const baseY = this.y * Chunk.HEIGHT;
+        const baseZ = this.z * Chunk.SIZE;
+        return buildPaddedVolume(this.meta, (x, y, z) =>
+            world.getBlockMeta(baseX + x, baseY + y, baseZ + z)
+        );
+    }
+    
+    /**
+     * Updates the chunk's mesh based on its block data.
+     * Geometry is built in the mesher workers and applied when the result comes back;
+     * the chunk only meshes on the main thread when workers are unavailable.
      * @param mode The level of detail to use for mesh generation
      * @param world The world instance for querying neighboring blocks
      */
-    private updateMesh(mode: 'detailed' | 'greedy', world: WorldLike): void {
+    private updateMesh(mode: MeshMode, world: WorldLike): void {
         // Skip if chunk is empty
         if (this.isEmpty()) {
             if (this.mesh) {
                 // Keep the mesh but make it invisible if we want to reuse it later
                 this.mesh.visible = false;
             }
+            this.visibility = ALL_FACES_CONNECTED;
+            this.bounds.makeEmpty();
             this.isDirty = false;
+            world?.onChunkMeshUpdated?.(this, 0);
             return;
         }
 
-        // Ruta para generación de geometría 'greedy' usando Web Worker
-        if (mode === 'greedy') {
-            // Ensure world reference is passed for neighbor chunk queries
-            if (!world || typeof world.getBlock !== 'function') {
-                console.warn('World reference not available for greedy meshing');
-                if (this.mesh) this.mesh.visible = false;
-                this.isDirty = false;
-                return;
-            }
-            
-            // Get material from world (World will handle material management)
-            const material = world.getMaterial ? world.getMaterial() : null;
-            if (!material) {
-                console.warn('No material available for chunk mesh');
-                if (this.mesh) this.mesh.visible = false;
-                this.isDirty = false;
-                return;
-            }
-            const ownedMaterial = false; // World owns the material
-            
-            // Create a placeholder mesh if it doesn't exist
-            if (!this.mesh) {
-                this.mesh = new THREE.Mesh(
-                    new THREE.BufferGeometry(),
-                    material as THREE.Material
-                );
-                this.mesh.userData = { 
-                    mode: 'greedy',
-                    ownedMaterial: ownedMaterial
-                };
-                this.mesh.castShadow = true;
-                this.mesh.receiveShadow = true;
-                this.mesh.position.set(
-                    this.x * Chunk.SIZE,
-                    this.y * Chunk.HEIGHT,
-                    this.z * Chunk.SIZE
-                );
-            } else {
-                // Update material if needed
-                const currentOwned = this.mesh.userData.ownedMaterial || false;
-                if (currentOwned !== ownedMaterial || this.mesh.material !== material) {
-                    if (currentOwned && this.mesh.material) {
-                        if (Array.isArray(this.mesh.material)) {
-                            this.mesh.material.forEach(m => m.dispose());
-                        } else {
-                            (this.mesh.material as THREE.Material).dispose();
-                        }
-                    }
-                    if (material !== null) {
-                        this.mesh.material = material;
-                    } else {
-                        console.warn('Cannot set null material on mesh');
-                        this.mesh.visible = false;
-                    }
-                }
-                this.mesh.userData.ownedMaterial = ownedMaterial;
-                this.mesh.visible = true;
-            }
-            
-            // Get the blocks as a Uint8Array for the worker
-            const blocks = this.blocks.slice(); // Create a copy to avoid transfer issues
-            
-            // Store a reference to this chunk to ensure we're working with the latest state
-            const chunkX = this.x;
-            const chunkY = this.y;
-            const chunkZ = this.z;
-            
-            // Use the worker to generate the mesh asynchronously
-            const workerManager = WorkerManager.getInstance();
-            
-            // Create a function to handle mesh updates
-            const updateMeshWithData = (meshData: MeshData | null) => {
-                if (!meshData) {
-                    console.error(`[Chunk ${chunkX},${chunkY},${chunkZ}] Failed to generate mesh in worker - no data`);
-                    if (this.mesh) this.mesh.visible = false;
-                    return;
-                }
-                
-                if (!this.mesh) return;
-                
-                try {
-                    let geometry: THREE.BufferGeometry;
-                    
-                    // Reuse existing geometry if possible, otherwise create a new one
-                    if (this.mesh.geometry instanceof THREE.BufferGeometry) {
-                        geometry = this.mesh.geometry;
-                        // Clear any existing attributes to prevent memory leaks
-                        geometry.dispose();
-                    } else {
-                        geometry = new THREE.BufferGeometry();
-                    }
-                    
-                    // Set attributes with the transferred buffers
-                    const positionAttr = new THREE.BufferAttribute(meshData.positions, 3);
-                    const normalAttr = new THREE.BufferAttribute(meshData.normals, 3);
-                    const uvAttr = new THREE.BufferAttribute(meshData.uvs, 2);
-                    const indexAttr = new THREE.BufferAttribute(meshData.indices, 1);
-                    
-                    // Mark attributes as needing update
-                    positionAttr.needsUpdate = true;
-                    normalAttr.needsUpdate = true;
-                    uvAttr.needsUpdate = true;
-                    indexAttr.needsUpdate = true;
-                    
-                    // Set attributes on the geometry
-                    geometry.setAttribute('position', positionAttr);
-                    geometry.setAttribute('normal', normalAttr);
-                    geometry.setAttribute('uv', uvAttr);
-                    geometry.setIndex(indexAttr);
-                    
-                    // Only compute bounds if we have vertices
-                    if (meshData.positions.length > 0) {
-                        geometry.computeBoundingBox();
-                        geometry.computeBoundingSphere();
-                    }
-                    
-                    // Update the mesh
-                    this.mesh.geometry = geometry;
-                    this.mesh.visible = meshData.positions.length > 0;
-                    
-                } catch (error) {
-                    console.error(`[Chunk ${chunkX},${chunkY},${chunkZ}] Error updating mesh:`, error);
-                    if (this.mesh) this.mesh.visible = false;
-                } finally {
-                    // Only mark as not dirty after mesh generation is complete
-                    if (this.x === chunkX && this.y === chunkY && this.z === chunkZ) {
-                        this.isDirty = false;
-                    }
-                }
-            };
-            
-            // Generate mesh in worker
-            workerManager.generateMesh(blocks, this.x, this.y, this.z, 
-                (x: number, y: number, z: number) => {
-                    // World coordinate to chunk-relative coordinate conversion
-                    const chunkX = Math.floor(x / Chunk.SIZE);
-                    const chunkY = Math.floor(y / Chunk.HEIGHT);
-                    const chunkZ = Math.floor(z / Chunk.SIZE);
-                    
-                    // If the block is in this chunk, get it directly
-                    if (chunkX === this.x && chunkY === this.y && chunkZ === this.z) {
-                        return this.getBlock(
-                            x - (this.x * Chunk.SIZE),
-                            y - (this.y * Chunk.HEIGHT),
-                            z - (this.z * Chunk.SIZE)
-                        );
-                    }
-                    
-                    // Otherwise, get it from the world
-                    if (world && typeof world.getBlock === 'function') {
-                        return world.getBlock(x, y, z) || BlockType.AIR;
-                    }
-                    
-                    return BlockType.AIR;
-                }
-            )
-            .then(updateMeshWithData)
-            .catch((error) => {
-                console.error('Error generating mesh in worker:', error);
-                if (this.mesh) this.mesh.visible = false;
-                this.isDirty = true; // Mark as dirty to retry on next frame
-            });
-            
+        // Ensure world reference is passed for neighbor chunk queries
+        if (!world || typeof world.getBlock !== 'function') {
+            console.warn('World reference not available for meshing');
+            if (this.mesh) this.mesh.visible = false;
+            this.isDirty = false;
             return;
         }
         
-        // Reuse this array to reduce garbage collection (kept for backward compatibility)
-        // Note: This is now a class-level variable, but we keep this for any other code that might use it
-        
-        // Reset counters
-        this.vertexCount = 0;
-        this.indexCount = 0;
-        
-        // Use the class-level typed arrays directly
-        
-        // Function to add a face to the mesh using pre-allocated typed arrays
-        const addFace = (vertices: number[], normal: number[], blockType: BlockType, face: string) => {
-            const vertexIndex = this.vertexCount;
-            
-            // Add vertex positions and normals
-            for (let i = 0; i < 4; i++) {
-                const v = i * 3; // 0, 3, 6, 9
-                
-                // Add position
-                this.positionArray[this.vertexCount * 3] = vertices[v];
-                this.positionArray[this.vertexCount * 3 + 1] = vertices[v + 1];
-                this.positionArray[this.vertexCount * 3 + 2] = vertices[v + 2];
-                
-                // Add normal
-                this.normalArray[this.vertexCount * 3] = normal[0];
-                this.normalArray[this.vertexCount * 3 + 1] = normal[1];
-                this.normalArray[this.vertexCount * 3 + 2] = normal[2];
-                
-                this.vertexCount++;
-            }
-            
-            // Get UV coordinates using the centralized texture atlas
-            TextureAtlas.getUvCoordsReusable(blockType, face, this.uvTemp);
-            
-            // Add UVs
-            for (let i = 0; i < 4; i++) {
-                this.uvArray[vertexIndex * 2 + i * 2] = this.uvTemp[i][0];
-                this.uvArray[vertexIndex * 2 + i * 2 + 1] = this.uvTemp[i][1];
-            }
-            
-            // Add indices (two triangles: 0,1,2 and 0,2,3)
-            this.indexArray[this.indexCount++] = vertexIndex;
-            this.indexArray[this.indexCount++] = vertexIndex + 1;
-            this.indexArray[this.indexCount++] = vertexIndex + 2;
-            this.indexArray[this.indexCount++] = vertexIndex;
-            this.indexArray[this.indexCount++] = vertexIndex + 2;
-            this.indexArray[this.indexCount++] = vertexIndex + 3;
-        };
-        
-        // Verificar si un bloque está oculto (rodeado por bloques en todas las direcciones)
-        const isBlockHidden = (x: number, y: number, z: number): boolean => {
-            if (x === 0 || x === Chunk.SIZE - 1 ||
-                y === 0 || y === Chunk.HEIGHT - 1 ||
-                z === 0 || z === Chunk.SIZE - 1) {
-                return false;
-            }
-            return this.getBlock(x + 1, y, z) !== BlockType.AIR &&
-                   this.getBlock(x - 1, y, z) !== BlockType.AIR &&
-                   this.getBlock(x, y + 1, z) !== BlockType.AIR &&
-                   this.getBlock(x, y - 1, z) !== BlockType.AIR &&
-                   this.getBlock(x, y, z + 1) !== BlockType.AIR &&
-                   this.getBlock(x, y, z - 1) !== BlockType.AIR;
-        };
-        
-        // Generate geometry for each block
-        // Optimized loop order (y-z-x) for better memory locality
-        // This matches the memory layout of the block data array (x + z*SIZE + y*SIZE*SIZE)
-        for (let y = 0; y < Chunk.HEIGHT; y++) {
-            for (let z = 0; z < Chunk.SIZE; z++) {
-                for (let x = 0; x < Chunk.SIZE; x++) {
-                    const blockType = this.getBlock(x, y, z);
-                    if (blockType === BlockType.AIR) continue;
-                    if (isBlockHidden(x, y, z)) continue;
-
-                    const px = x, py = y, pz = z;
-
-                    // Check adjacent blocks and add faces as needed
-                    // Front face (z+1)
-                    const frontBlock = (z === Chunk.SIZE - 1) 
-                        ? world.getBlock(this.x * Chunk.SIZE + x, this.y * Chunk.HEIGHT + y, this.z * Chunk.SIZE + z + 1) 
-                        : this.getBlock(x, y, z + 1);
-                    if (frontBlock === BlockType.AIR) {
-                        addFace([px, py, pz + 1, px + 1, py, pz + 1, px + 1, py + 1, pz + 1, px, py + 1, pz + 1], 
-                               [0, 0, 1], blockType, 'front');
-                    }
-
-                    // Back face (z-1)
-                    const backBlock = (z === 0) 
-                        ? world.getBlock(this.x * Chunk.SIZE + x, this.y * Chunk.HEIGHT + y, this.z * Chunk.SIZE + z - 1) 
-                        : this.getBlock(x, y, z - 1);
-                    if (backBlock === BlockType.AIR) {
-                        addFace([px + 1, py, pz, px, py, pz, px, py + 1, pz, px + 1, py + 1, pz], 
-                              [0, 0, -1], blockType, 'back');
-                    }
-
-                    // Right face (x+1)
-                    const rightBlock = (x === Chunk.SIZE - 1) 
-                        ? world.getBlock(this.x * Chunk.SIZE + x + 1, this.y * Chunk.HEIGHT + y, this.z * Chunk.SIZE + z) 
-                        : this.getBlock(x + 1, y, z);
-                    if (rightBlock === BlockType.AIR) {
-                        addFace([px + 1, py, pz + 1, px + 1, py, pz, px + 1, py + 1, pz, px + 1, py + 1, pz + 1], 
-                              [1, 0, 0], blockType, 'right');
-                    }
-
-                    // Left face (x-1)
-                    const leftBlock = (x === 0) 
-                        ? world.getBlock(this.x * Chunk.SIZE + x - 1, this.y * Chunk.HEIGHT + y, this.z * Chunk.SIZE + z) 
-                        : this.getBlock(x - 1, y, z);
-                    if (leftBlock === BlockType.AIR) {
-                        addFace([px, py, pz, px, py, pz + 1, px, py + 1, pz + 1, px, py + 1, pz], 
-                              [-1, 0, 0], blockType, 'left');
-                    }
-
-                    // Top face (y+1)
-                    const topBlock = (y === Chunk.HEIGHT - 1) 
-                        ? world.getBlock(this.x * Chunk.SIZE + x, this.y * Chunk.HEIGHT + y + 1, this.z * Chunk.SIZE + z) 
-                        : this.getBlock(x, y + 1, z);
-                    if (topBlock === BlockType.AIR) {
-                        addFace([px, py + 1, pz, px, py + 1, pz + 1, px + 1, py + 1, pz + 1, px + 1, py + 1, pz], 
-                              [0, 1, 0], blockType, 'top');
-                    }
-
-                    // Bottom face (y-1)
-                    const bottomBlock = (y === 0) 
-                        ? world.getBlock(this.x * Chunk.SIZE + x, this.y * Chunk.HEIGHT + y - 1, this.z * Chunk.SIZE + z) 
-                        : this.getBlock(x, y - 1, z);
-                    if (bottomBlock === BlockType.AIR) {
-                        addFace([px, py, pz, px + 1, py, pz, px + 1, py, pz + 1, px, py, pz + 1], 
-                              [0, -1, 0], blockType, 'bottom');
-                    }
-                }
-            }
-        }
-        
-        // Create or update geometry for detailed mode
-        let geometry: THREE.BufferGeometry;
-        
-        if (this.mesh && this.mesh.userData.mode === 'detailed' && this.vertexCount > 0) {
-            // Reuse existing geometry
-            geometry = this.mesh.geometry as THREE.BufferGeometry;
-            
-            // Update existing attributes if they exist
-            if (this.vertexCount > 0) {
-                // Get or create attributes
-                let positionAttr = geometry.getAttribute('position') as THREE.BufferAttribute;
-                let normalAttr = geometry.getAttribute('normal') as THREE.BufferAttribute;
-                let uvAttr = geometry.getAttribute('uv') as THREE.BufferAttribute;
-                
-                // Create new buffer attributes with the exact size needed
-                const positionArray = new Float32Array(this.positionArray.buffer, 0, this.vertexCount * 3);
-                const normalArray = new Float32Array(this.normalArray.buffer, 0, this.vertexCount * 3);
-                const uvArray = new Float32Array(this.uvArray.buffer, 0, this.vertexCount * 2);
-
-                const pool = ResourcePool.getInstance();
-
-                // Update position attribute
-                if (positionAttr && positionAttr.count === this.vertexCount) {
-                    positionAttr.copyArray(positionArray);
-                    positionAttr.needsUpdate = true;
-                } else {
-                    // Release old attribute to pool if it exists
-                    if (positionAttr) {
-                        pool.releaseAttribute(positionAttr, 'position');
-                    }
-                    geometry.setAttribute('position', new THREE.BufferAttribute(positionArray, 3));
-                }
-
-                // Update normal attribute
-                if (normalAttr && normalAttr.count === this.vertexCount) {
-                    normalAttr.copyArray(normalArray);
-                    normalAttr.needsUpdate = true;
-                } else {
-                    // Release old attribute to pool if it exists
-                    if (normalAttr) {
-                        pool.releaseAttribute(normalAttr, 'normal');
-                    }
-                    geometry.setAttribute('normal', new THREE.BufferAttribute(normalArray, 3));
-                }
-
-                // Update UV attribute
-                if (uvAttr && uvAttr.count === this.vertexCount) {
-                    uvAttr.copyArray(uvArray);
-                    uvAttr.needsUpdate = true;
-                } else {
-                    // Release old attribute to pool if it exists
-                    if (uvAttr) {
-                        pool.releaseAttribute(uvAttr, 'uv');
-                    }
-                    geometry.setAttribute('uv', new THREE.BufferAttribute(uvArray, 2));
-                }
-                
-                // Handle index buffer with proper type (Uint16Array or Uint32Array)
-                const indexArray = this.indexCount > 0 ?
-                    new Uint32Array(this.indexArray.buffer, 0, this.indexCount) :
-                    new Uint32Array(0);
-
-                // Check if we need 32-bit indices (more than 65535 indices)
-                const needs32BitIndices = this.indexCount > 65535;
-
-                if (geometry.index && this.indexCount > 0) {
-                    // Check if we can reuse the existing index buffer
-                    const currentIs32Bit = geometry.index.array instanceof Uint32Array;
-                    const sizeMatches = geometry.index.count === this.indexCount;
-
-                    if (currentIs32Bit === needs32BitIndices && sizeMatches) {
-                        // Same type and size, just update the array
-                        geometry.index.copyArray(indexArray);
-                        geometry.index.needsUpdate = true;
-                    } else {
-                        // Size or type doesn't match, create new index buffer
-                        geometry.setIndex(null); // Remove existing index
-                        if (needs32BitIndices) {
-                            geometry.setIndex(new THREE.BufferAttribute(new Uint32Array(indexArray), 1, false));
-                        } else {
-                            // Convert to Uint16Array if possible
-                            if (this.indexCount > 65535) {
-                                console.warn('Chunk has too many indices for 16-bit indices, but trying to use them anyway');
-                            }
-                            geometry.setIndex(new THREE.BufferAttribute(new Uint16Array(indexArray), 1, false));
-                        }
-                    }
-                } else if (this.indexCount > 0) {
-                    // Create new index buffer with appropriate type
-                    if (needs32BitIndices) {
-                        geometry.setIndex(new THREE.BufferAttribute(new Uint32Array(indexArray), 1, false));
-                    } else {
-                        geometry.setIndex(new THREE.BufferAttribute(new Uint16Array(indexArray), 1, false));
-                    }
-                } else {
-                    // No indices, remove existing index buffer
-                    geometry.setIndex(null);
-                }
-                
-                geometry.computeBoundingSphere();
-                geometry.computeBoundingBox();
-            } else {
-                // No geometry to show, make mesh invisible
-                this.mesh.visible = false;
-                this.isDirty = false;
-                return;
-            }
-        } else if (this.vertexCount > 0) {
-            // Create new geometry if none exists or if switching from greedy mode
-            geometry = new THREE.BufferGeometry();
-            
-            // Create typed arrays with the exact size needed
-            const positionArray = new Float32Array(this.positionArray.buffer, 0, this.vertexCount * 3);
-            const normalArray = new Float32Array(this.normalArray.buffer, 0, this.vertexCount * 3);
-            const uvArray = new Float32Array(this.uvArray.buffer, 0, this.vertexCount * 2);
-            
-            // Create index array with appropriate type (Uint16Array or Uint32Array)
-            const needs32BitIndices = this.indexCount > 65535;
-            const indexArray = this.indexCount > 0 ? 
-                new Uint32Array(this.indexArray.buffer, 0, this.indexCount) : 
-                new Uint32Array(0);
-            
-            // Set geometry attributes
-            geometry.setAttribute('position', new THREE.BufferAttribute(positionArray, 3));
-            geometry.setAttribute('normal', new THREE.BufferAttribute(normalArray, 3));
-            geometry.setAttribute('uv', new THREE.BufferAttribute(uvArray, 2));
-            
-            // Set index with appropriate type
-            if (indexArray.length > 0) {
-                if (needs32BitIndices) {
-                    geometry.setIndex(new THREE.BufferAttribute(new Uint32Array(indexArray), 1, false));
-                } else {
-                    // Convert to Uint16Array if possible
-                    if (this.indexCount > 65535) {
-                        console.warn('Chunk has too many indices for 16-bit indices, but trying to use them anyway');
-                    }
-                    geometry.setIndex(new THREE.BufferAttribute(new Uint16Array(indexArray), 1, false));
-                }
-            }
-            
-            geometry.computeBoundingSphere();
-            geometry.computeBoundingBox();
-        } else {
-            // No geometry to show
+        // Get the opaque and translucent materials from world (World will handle material management)
+        const material = world.getMaterial ? world.getMaterial() : null;
+        if (!material) {
+            console.warn('No material available for chunk mesh');
             if (this.mesh) this.mesh.visible = false;
             this.isDirty = false;
             return;
         }
-
-        // Get or create material
-        let material: THREE.Material | null = null;
-        let ownedMaterial = false;
+        const ownedMaterial = false; // World owns the material
         
-        if (world.getMaterial) {
-            material = world.getMaterial();
-            if (!material) {
-                console.error('Failed to get material from world');
-                return;
-            }
-            ownedMaterial = false;
+        // Create a placeholder mesh if it doesn't exist, its geometry is filled in by applyMeshData
+        if (!this.mesh) {
+            this.mesh = new THREE.Mesh(
+                ResourcePool.getInstance().getGeometry(0),
+                material
+            );
+            this.mesh.userData = { 
+                mode: mode,
+                ownedMaterial: ownedMaterial
+            };
+            this.mesh.castShadow = true;
+            this.mesh.receiveShadow = true;
+            this.mesh.position.set(
+                this.x * Chunk.SIZE,
+                this.y * Chunk.HEIGHT,
+                this.z * Chunk.SIZE
+            );
         } else {
-            // Fallback material if world doesn't provide one
-            const textureLoader = new THREE.TextureLoader();
-            const texture = textureLoader.load('/assets/textures/atlas.png');
-            texture.magFilter = THREE.NearestFilter;
-            texture.minFilter = THREE.NearestMipmapLinearFilter;
-            
-            material = new THREE.MeshStandardMaterial({
-                map: texture,
-                side: THREE.DoubleSide,
-                transparent: true,
-                alphaTest: 0.5
-            });
-            ownedMaterial = true;
-        }
-
-        // Reuse or create mesh
-        if (this.mesh) {
-            // Dispose of old geometry if it's not being reused
-            if (this.mesh.userData.mode !== 'detailed') {
-                const oldGeometry = this.mesh.geometry as THREE.BufferGeometry;
-                if (oldGeometry) oldGeometry.dispose();
-                this.mesh.geometry = geometry;
-            }
-            
             // Update material if needed
             const currentOwned = this.mesh.userData.ownedMaterial || false;
             if (currentOwned !== ownedMaterial || this.mesh.material !== material) {
@@ -895,36 +688,121 @@ export class Chunk {
                 }
                 this.mesh.material = material;
             }
+            this.mesh.userData.mode = mode;
+            this.mesh.userData.ownedMaterial = ownedMaterial;
+            this.mesh.visible = true;
+        }
+        
+        // Package the blocks plus a one block border from the neighbours so the mesher
+        // can cull faces on chunk borders (a fresh array, safe to transfer)
+        const blocks = this.buildPaddedBlocks(world, mode);
+        const light = this.buildPaddedLight(world);
+        const meta = this.buildPaddedMeta(world);
+        const biomes = this.biomes.slice();
+        
+        const workerManager = WorkerManager.getInstance();
+        if (!workerManager.isAvailable()) {
+            // Synchronous fallback. The greedy mesher only exists in the worker,
+            // per-face geometry looks the same with more vertices.
+            const scale = getLodScale(mode);
+            this.visibility = computeChunkVisibility(blocks);
+            const uploadBytes = this.applyMeshData(scale > 1 ? buildLodMesh(blocks, light, biomes, scale) : buildDetailedMesh(blocks, light, meta, biomes));
+            world.onChunkMeshUpdated?.(this, uploadBytes);
+            return;
+        }
+        
+        // Results are only applied if the chunk didn't change while the worker was busy
+        const revision = this.revision;
+        workerManager.generateMesh(blocks, light, meta, biomes, this.x, this.y, this.z, revision, mode)
+        .then((result) => {
+            // Stale and cancelled jobs were replaced by a newer job or the chunk was unloaded
+            if (result.status !== 'done' || revision !== this.revision) return;
+            this.visibility = result.visibility;
+            const uploadBytes = this.applyMeshData(result.meshData);
+            world.onChunkMeshUpdated?.(this, uploadBytes);
+        })
+        .catch((error) => {
+            console.error('Error generating mesh in worker:', error);
+            if (this.mesh) this.mesh.visible = false;
+            this.isDirty = true; // Mark as dirty to retry on next frame
+        });
+    }
+    
+    /**
+     * Replaces the geometry of the chunk's mesh with freshly built mesh data.
+     * Its buffers are new attributes, so the renderer uploads them (and only them) on the next render.
+     * @param meshData Geometry in chunk-local coordinates, or null if nothing is visible
+     * @returns Size in bytes of the buffers to upload
+     */
+    private applyMeshData(meshData: MeshData | null): number {
+        if (!meshData) {
+            // No visible faces
+            if (this.mesh) this.mesh.visible = false;
+            this.bounds.makeEmpty();
+            this.isDirty = false;
+            return 0;
+        }
+        
+        if (!this.mesh) return 0;
+        
+        try {
+            let geometry: THREE.BufferGeometry;
             
-            // Update user data
-            this.mesh.userData = { 
-                mode: 'detailed',
-                ownedMaterial: ownedMaterial
-            };
+            // Reuse existing geometry if possible, otherwise create a new one
+            if (this.mesh.geometry instanceof THREE.BufferGeometry) {
+                geometry = this.mesh.geometry;
+                // Clear any existing attributes to prevent memory leaks
+                geometry.dispose();
+            } else {
+                geometry = new THREE.BufferGeometry();
+            }
             
-            this.mesh.visible = true;
-        } else {
-            // Create new mesh
-            this.mesh = new THREE.Mesh(geometry, material);
-            this.mesh.userData = { 
-                mode: 'detailed',
-                ownedMaterial: ownedMaterial
-            };
-            this.mesh.castShadow = true;
-            this.mesh.receiveShadow = true;
+            // Set the packed attributes (see meshing/VertexFormat) with the transferred buffers,
+            // the chunk materials decode them in their shader
+            const positionAttr = new THREE.BufferAttribute(meshData.positions, POSITION_SIZE);
+            const dataAttr = new THREE.BufferAttribute(meshData.data, DATA_SIZE);
+            const indexAttr = new THREE.BufferAttribute(meshData.indices, 1);
             
-            // Set position
-            this.mesh.position.set(
-                this.x * Chunk.SIZE,
-                this.y * Chunk.HEIGHT,
-                this.z * Chunk.SIZE
-            );
+            // Mark attributes as needing update
+            positionAttr.needsUpdate = true;
+            dataAttr.needsUpdate = true;
+            indexAttr.needsUpdate = true;
+            
+            // Set attributes on the geometry
+            geometry.setAttribute('position', positionAttr);
+            geometry.setAttribute('packedData', dataAttr);
+            geometry.setIndex(indexAttr);
+            
+            // Material 0 draws the opaque pass, material 1 the translucent pass
+            geometry.clearGroups();
+            geometry.addGroup(0, meshData.opaqueIndexCount, 0);
+            geometry.addGroup(meshData.opaqueIndexCount, meshData.indices.length - meshData.opaqueIndexCount, 1);
+            
+            // Only compute bounds if we have vertices
+            if (meshData.positions.length > 0) {
+                // Positions are in 1/POSITION_SCALE block units
+                geometry.computeBoundingBox();
+                const box = geometry.boundingBox!;
+                box.min.divideScalar(POSITION_SCALE);
+                box.max.divideScalar(POSITION_SCALE);
+                geometry.boundingSphere = box.getBoundingSphere(geometry.boundingSphere ?? new THREE.Sphere());
+                this.bounds.copy(box).translate(this.mesh.position);
+            } else {
+                this.bounds.makeEmpty();
+            }
+            
+            // Update the mesh
+            this.mesh.geometry = geometry;
+            this.mesh.visible = meshData.positions.length > 0;
+            
+            return meshData.positions.byteLength + meshData.data.byteLength + meshData.indices.byteLength;
+        } catch (error) {
+            console.error(`[Chunk ${this.x},${this.y},${this.z}] Error updating mesh:`, error);
+            if (this.mesh) this.mesh.visible = false;
+            return 0;
+        } finally {
+            // Only mark as not dirty after mesh generation is complete
+            this.isDirty = false;
         }
-        
-        // Log mesh regeneration for profiling
-        console.log(`[Mesh Generated] Chunk (${this.x},${this.y},${this.z}) ${mode}: ${this.vertexCount} verts, ${this.indexCount} indices`);
-
-        // Marcar como actualizado
-        this.isDirty = false;
     }
 }
@@ -0,0 +1,352 @@
+/**
+ * Versioned binary format for chunk block data.
+ *
+ * Layout (little-endian):
+ *   magic      4 bytes  "MGCK"
+ *   version    u8
+ *   flags      u8       bit 0: block states follow the runs (version 2+)
+ *   chunkX     i32
+ *   chunkY     i32
+ *   chunkZ     i32
+ *   size       u8       blocks per side on X/Z
+ *   height     u8       blocks on Y
+ *   palette    u16 count, then count * u8 block ids
+ *   runs       u32 count, then count * (u8 palette index, varint run length)
+ *   states     only with flag bit 0: u32 count, then count * (u8 block state, varint run length)
+ *   checksum   u32      CRC-32 of every byte before it
+ *
+ * Blocks are stored in the same order as Chunk's flat array ([x + z * SIZE + y * SIZE * SIZE]).
+ * Version 1 has no block states, they decode as all 0.
+ */
+
+export const CHUNK_CODEC_MAGIC = 0x4B43474D; // "MGCK" read as little-endian u32
+export const CHUNK_CODEC_VERSION = 2;
+
+const FLAG_HAS_META = 0x01;
+
+/**
+ * Result of decoding a chunk
+ */
+export interface DecodedChunk {
+    version: number;
+    x: number;
+    y: number;
+    z: number;
+    size: number;
+    height: number;
+    blocks: Uint8Array;
+    /** Block states, undefined if the chunk was saved without any */
+    meta?: Uint8Array;
+}
+
+// Lazily built CRC-32 lookup table
+let crcTable: Uint32Array | null = null;
+
+/**
+ * Computes the CRC-32 (IEEE) checksum of a byte range
+ */
+export function crc32(data: Uint8Array, start = 0, end = data.length): number {
+    if (!crcTable) {
+        crcTable = new Uint32Array(256);
+        for (let n = 0; n < 256; n++) {
+            let c = n;
+            for (let k = 0; k < 8; k++) {
+                c = (c & 1) ? (0xEDB88320 ^ (c >>> 1)) : (c >>> 1);
+            }
+            crcTable[n] = c >>> 0;
+        }
+    }
+
+    let crc = 0xFFFFFFFF;
+    for (let i = start; i < end; i++) {
+        crc = crcTable[(crc ^ data[i]) & 0xFF] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xFFFFFFFF) >>> 0;
+}
+
+/**
+ * Growable byte buffer used while encoding
+ */
+class ByteWriter {
+    private buffer = new Uint8Array(256);
+    private view = new DataView(this.buffer.buffer);
+    public length = 0;
+
+    private ensure(extra: number): void {
+        if (this.length + extra <= this.buffer.length) return;
+        let capacity = this.buffer.length * 2;
+        while (capacity < this.length + extra) capacity *= 2;
+        const next = new Uint8Array(capacity);
+        next.set(this.buffer.subarray(0, this.length));
+        this.buffer = next;
+        this.view = new DataView(next.buffer);
+    }
+
+    public u8(value: number): void {
+        this.ensure(1);
+        this.buffer[this.length++] = value;
+    }
+
+    public u16(value: number): void {
+        this.ensure(2);
+        this.view.setUint16(this.length, value, true);
+        this.length += 2;
+    }
+
+    public u32(value: number): void {
+        this.ensure(4);
+        this.view.setUint32(this.length, value >>> 0, true);
+        this.length += 4;
+    }
+
+    public i32(value: number): void {
+        this.ensure(4);
+        this.view.setInt32(this.length, value, true);
+        this.length += 4;
+    }
+
+    /** Unsigned LEB128 */
+    public varint(value: number): void {
+        do {
+            let byte = value & 0x7F;
+            value >>>= 7;
+            if (value !== 0) byte |= 0x80;
+            this.u8(byte);
+        } while (value !== 0);
+    }
+
+    public setU32At(offset: number, value: number): void {
+        this.view.setUint32(offset, value >>> 0, true);
+    }
+
+    public bytes(): Uint8Array {
+        return this.buffer.slice(0, this.length);
+    }
+}
+
+/**
+ * Sequential reader that throws on truncated input
+ */
+class ByteReader {
+    private view: DataView;
+    public offset = 0;
+
+    constructor(private readonly data: Uint8Array, private readonly end: number) {
+        this.view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    }
+
+    private need(count: number): void {
+        if (this.offset + count > this.end) {
+            throw new Error('Chunk data is truncated');
+        }
+    }
+
+    public u8(): number {
+        this.need(1);
+        return this.data[this.offset++];
+    }
+
+    public u16(): number {
+        this.need(2);
+        const value = this.view.getUint16(this.offset, true);
+        this.offset += 2;
+        return value;
+    }
+
+    public u32(): number {
+        this.need(4);
+        const value = this.view.getUint32(this.offset, true);
+        this.offset += 4;
+        return value;
+    }
+
+    public i32(): number {
+        this.need(4);
+        const value = this.view.getInt32(this.offset, true);
+        this.offset += 4;
+        return value;
+    }
+
+    public varint(): number {
+        let result = 0;
+        let shift = 0;
+        let byte: number;
+        do {
+            if (shift > 28) throw new Error('Invalid varint in chunk data');
+            byte = this.u8();
+            result |= (byte & 0x7F) << shift;
+            shift += 7;
+        } while (byte & 0x80);
+        return result >>> 0;
+    }
+}
+
+/**
+ * Writes the run-length encoding of an array
+ * @param toByte Converts a value to the byte stored for its run
+ * @returns Number of runs written
+ */
+function writeRuns(writer: ByteWriter, values: Uint8Array, toByte: (value: number) => number): number {
+    let runCount = 0;
+    let i = 0;
+    while (i < values.length) {
+        const value = values[i];
+        let run = 1;
+        while (i + run < values.length && values[i + run] === value) run++;
+        writer.u8(toByte(value));
+        writer.varint(run);
+        runCount++;
+        i += run;
+    }
+    return runCount;
+}
+
+/**
+ * Reads runs written by writeRuns into an array, checking they cover it exactly
+ * @param fromByte Converts a stored byte back to its value, throws for invalid bytes
+ */
+function readRuns(reader: ByteReader, out: Uint8Array, fromByte: (byte: number) => number): void {
+    const runCount = reader.u32();
+    let offset = 0;
+    for (let r = 0; r < runCount; r++) {
+        const value = fromByte(reader.u8());
+        const run = reader.varint();
+        if (offset + run > out.length) {
+            throw new Error('Chunk runs exceed the chunk volume');
+        }
+        out.fill(value, offset, offset + run);
+        offset += run;
+    }
+    if (offset !== out.length) {
+        throw new Error(`Chunk runs cover ${offset} blocks, expected ${out.length}`);
+    }
+}
+
+/**
+ * Encodes chunk block data into the binary chunk format
+ * @param x Chunk X coordinate
+ * @param y Chunk Y coordinate
+ * @param z Chunk Z coordinate
+ * @param blocks Flat block array
+ * @param size Blocks per side on X/Z
+ * @param height Blocks on Y
+ * @param meta Optional block states with the same layout, only written if any of them isn't 0
+ * @returns The encoded bytes
+ */
+export function encodeChunk(
+    x: number, y: number, z: number,
+    blocks: Uint8Array,
+    size: number, height: number,
+    meta?: Uint8Array
+): Uint8Array {
+    if (blocks.length !== size * size * height) {
+        throw new Error(`Block array length ${blocks.length} doesn't match chunk dimensions ${size}x${height}x${size}`);
+    }
+    if (meta && meta.length !== blocks.length) {
+        throw new Error(`Block state array length ${meta.length} doesn't match the block array length ${blocks.length}`);
+    }
+    const hasMeta = meta !== undefined && meta.some(value => value !== 0);
+
+    // Build the palette in order of first appearance
+    const paletteIndex = new Int16Array(256).fill(-1);
+    const palette: number[] = [];
+    for (let i = 0; i < blocks.length; i++) {
+        const block = blocks[i];
+        if (paletteIndex[block] === -1) {
+            paletteIndex[block] = palette.length;
+            palette.push(block);
+        }
+    }
+
+    const writer = new ByteWriter();
+    writer.u32(CHUNK_CODEC_MAGIC);
+    writer.u8(CHUNK_CODEC_VERSION);
+    writer.u8(hasMeta ? FLAG_HAS_META : 0);
+    writer.i32(x);
+    writer.i32(y);
+    writer.i32(z);
+    writer.u8(size);
+    writer.u8(height);
+
+    writer.u16(palette.length);
+    for (const block of palette) writer.u8(block);
+
+    // Run count is patched in once the runs are written
+    const runCountOffset = writer.length;
+    writer.u32(0);
+    writer.setU32At(runCountOffset, writeRuns(writer, blocks, block => paletteIndex[block]));
+
+    if (hasMeta) {
+        const metaCountOffset = writer.length;
+        writer.u32(0);
+        writer.setU32At(metaCountOffset, writeRuns(writer, meta!, value => value));
+    }
+
+    const body = writer.bytes();
+    writer.u32(crc32(body));
+    return writer.bytes();
+}
+
+/**
+ * Checks whether the given bytes start with the chunk format's magic number
+ */
+export function isEncodedChunk(data: Uint8Array): boolean {
+    return data.length >= 4 &&
+        new DataView(data.buffer, data.byteOffset, data.byteLength).getUint32(0, true) === CHUNK_CODEC_MAGIC;
+}
+
+/**
+ * Decodes bytes produced by encodeChunk
+ * @param data Encoded chunk
+ * @returns The chunk coordinates, dimensions and block data
+ * @throws {Error} If the data is corrupt, truncated or from a newer format version
+ */
+export function decodeChunk(data: Uint8Array): DecodedChunk {
+    if (!isEncodedChunk(data)) {
+        throw new Error('Not an encoded chunk (bad magic number)');
+    }
+    if (data.length < 8) {
+        throw new Error('Chunk data is truncated');
+    }
+
+    // Verify the checksum before trusting any field
+    const bodyEnd = data.length - 4;
+    const storedChecksum = new DataView(data.buffer, data.byteOffset, data.byteLength).getUint32(bodyEnd, true);
+    if (crc32(data, 0, bodyEnd) !== storedChecksum) {
+        throw new Error('Chunk data checksum mismatch');
+    }
+
+    const reader = new ByteReader(data, bodyEnd);
+    reader.u32(); // magic
+    const version = reader.u8();
+    if (version > CHUNK_CODEC_VERSION) {
+        throw new Error(`Unsupported chunk format version ${version} (newest supported is ${CHUNK_CODEC_VERSION})`);
+    }
+    const flags = reader.u8();
+
+    const x = reader.i32();
+    const y = reader.i32();
+    const z = reader.i32();
+    const size = reader.u8();
+    const height = reader.u8();
+
+    const paletteLength = reader.u16();
+    const palette = new Uint8Array(paletteLength);
+    for (let i = 0; i < paletteLength; i++) palette[i] = reader.u8();
+
+    const blocks = new Uint8Array(size * size * height);
+    readRuns(reader, blocks, index => {
+        if (index >= paletteLength) {
+            throw new Error(`Palette index ${index} out of range`);
+        }
+        return palette[index];
+    });
+
+    let meta: Uint8Array | undefined;
+    if (flags & FLAG_HAS_META) {
+        meta = new Uint8Array(blocks.length);
+        readRuns(reader, meta, value => value);
+    }
+
+    return { version, x, y, z, size, height, blocks, meta };
+}
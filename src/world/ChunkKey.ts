@@ -0,0 +1,59 @@
+/**
+ * Packed integer keys for chunk maps. Numbers hash and compare without allocating,
+ * unlike "x,y,z" strings, and hot paths can unpack the coordinates without parsing.
+ *
+ * A chunk key packs X and Z in 21 bits each and Y in 10 bits, 52 bits in total, so it stays
+ * a safe integer. That covers chunk X/Z from -1048576 to 1048575 and Y from -512 to 511,
+ * far beyond the world's vertical limits and the distance float precision allows to walk.
+ * Keys are built with arithmetic instead of bit operators, which only work on 32 bits.
+ *
+ * Block keys use the same packing on block coordinates: X/Z from -1048576 to 1048575 and
+ * Y from -512 to 511, which still holds the world's height range.
+ */
+
+const XZ_RANGE = 1 << 21;
+const XZ_OFFSET = XZ_RANGE / 2;
+const Y_RANGE = 1 << 10;
+const Y_OFFSET = Y_RANGE / 2;
+
+/**
+ * Gets the key of a chunk
+ */
+export function chunkKey(chunkX: number, chunkY: number, chunkZ: number): number {
+    return ((chunkX + XZ_OFFSET) * XZ_RANGE + (chunkZ + XZ_OFFSET)) * Y_RANGE + (chunkY + Y_OFFSET);
+}
+
+/**
+ * Gets the key of a column of chunks (every chunk Y at a chunk X/Z)
+ */
+export function columnKey(chunkX: number, chunkZ: number): number {
+    return (chunkX + XZ_OFFSET) * XZ_RANGE + (chunkZ + XZ_OFFSET);
+}
+
+/**
+ * Gets the key of a block position, for maps and sets of blocks (e.g. scheduled updates)
+ */
+export function blockKey(x: number, y: number, z: number): number {
+    return ((x + XZ_OFFSET) * XZ_RANGE + (z + XZ_OFFSET)) * Y_RANGE + (y + Y_OFFSET);
+}
+
+/**
+ * Gets the chunk X coordinate of a chunk key
+ */
+export function chunkKeyX(key: number): number {
+    return Math.floor(key / (Y_RANGE * XZ_RANGE)) - XZ_OFFSET;
+}
+
+/**
+ * Gets the chunk Y coordinate of a chunk key
+ */
+export function chunkKeyY(key: number): number {
+    return (key % Y_RANGE) - Y_OFFSET;
+}
+
+/**
+ * Gets the chunk Z coordinate of a chunk key
+ */
+export function chunkKeyZ(key: number): number {
+    return (Math.floor(key / Y_RANGE) % XZ_RANGE) - XZ_OFFSET;
+}
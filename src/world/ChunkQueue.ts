@@ -1,62 +1,129 @@
+import { chunkKey } from './ChunkKey';
+import type { MeshMode } from '../meshing/MeshMode';
+
 type ChunkTask = {
     chunkX: number;
     chunkY: number;
     chunkZ: number;
     priority: number; // Lower number = higher priority
-    mode: 'detailed' | 'greedy';
+    mode: MeshMode;
+    key: number; // chunkKey of the chunk
+};
+
+/**
+ * Queue usage, for the debug overlay
+ */
+export type ChunkQueueStats = {
+    size: number;           // Tasks waiting
+    peakSize: number;       // Most tasks waiting at once
+    lastFrameTasks: number; // Tasks processed in the last frame
+    lastFrameMs: number;    // Time spent on them
+    totalProcessed: number;
 };
 
+/**
+ * Chunks waiting to be generated and meshed, closest first.
+ * Tasks live in a binary min-heap on priority with an index of their heap slot per chunk,
+ * so adding, updating or removing the task of a chunk is O(log n).
+ * Each frame tasks are processed until the time budget runs out.
+ */
 export class ChunkQueue {
-    private queue: ChunkTask[] = [];
+    private heap: ChunkTask[] = [];
+    // Heap slot of each queued chunk, keyed by chunkKey
+    private indices: Map<number, number> = new Map();
     private processing = false;
-    private maxTasksPerFrame: number;
+    private timeBudgetMs: number;
     private world: any; // Reference to World class
     private frameId: number | null = null;
+    private stats: ChunkQueueStats = { size: 0, peakSize: 0, lastFrameTasks: 0, lastFrameMs: 0, totalProcessed: 0 };
 
-    constructor(world: any, maxTasksPerFrame = 2) {
+    /**
+     * @param world World the chunks are generated in and added to
+     * @param timeBudgetMs Time spent processing tasks per frame. At least one task runs each frame, however long it takes.
+     */
+    constructor(world: any, timeBudgetMs = 4) {
         this.world = world;
-        this.maxTasksPerFrame = maxTasksPerFrame;
+        this.timeBudgetMs = timeBudgetMs;
     }
 
+    /**
+     * Queues a chunk, or updates its task if it's already queued.
+     * A queued task takes the new priority if it's higher (lower number) and always takes the new mode.
+     */
     public addTask(
         chunkX: number,
         chunkY: number,
         chunkZ: number,
-        mode: 'detailed' | 'greedy',
+        mode: MeshMode,
         priority: number = 1
     ): void {
-        // Check if task already exists
-        const existingIndex = this.queue.findIndex(
-            t => t.chunkX === chunkX && t.chunkY === chunkY && t.chunkZ === chunkZ
-        );
-
-        const task = { chunkX, chunkY, chunkZ, priority, mode };
-
-        if (existingIndex >= 0) {
-            const existingTask = this.queue[existingIndex];
-            // Update existing task if new one has higher priority or if the mode has changed
-            if (existingTask.priority > priority || existingTask.mode !== mode) {
-                this.queue[existingIndex] = task;
-                this.sortQueue();
+        const key = chunkKey(chunkX, chunkY, chunkZ);
+        const existingIndex = this.indices.get(key);
+
+        if (existingIndex !== undefined) {
+            const existingTask = this.heap[existingIndex];
+            existingTask.mode = mode;
+            if (priority < existingTask.priority) {
+                existingTask.priority = priority;
+                this.siftUp(existingIndex);
             }
         } else {
-            this.queue.push(task);
-            this.sortQueue();
+            this.heap.push({ chunkX, chunkY, chunkZ, priority, mode, key });
+            this.indices.set(key, this.heap.length - 1);
+            this.siftUp(this.heap.length - 1);
+            this.stats.peakSize = Math.max(this.stats.peakSize, this.heap.length);
         }
 
         this.startProcessing();
     }
 
-    private sortQueue(): void {
-        // Sort by priority (ascending) and then by distance to player
-        this.queue.sort((a, b) => a.priority - b.priority);
+    /**
+     * Removes the task of a chunk
+     * @returns True if the chunk was queued
+     */
+    public removeTask(chunkX: number, chunkY: number, chunkZ: number): boolean {
+        const index = this.indices.get(chunkKey(chunkX, chunkY, chunkZ));
+        if (index === undefined) return false;
+        this.removeAt(index);
+        return true;
+    }
+
+    /**
+     * Checks whether a chunk is waiting in the queue
+     */
+    public hasTask(chunkX: number, chunkY: number, chunkZ: number): boolean {
+        return this.indices.has(chunkKey(chunkX, chunkY, chunkZ));
+    }
+
+    /**
+     * Recomputes the priority of every task, e.g. after the player moved to another chunk.
+     * Rebuilds the heap in O(n).
+     * @param getPriority New priority of a task, or null to drop it (the chunk is no longer needed)
+     */
+    public reprioritize(getPriority: (chunkX: number, chunkY: number, chunkZ: number) => number | null): void {
+        const tasks = this.heap;
+        this.heap = [];
+        this.indices.clear();
+
+        for (const task of tasks) {
+            const priority = getPriority(task.chunkX, task.chunkY, task.chunkZ);
+            if (priority === null) continue;
+            task.priority = priority;
+            this.indices.set(task.key, this.heap.length);
+            this.heap.push(task);
+        }
+
+        for (let i = (this.heap.length >> 1) - 1; i >= 0; i--) {
+            this.siftDown(i);
+        }
     }
 
     private startProcessing(): void {
-        if (this.processing || this.queue.length === 0) return;
-        
+        if (this.processing || this.heap.length === 0) return;
+
+        // Wait for the next frame, so every task queued this frame is in the heap before the first one is taken
         this.processing = true;
-        this.processQueue();
+        this.frameId = requestAnimationFrame(this.processQueue);
     }
 
     private stopProcessing(): void {
@@ -68,21 +135,26 @@ export class ChunkQueue {
     }
 
     private processQueue = (): void => {
-        if (!this.processing || this.queue.length === 0) {
+        this.frameId = null;
+        if (!this.processing || this.heap.length === 0) {
             this.stopProcessing();
             return;
         }
 
-        // Process up to maxTasksPerFrame chunks per frame
+        // Process chunks until the time budget for this frame is used up
+        const start = performance.now();
         let processed = 0;
-        while (processed < this.maxTasksPerFrame && this.queue.length > 0) {
-            const task = this.queue.shift()!;
-            this.processTask(task);
+        do {
+            this.processTask(this.pop());
             processed++;
-        }
+        } while (this.heap.length > 0 && performance.now() - start < this.timeBudgetMs);
+
+        this.stats.lastFrameTasks = processed;
+        this.stats.lastFrameMs = performance.now() - start;
+        this.stats.totalProcessed += processed;
 
         // Schedule next batch for next frame
-        if (this.queue.length > 0) {
+        if (this.heap.length > 0) {
             this.frameId = requestAnimationFrame(this.processQueue);
         } else {
             this.stopProcessing();
@@ -92,9 +164,9 @@ export class ChunkQueue {
     private processTask(task: ChunkTask): void {
         try {
             const { chunkX, chunkY, chunkZ, mode } = task;
-            const chunk = this.world.getChunk(chunkX, chunkY, chunkZ) || 
+            const chunk = this.world.getChunk(chunkX, chunkY, chunkZ) ||
                          this.world.generateChunk(chunkX, chunkY, chunkZ);
-            
+
             if (chunk) {
                 this.world.addChunkToScene(chunk, mode);
             }
@@ -103,12 +175,76 @@ export class ChunkQueue {
         }
     }
 
+    /**
+     * Takes the task with the highest priority
+     */
+    private pop(): ChunkTask {
+        const top = this.heap[0];
+        this.removeAt(0);
+        return top;
+    }
+
+    private removeAt(index: number): void {
+        const removed = this.heap[index];
+        this.indices.delete(removed.key);
+
+        // Fill the hole with the last task and move it to where it belongs
+        const last = this.heap.pop()!;
+        if (index < this.heap.length) {
+            this.heap[index] = last;
+            this.indices.set(last.key, index);
+            if (index > 0 && last.priority < this.heap[(index - 1) >> 1].priority) {
+                this.siftUp(index);
+            } else {
+                this.siftDown(index);
+            }
+        }
+    }
+
+    private siftUp(index: number): void {
+        const task = this.heap[index];
+        while (index > 0) {
+            const parent = (index - 1) >> 1;
+            if (this.heap[parent].priority <= task.priority) break;
+            this.place(this.heap[parent], index);
+            index = parent;
+        }
+        this.place(task, index);
+    }
+
+    private siftDown(index: number): void {
+        const task = this.heap[index];
+        const length = this.heap.length;
+        while (true) {
+            let child = index * 2 + 1;
+            if (child >= length) break;
+            if (child + 1 < length && this.heap[child + 1].priority < this.heap[child].priority) child++;
+            if (this.heap[child].priority >= task.priority) break;
+            this.place(this.heap[child], index);
+            index = child;
+        }
+        this.place(task, index);
+    }
+
+    private place(task: ChunkTask, index: number): void {
+        this.heap[index] = task;
+        this.indices.set(task.key, index);
+    }
+
     public clear(): void {
-        this.queue = [];
+        this.heap = [];
+        this.indices.clear();
         this.stopProcessing();
     }
 
     public getQueueSize(): number {
-        return this.queue.length;
+        return this.heap.length;
+    }
+
+    /**
+     * Gets the queue usage, for debugging
+     */
+    public getStats(): ChunkQueueStats {
+        return { ...this.stats, size: this.heap.length };
     }
 }
@@ -0,0 +1,217 @@
+import { BlockRegistry } from '../blocks/BlockRegistry';
+import { CHUNK_SIZE, CHUNK_HEIGHT, paddedIndex } from '../meshing/ChunkVolume';
+import { chunkKey } from './ChunkKey';
+
+/**
+ * Occlusion culling between chunks ("cave culling").
+ *
+ * When a chunk is meshed, a flood fill through its see-through blocks finds which of its 6 faces
+ * are connected: a line of sight can enter the chunk through one face and leave through the other.
+ * Every frame a breadth-first search from the camera's chunk walks from chunk to chunk through
+ * connected faces only. Chunks it never reaches (caves under the ground, valleys sealed behind a
+ * hill) can't be seen from the camera and aren't drawn.
+ *
+ * The connectivity of a chunk is a bit set with one bit per pair of faces (15 bits).
+ */
+
+/**
+ * Direction of each chunk face: -X, +X, -Y, +Y, -Z, +Z. The opposite face of `face` is `face ^ 1`.
+ */
+export const FACE_DIRECTIONS: ReadonlyArray<readonly [number, number, number]> = [
+    [-1, 0, 0], [1, 0, 0],
+    [0, -1, 0], [0, 1, 0],
+    [0, 0, -1], [0, 0, 1]
+];
+
+// Bit of each pair of faces, indexed [a * 6 + b] (symmetric, 0 for a face with itself)
+const PAIR_BITS = new Uint16Array(36);
+let pairCount = 0;
+for (let a = 0; a < 6; a++) {
+    for (let b = a + 1; b < 6; b++) {
+        PAIR_BITS[a * 6 + b] = PAIR_BITS[b * 6 + a] = 1 << pairCount++;
+    }
+}
+
+/**
+ * Connectivity of a chunk where every face sees every other one. Used for chunks full of
+ * see-through blocks and for chunks whose connectivity isn't known yet.
+ */
+export const ALL_FACES_CONNECTED = (1 << pairCount) - 1;
+
+/**
+ * Checks whether a line of sight entering a chunk through a face can leave it through another one
+ * @param visibility Connectivity of the chunk (see computeChunkVisibility)
+ */
+export function canSeeThrough(visibility: number, from: number, to: number): boolean {
+    return (visibility & PAIR_BITS[from * 6 + to]) !== 0;
+}
+
+// Flood fill buffers, reused by every chunk computed on the thread
+const visited = new Uint8Array(CHUNK_SIZE * CHUNK_SIZE * CHUNK_HEIGHT);
+const stack = new Int32Array(CHUNK_SIZE * CHUNK_SIZE * CHUNK_HEIGHT);
+
+/**
+ * Computes which faces of a chunk are connected through its see-through blocks
+ * @param blocks Padded volume of the chunk (see ChunkVolume), only the chunk's own blocks are read
+ * @returns The connectivity bit set, for canSeeThrough
+ */
+export function computeChunkVisibility(blocks: Uint8Array): number {
+    const layer = CHUNK_SIZE * CHUNK_SIZE;
+
+    // Opaque blocks are marked as visited up front so the flood fill never enters them
+    let opaqueCount = 0;
+    for (let y = 0; y < CHUNK_HEIGHT; y++) {
+        for (let z = 0; z < CHUNK_SIZE; z++) {
+            for (let x = 0; x < CHUNK_SIZE; x++) {
+                const opaque = !BlockRegistry.isTransparent(blocks[paddedIndex(x, y, z)]);
+                visited[x + z * CHUNK_SIZE + y * layer] = opaque ? 1 : 0;
+                if (opaque) opaqueCount++;
+            }
+        }
+    }
+    if (opaqueCount === 0) return ALL_FACES_CONNECTED;
+
+    let visibility = 0;
+    for (let start = 0; start < visited.length; start++) {
+        if (visited[start]) continue;
+
+        // Faces touched by this pocket of see-through blocks, one bit per face
+        let faces = 0;
+        let top = 0;
+        stack[top++] = start;
+        visited[start] = 1;
+        while (top > 0) {
+            const index = stack[--top];
+            const x = index % CHUNK_SIZE;
+            const z = Math.floor(index / CHUNK_SIZE) % CHUNK_SIZE;
+            const y = Math.floor(index / layer);
+
+            if (x === 0) faces |= 1 << 0; else if (!visited[index - 1]) { visited[index - 1] = 1; stack[top++] = index - 1; }
+            if (x === CHUNK_SIZE - 1) faces |= 1 << 1; else if (!visited[index + 1]) { visited[index + 1] = 1; stack[top++] = index + 1; }
+            if (y === 0) faces |= 1 << 2; else if (!visited[index - layer]) { visited[index - layer] = 1; stack[top++] = index - layer; }
+            if (y === CHUNK_HEIGHT - 1) faces |= 1 << 3; else if (!visited[index + layer]) { visited[index + layer] = 1; stack[top++] = index + layer; }
+            if (z === 0) faces |= 1 << 4; else if (!visited[index - CHUNK_SIZE]) { visited[index - CHUNK_SIZE] = 1; stack[top++] = index - CHUNK_SIZE; }
+            if (z === CHUNK_SIZE - 1) faces |= 1 << 5; else if (!visited[index + CHUNK_SIZE]) { visited[index + CHUNK_SIZE] = 1; stack[top++] = index + CHUNK_SIZE; }
+        }
+
+        for (let a = 0; a < 6; a++) {
+            if (!(faces & (1 << a))) continue;
+            for (let b = a + 1; b < 6; b++) {
+                if (faces & (1 << b)) visibility |= PAIR_BITS[a * 6 + b];
+            }
+        }
+        if (visibility === ALL_FACES_CONNECTED) break;
+    }
+    return visibility;
+}
+
+// Fields of a search step in the queue: chunk x, y, z, its connectivity, the face the search entered it
+// through (-1 for the chunk it starts from) and the directions walked to reach it (one bit per face)
+const STEP_SIZE = 6;
+
+/**
+ * Finds the chunks that may be visible from the camera, walking from the camera's chunk through
+ * the faces each chunk connects. The walk never turns back along an axis, so a line of sight
+ * can't bend around a wall and come back on its other side.
+ *
+ * Runs again whenever the camera moves, so its buffers are kept between searches: chunks are
+ * marked with the number of the search that reached them instead of clearing a set every time.
+ */
+export class ChunkVisibilitySearch {
+    // Search number << 1 | visible, per chunkKey reached by one of the recent searches
+    private readonly marks: Map<number, number> = new Map();
+    private generation = 0;
+    private queue = new Int32Array(STEP_SIZE * 1024);
+
+    /**
+     * Searches the chunks visible from a camera position, replacing the previous result
+     * @param startX Chunk X of the camera
+     * @param startY Chunk Y of the camera
+     * @param startZ Chunk Z of the camera
+     * @param getVisibility Gets the connectivity of a chunk, ALL_FACES_CONNECTED if it isn't loaded
+     *                      or meshed yet, or null if it's outside the range to search
+     * @param isInView Checks whether a chunk is inside the camera's frustum
+     * @returns The number of chunks reached
+     */
+    public search(
+        startX: number, startY: number, startZ: number,
+        getVisibility: (chunkX: number, chunkY: number, chunkZ: number) => number | null,
+        isInView: (chunkX: number, chunkY: number, chunkZ: number) => boolean
+    ): number {
+        const seen = ++this.generation << 1;
+        const visible = seen | 1;
+        let touched = 0;
+        let visibleCount = 0;
+        let length = 0;
+
+        const startVisibility = getVisibility(startX, startY, startZ);
+        touched++;
+        this.marks.set(chunkKey(startX, startY, startZ), startVisibility !== null ? visible : seen);
+        if (startVisibility !== null) {
+            visibleCount++;
+            length = this.push(length, startX, startY, startZ, startVisibility, -1, 0);
+        }
+
+        for (let head = 0; head < length; head += STEP_SIZE) {
+            const queue = this.queue;
+            const stepX = queue[head], stepY = queue[head + 1], stepZ = queue[head + 2];
+            const stepVisibility = queue[head + 3], entryFace = queue[head + 4], directions = queue[head + 5];
+            for (let face = 0; face < 6; face++) {
+                // Going back the way the search came from
+                if (directions & (1 << (face ^ 1))) continue;
+                if (entryFace >= 0 && !canSeeThrough(stepVisibility, entryFace, face)) continue;
+
+                const [dx, dy, dz] = FACE_DIRECTIONS[face];
+                const x = stepX + dx, y = stepY + dy, z = stepZ + dz;
+                const key = chunkKey(x, y, z);
+                if ((this.marks.get(key) ?? 0) >> 1 === this.generation) continue;
+                touched++;
+
+                const visibility = getVisibility(x, y, z);
+                if (visibility === null || !isInView(x, y, z)) {
+                    this.marks.set(key, seen);
+                    continue;
+                }
+                this.marks.set(key, visible);
+                visibleCount++;
+                length = this.push(length, x, y, z, visibility, face ^ 1, directions | (1 << face));
+            }
+        }
+
+        // Forget the chunks left behind once they outnumber the ones still around the camera
+        if (this.marks.size > touched * 2) {
+            for (const [key, mark] of this.marks) {
+                if (mark >> 1 !== this.generation) this.marks.delete(key);
+            }
+        }
+        return visibleCount;
+    }
+
+    /**
+     * Checks whether the last search reached a chunk
+     * @param key chunkKey of the chunk
+     */
+    public isVisible(key: number): boolean {
+        return this.marks.get(key) === (this.generation << 1 | 1);
+    }
+
+    /**
+     * Appends a step to the queue, growing it when full
+     * @returns The new length of the queue
+     */
+    private push(length: number, x: number, y: number, z: number, visibility: number, entryFace: number, directions: number): number {
+        if (length + STEP_SIZE > this.queue.length) {
+            const grown = new Int32Array(this.queue.length * 2);
+            grown.set(this.queue);
+            this.queue = grown;
+        }
+        const queue = this.queue;
+        queue[length] = x;
+        queue[length + 1] = y;
+        queue[length + 2] = z;
+        queue[length + 3] = visibility;
+        queue[length + 4] = entryFace;
+        queue[length + 5] = directions;
+        return length + STEP_SIZE;
+    }
+}
@@ -1,106 +1,76 @@
-import { BlockType } from './BlockType';
+import { BlockRegistry, type BlockFace } from '../blocks/BlockRegistry';
 
 /**
- * Texture atlas configuration and utilities
+ * Texture atlas configuration and utilities.
+ * Tile positions come from BlockRegistry, this only turns them into UV coordinates.
  */
 export namespace TextureAtlas {
     // Texture atlas configuration
-    export const ATLAS_SIZE = 2; // Number of textures per row/column in the atlas
+    export const ATLAS_SIZE = 4; // Number of textures per row/column in the atlas
     export const TEXTURE_SIZE = 1 / ATLAS_SIZE; // Size of each texture in UV coordinates (0-1)
 
-    // Texture coordinates for each block type and face
-    export interface TextureCoords {
-        x: number;
-        y: number;
-        w?: number; // width in texture units (default: 1)
-        h?: number; // height in texture units (default: 1)
+    /**
+     * UV rectangle of a tile (v grows upwards, like the texture's UVs)
+     */
+    export interface TileBounds {
+        u0: number;
+        v0: number;
+        u1: number;
+        v1: number;
     }
 
-    // Texture coordinates for each block type
-    export const TEXTURE_COORDS: Record<BlockType, TextureCoords> = {
-        [BlockType.AIR]: { x: 0, y: 0 },
-        [BlockType.GRASS]: { x: 0, y: 0 },  // Top of grass
-        [BlockType.DIRT]: { x: 0, y: 1 },   // Dirt (same as bottom of grass)
-        [BlockType.STONE]: { x: 1, y: 1 },  // Stone
-        [BlockType.SAND]: { x: 1, y: 0 },   // Sand
-        [BlockType.WOOD]: { x: 0, y: 2 },   // Wood/log
-        [BlockType.LEAVES]: { x: 1, y: 2 }, // Leaves
-        [BlockType.GRASS_SIDE]: { x: 2, y: 0 } // Side of grass
-    };
+    /**
+     * Maps a mesher face name ('top', 'bottom', 'front', 'left'...) to the texture face
+     */
+    export function toBlockFace(face: string): BlockFace {
+        return face === 'top' || face === 'bottom' ? face : 'side';
+    }
 
     /**
-     * Gets the UV coordinates for a specific block face
+     * Gets the UV rectangle of a block face's tile
      */
-    export function getUvCoords(blockType: BlockType, face: string): number[][];
-    export function getUvCoords(blockType: BlockType, face: string, out: number[][]): void;
-    export function getUvCoords(blockType: BlockType, face: string, out?: number[][]) {
-        // Handle special cases for grass blocks
-        let texKey = blockType;
-        let isGrassSide = false;
-        
-        if (blockType === BlockType.GRASS) {
-            if (face === 'top') {
-                texKey = BlockType.GRASS;
-            } else if (face === 'bottom') {
-                texKey = BlockType.DIRT;
-            } else {
-                texKey = BlockType.GRASS_SIDE;
-                isGrassSide = true;
-            }
-        }
+    export function getTileBounds(blockType: number, face: string, out: TileBounds = { u0: 0, v0: 0, u1: 0, v1: 0 }): TileBounds {
+        const [x, y] = BlockRegistry.getTile(blockType, toBlockFace(face));
+        out.u0 = x * TEXTURE_SIZE;
+        out.u1 = out.u0 + TEXTURE_SIZE;
+        // Tile rows are counted from the top of the image, v from the bottom
+        out.v1 = 1 - y * TEXTURE_SIZE;
+        out.v0 = out.v1 - TEXTURE_SIZE;
+        return out;
+    }
 
-        const coords = TEXTURE_COORDS[texKey] || TEXTURE_COORDS[BlockType.STONE];
-        const w = coords.w ?? 1;
-        const h = coords.h ?? 1;
-        
-        // Calculate UV coordinates
-        // Special handling for grass side texture which is outside the standard atlas grid
-        let x, y, width, height;
-        
-        if (isGrassSide) {
-            // For grass side, use the correct texture coordinates
-            x = 0.5;   // Middle right of the texture atlas
-            y = 0.5;   // Middle of the texture atlas
-            width = 0.5;   // Half the texture atlas
-            height = 0.5;  // Half the texture atlas
-        } else {
-            // Standard UV calculation for other blocks
-            x = (coords.x % ATLAS_SIZE) * TEXTURE_SIZE;
-            y = 1 - (Math.floor(coords.y) + 1) * TEXTURE_SIZE;
-            width = TEXTURE_SIZE * w;
-            height = TEXTURE_SIZE * h;
-        }
+    /**
+     * Gets the index of a block face's tile, counted in rows from the top left of the atlas.
+     * Packed chunk vertices store it instead of UVs (see meshing/VertexFormat).
+     */
+    export function getTileIndex(blockType: number, face: string): number {
+        const [x, y] = BlockRegistry.getTile(blockType, toBlockFace(face));
+        return y * ATLAS_SIZE + x;
+    }
 
-        const result = isGrassSide ? [
-            // For grass side, flip the texture vertically
-            [x, y],  // Top-left
-            [x + width, y],  // Top-right
-            [x + width, y + height],  // Bottom-right
-            [x, y + height]  // Bottom-left
-        ] : [
-            // Standard UV mapping for other blocks
-            [x, y + height],  // Bottom-left
-            [x + width, y + height],  // Bottom-right
-            [x + width, y],  // Top-right
-            [x, y]  // Top-left
-        ];
+    const boundsTemp: TileBounds = { u0: 0, v0: 0, u1: 0, v1: 0 };
 
-        if (out) {
-            // Reuse existing array to reduce garbage collection
-            for (let i = 0; i < 4; i++) {
-                out[i][0] = result[i][0];
-                out[i][1] = result[i][1];
-            }
-        } else {
-            return result;
-        }
+    /**
+     * Gets the UV coordinates of the 4 corners of a block face, in the order
+     * bottom-left, bottom-right, top-right, top-left (the meshers' vertex order)
+     */
+    export function getUvCoords(blockType: number, face: string): number[][];
+    export function getUvCoords(blockType: number, face: string, out: number[][]): void;
+    export function getUvCoords(blockType: number, face: string, out?: number[][]) {
+        const { u0, v0, u1, v1 } = getTileBounds(blockType, face, boundsTemp);
+        const result = out ?? [[0, 0], [0, 0], [0, 0], [0, 0]];
+        result[0][0] = u0; result[0][1] = v0;
+        result[1][0] = u1; result[1][1] = v0;
+        result[2][0] = u1; result[2][1] = v1;
+        result[3][0] = u0; result[3][1] = v1;
+        if (!out) return result;
     }
 
     /**
      * Gets the texture coordinates for a specific block face
      * This version reuses the same array to reduce garbage collection
      */
-    export function getUvCoordsReusable(blockType: BlockType, face: string, out: number[][]) {
+    export function getUvCoordsReusable(blockType: number, face: string, out: number[][]) {
         getUvCoords(blockType, face, out);
     }
 }
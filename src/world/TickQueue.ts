@@ -0,0 +1,93 @@
+import { blockKey } from './ChunkKey';
+
+/**
+ * Block positions scheduled to update at a later game tick.
+ * A position is queued at most once: scheduling it again keeps the earlier tick.
+ */
+export class TickQueue {
+    private tick = 0;
+    // Due tick of every queued position, by block key (see ChunkKey.blockKey)
+    private dueTicks: Map<number, number> = new Map();
+    // Positions due at each tick as flat [x, y, z, ...] arrays. May hold entries that were
+    // rescheduled to an earlier tick, those are skipped when their bucket comes up.
+    private buckets: Map<number, number[]> = new Map();
+
+    /**
+     * Number of the last tick processed
+     */
+    public get currentTick(): number {
+        return this.tick;
+    }
+
+    /**
+     * Number of positions waiting for their tick
+     */
+    public get size(): number {
+        return this.dueTicks.size;
+    }
+
+    /**
+     * Schedules a block update
+     * @param x World X coordinate
+     * @param y World Y coordinate
+     * @param z World Z coordinate
+     * @param delay Number of ticks to wait, at least 1
+     */
+    public schedule(x: number, y: number, z: number, delay: number): void {
+        const key = blockKey(x, y, z);
+        const due = this.tick + Math.max(1, Math.floor(delay));
+        const existing = this.dueTicks.get(key);
+        if (existing !== undefined && existing <= due) return;
+
+        this.dueTicks.set(key, due);
+        let bucket = this.buckets.get(due);
+        if (!bucket) {
+            bucket = [];
+            this.buckets.set(due, bucket);
+        }
+        bucket.push(x, y, z);
+    }
+
+    /**
+     * Checks whether a position is waiting for an update
+     */
+    public isScheduled(x: number, y: number, z: number): boolean {
+        return this.dueTicks.has(blockKey(x, y, z));
+    }
+
+    /**
+     * Advances one tick and takes the positions due
+     * @param limit Maximum number of positions returned, the rest is moved to the next tick
+     * @returns Flat [x, y, z, ...] array of positions to update
+     */
+    public advance(limit: number = Infinity): number[] {
+        this.tick++;
+        const bucket = this.buckets.get(this.tick);
+        if (!bucket) return [];
+        this.buckets.delete(this.tick);
+
+        const due: number[] = [];
+        for (let i = 0; i < bucket.length; i += 3) {
+            const x = bucket[i], y = bucket[i + 1], z = bucket[i + 2];
+            const key = blockKey(x, y, z);
+            if (this.dueTicks.get(key) !== this.tick) continue; // Rescheduled earlier, already handled
+
+            if (due.length / 3 >= limit) {
+                this.dueTicks.delete(key);
+                this.schedule(x, y, z, 1);
+                continue;
+            }
+            this.dueTicks.delete(key);
+            due.push(x, y, z);
+        }
+        return due;
+    }
+
+    /**
+     * Drops every scheduled update
+     */
+    public clear(): void {
+        this.dueTicks.clear();
+        this.buckets.clear();
+    }
+}
@@ -1,58 +1,157 @@
 // World.ts (corregido)
 import * as THREE from 'three';
 import { Chunk } from './Chunk';
-import { BlockType } from './BlockType';
+import { BlockType } from '../blocks/BlockType';
 import { DebugManager } from '../debug/DebugManager';
-import { ChunkQueue } from './ChunkQueue';
+import { ChunkQueue, type ChunkQueueStats } from './ChunkQueue';
+import { chunkKey, chunkKeyX, chunkKeyY, chunkKeyZ, columnKey } from './ChunkKey';
+import { ALL_FACES_CONNECTED, ChunkVisibilitySearch } from './ChunkVisibility';
+import { getLodScale, type MeshMode } from '../meshing/MeshMode';
 import { WorkerManager } from '../workers/WorkerManager';
+import { NoiseTerrainGenerator, type TerrainGenerator } from './generation/TerrainGenerator';
+import { ChunkStorage } from './storage/ChunkStorage';
+import { LightEngine } from './lighting/LightEngine';
+import { FULL_SUNLIGHT, lightToBrightness } from './lighting/LightLevels';
+import { TickQueue } from './TickQueue';
+import type { BlockUpdateHandler } from './BlockUpdateHandler';
+import { FluidSimulator } from './fluids/FluidSimulator';
+import { GravityBlocks } from './gravity/GravityBlocks';
+import { FallingBlock } from './gravity/FallingBlock';
+import type { BiomeDefinition } from './biomes/BiomeRegistry';
+import { canPlaceStructureBlock } from './generation/structures/Structure';
+import { ChunkMaterial } from '../rendering/ChunkMaterial';
+
+/**
+ * Cost and result of the last frame's frustum culling, for debugging
+ */
+export interface CullingStats {
+    /** Time spent culling in the last frame, 0 when the previous result was kept */
+    lastFrameMs: number;
+    /** Whether the last frame recomputed the visible chunks */
+    recomputed: boolean;
+    /** Chunk meshes left visible */
+    visible: number;
+}
 
 /**
  * Represents the game world containing chunks of blocks
  */
 export class World {
-    // Store chunks in a map for quick lookup by chunk coordinates
-    private chunks: Map<string, Chunk> = new Map();
+    // Store chunks in a map for quick lookup by chunk coordinates, keyed by chunkKey
+    private chunks: Map<number, Chunk> = new Map();
+    // Loaded chunks of each column, keyed by columnKey and sorted from the highest to the lowest
+    private columns: Map<number, Chunk[]> = new Map();
+    // Chunk found by the last getChunk call. Block lookups come in runs inside the same chunk
+    // (collision, raycasts, light and fluid updates), this skips the map lookup for them.
+    private lastChunk: Chunk | null = null;
     
     // Store chunk meshes for rendering
-    private chunkMeshes: Map<string, THREE.Mesh> = new Map();
+    private chunkMeshes: Map<number, THREE.Mesh> = new Map();
     
     // World generation parameters
-    private readonly GROUND_LEVEL = 4; // Y-level of the ground surface
+    private terrainGenerator: TerrainGenerator;
+    
+    // Persistence for edited chunks (null = edits are lost on unload)
+    private chunkStorage: ChunkStorage | null;
     public viewDistance = 8; // in chunks
     public detailedViewDistance = 6; // in chunks - Greedy Meshing starts after this distance
+    // Distances (in chunks) beyond which chunks are meshed downsampled 2, 4 and 8 times (see meshing/LodMesher)
+    public lodViewDistances: [number, number, number] = [10, 16, 24];
+    
+    // Vertical chunk range (inclusive). Blocks outside of it can't be generated or edited.
+    public minChunkY = -2;
+    public maxChunkY = 5;
+    public verticalViewDistance = 2; // in chunks above/below the player
     
     // Reference to the Three.js scene
     private scene: THREE.Scene | null = null;
+    private camera: THREE.Camera | null = null;
     private debugManager: DebugManager | null = null;
     
+    // Frustum culling state, reused every frame. Culling only runs again when the camera moved or
+    // turned past the thresholds below, or when a chunk mesh was added, removed or rebuilt.
+    private readonly frustum = new THREE.Frustum();
+    private readonly cullingMatrix = new THREE.Matrix4();
+    private readonly cullingBox = new THREE.Box3();
+    private readonly visibilitySearch = new ChunkVisibilitySearch();
+    private readonly lastCullingPosition = new THREE.Vector3(Infinity, Infinity, Infinity);
+    private readonly lastCullingRotation = new THREE.Quaternion();
+    private readonly lastCullingProjection = new THREE.Matrix4();
+    private cullingDirty = true;
+    private cullingStats: CullingStats = { lastFrameMs: 0, recomputed: false, visible: 0 };
+    private static readonly CULLING_MOVE_THRESHOLD = 0.25; // blocks
+    private static readonly CULLING_TURN_THRESHOLD = 0.01; // radians
+    
+    // Bytes of chunk geometry handed to the renderer since the last update, and in the frame before
+    private pendingUploadBytes = 0;
+    private lastFrameUploadBytes = 0;
+    
     // Texture loader for loading block textures
     private textureLoader: THREE.TextureLoader;
     private textureAtlas: THREE.Texture | null = null;
-    private sharedMaterial: THREE.MeshBasicMaterial | null = null;
-    private debugMaterial: THREE.MeshBasicMaterial | null = null;
+    private sharedMaterial: ChunkMaterial | null = null;
+    private translucentMaterial: ChunkMaterial | null = null;
+    private debugMaterial: ChunkMaterial | null = null;
+    // Falling blocks are regular box geometry, drawn with a plain material using the same settings
+    private blockMaterial: THREE.MeshBasicMaterial | null = null;
+    // [opaque, translucent], indexed by the chunk geometry groups
+    private chunkMaterials: THREE.Material[] | null = null;
+    private debugMaterials: THREE.Material[] | null = null;
     
     // Chunk generation queue for async processing
     private chunkQueue: ChunkQueue;
+    // Chunk the player was in on the last update, queued tasks are re-prioritised when it changes
+    private lastPlayerChunk: { x: number; y: number; z: number } | null = null;
+    // Chunk column the levels of detail are measured from (see getColumnMeshMode)
+    private lodCenter: { x: number; z: number } | null = null;
     
     // Worker manager for async mesh generation
     private workerManager: WorkerManager;
     
-    // Material settings
+    // Sunlight and block light propagation
+    private lightEngine: LightEngine;
+    
+    // Scheduled block updates, run at a fixed tick rate. Changing a block schedules updates
+    // for it and its neighbours, handled by the first handler that handles the block type.
+    private tickQueue: TickQueue = new TickQueue();
+    private blockUpdateHandlers: BlockUpdateHandler[];
+    private fallingBlocks: FallingBlock[] = [];
+    private lastTickTime: number | null = null;
+    private tickAccumulator = 0;
+    private static readonly TICK_INTERVAL = 50; // ms, 20 ticks per second
+    private static readonly MAX_TICKS_PER_FRAME = 4; // Catch up at most this many ticks after a slow frame
+    private static readonly MAX_UPDATES_PER_TICK = 512; // Further updates wait for the next tick
+    
+    // Material settings of the opaque pass
     private readonly materialSettings = {
         map: null as THREE.Texture | null,
-        side: THREE.DoubleSide,  // Render both sides so greedy/detailed mismatches are less visible
+        side: THREE.FrontSide,
         color: 0xFFFFFF,
         fog: false,
         toneMapped: false,
-        transparent: true,
+        transparent: false,
         alphaTest: 0.1,
-        wireframe: false
+        wireframe: false,
+        vertexColors: true  // Light is baked into the vertex colours
+    };
+    
+    // Overrides for the translucent pass (water, glass, leaves). Three.js draws transparent
+    // materials after the opaque ones, sorting the meshes back to front by their distance to the camera.
+    private readonly translucentSettings = {
+        side: THREE.DoubleSide,  // Water surfaces and glass are seen from both sides
+        transparent: true,
+        depthWrite: false
     };
     
     /**
      * Creates a new World instance
+     * @param terrainGenerator Generator used to fill new chunks (defaults to a randomly seeded noise generator)
+     * @param chunkStorage Storage for edited chunks, must already be opened
      */
-    constructor() {
+    constructor(terrainGenerator: TerrainGenerator = new NoiseTerrainGenerator(), chunkStorage: ChunkStorage | null = null) {
+        this.terrainGenerator = terrainGenerator;
+        this.chunkStorage = chunkStorage;
+
         // Initialize texture loader
         this.textureLoader = new THREE.TextureLoader();
         
@@ -62,6 +161,9 @@ export class World {
         // Initialize worker manager
         this.workerManager = WorkerManager.getInstance();
         
+        this.lightEngine = new LightEngine(this);
+        this.blockUpdateHandlers = [new FluidSimulator(this), new GravityBlocks(this)];
+        
         // Load and initialize the texture atlas and materials
         this.loadTextureAtlas();
     }
@@ -88,11 +190,17 @@ export class World {
 
                     // Create shared material with the loaded texture
                     this.materialSettings.map = texture;
-                    this.sharedMaterial = new THREE.MeshBasicMaterial(this.materialSettings);
+                    this.sharedMaterial = new ChunkMaterial(this.materialSettings);
+                    this.translucentMaterial = new ChunkMaterial({ ...this.materialSettings, ...this.translucentSettings });
+                    this.blockMaterial = new THREE.MeshBasicMaterial(this.materialSettings);
+                    // Transitions toggle transparency while they fade, this tells them what to go back to
+                    this.translucentMaterial.userData.translucent = true;
+                    this.chunkMaterials = [this.sharedMaterial, this.translucentMaterial];
                     
                     // Create debug material (wireframe)
                     this.debugMaterial = this.sharedMaterial.clone();
                     this.debugMaterial.wireframe = true;
+                    this.debugMaterials = [this.debugMaterial, this.debugMaterial];
                     // wireframeLinewidth is not supported consistently; keep as informational
                     // this.debugMaterial.wireframeLinewidth = 1;
                     
@@ -126,21 +234,57 @@ export class World {
      */
     public initialize(startPosition: THREE.Vector3): void {
         const playerChunkX = Math.floor(startPosition.x / Chunk.SIZE);
+        const playerChunkY = Math.floor(startPosition.y / Chunk.HEIGHT);
         const playerChunkZ = Math.floor(startPosition.z / Chunk.SIZE);
+        const [minY, maxY] = this.getVerticalLoadRange(playerChunkY);
+        this.lodCenter = { x: playerChunkX, z: playerChunkZ };
 
         for (let x = -this.viewDistance; x <= this.viewDistance; x++) {
             for (let z = -this.viewDistance; z <= this.viewDistance; z++) {
                 const chunkX = playerChunkX + x;
                 const chunkZ = playerChunkZ + z;
-
-                const chunk = this.generateChunk(chunkX, 0, chunkZ);
                 const distance = Math.sqrt(x*x + z*z);
-                const mode = distance <= this.detailedViewDistance ? 'detailed' : 'greedy';
-                this.addChunkToScene(chunk, mode);
+                const mode = this.getMeshMode(distance);
+
+                for (let chunkY = minY; chunkY <= maxY; chunkY++) {
+                    const chunk = this.generateChunk(chunkX, chunkY, chunkZ);
+                    this.addChunkToScene(chunk, mode);
+                }
             }
         }
     }
 
+    /**
+     * Gets the inclusive range of chunk Y coordinates that should be loaded around a chunk Y,
+     * clamped to the world's vertical limits
+     * @param centerChunkY Chunk Y coordinate the player is in
+     * @returns [minChunkY, maxChunkY]
+     */
+    private getVerticalLoadRange(centerChunkY: number): [number, number] {
+        const clampedCenter = Math.min(this.maxChunkY, Math.max(this.minChunkY, centerChunkY));
+        return [
+            Math.max(this.minChunkY, clampedCenter - this.verticalViewDistance),
+            Math.min(this.maxChunkY, clampedCenter + this.verticalViewDistance)
+        ];
+    }
+
+    /**
+     * Checks whether a chunk column is within view distance of the player's column.
+     * The range is a square: loading, unloading and culling all use it, so every loaded chunk can be drawn.
+     * @param dx Chunk X offset from the player's chunk
+     * @param dz Chunk Z offset from the player's chunk
+     */
+    private isInViewDistance(dx: number, dz: number): boolean {
+        return Math.abs(dx) <= this.viewDistance && Math.abs(dz) <= this.viewDistance;
+    }
+
+    /**
+     * Checks whether a chunk Y coordinate is inside the world's vertical limits
+     */
+    public isChunkYInBounds(chunkY: number): boolean {
+        return chunkY >= this.minChunkY && chunkY <= this.maxChunkY;
+    }
+
     /**
      * Sets the Three.js scene and debug manager for this world
      */
@@ -151,8 +295,9 @@ export class World {
 
         // Store camera reference for frustum culling
         if (camera) {
-            this.scene.userData.camera = camera;
+            this.camera = camera;
         }
+        this.cullingDirty = true;
 
         this.addAllChunksToScene();
     }
@@ -176,8 +321,7 @@ export class World {
         const chunkKeys = Array.from(this.chunkMeshes.keys());
         
         for (const key of chunkKeys) {
-            const [x, y, z] = key.split(',').map(Number);
-            this.removeChunkFromScene(x, y, z);
+            this.removeChunkFromScene(chunkKeyX(key), chunkKeyY(key), chunkKeyZ(key));
         }
         
         this.chunkMeshes.clear();
@@ -194,28 +338,178 @@ export class World {
         
         const chunk = new Chunk(chunkX, chunkY, chunkZ);
         this.chunks.set(chunkKey, chunk);
-        this.generateChunkTerrain(chunk);
+        this.addToColumn(chunk);
+        
+        // Chunks the player edited before are restored instead of regenerated
+        const saved = this.chunkStorage?.loadState(chunkX, chunkY, chunkZ);
+        // Saved chunks already hold their structures, minus whatever the player removed
+        if (saved) {
+            chunk.setBlockData(saved.blocks, saved.meta);
+        } else {
+            this.generateChunkTerrain(chunk);
+            this.decorateChunk(chunk);
+        }
+        chunk.setBiomeData(this.buildBiomeMap(chunkX, chunkZ));
+        this.lightEngine.initializeChunk(chunk);
+        this.markMeshedNeighboursDirty(chunkX, chunkY, chunkZ);
         return chunk;
     }
     
+    /**
+     * Adds a chunk to the index of its column, keeping the column sorted from top to bottom
+     */
+    private addToColumn(chunk: Chunk): void {
+        const key = columnKey(chunk.x, chunk.z);
+        let column = this.columns.get(key);
+        if (!column) {
+            column = [];
+            this.columns.set(key, column);
+        }
+        let index = 0;
+        while (index < column.length && column[index].y > chunk.y) index++;
+        column.splice(index, 0, chunk);
+    }
+
+    /**
+     * Removes a chunk from the index of its column
+     */
+    private removeFromColumn(chunk: Chunk): void {
+        const key = columnKey(chunk.x, chunk.z);
+        const column = this.columns.get(key);
+        if (!column) return;
+        const index = column.indexOf(chunk);
+        if (index >= 0) column.splice(index, 1);
+        if (column.length === 0) this.columns.delete(key);
+    }
+    
+    /**
+     * Marks the already meshed neighbours of a chunk dirty, their border faces were built
+     * while this chunk wasn't loaded (treated as air) and may now be hidden
+     */
+    private markMeshedNeighboursDirty(chunkX: number, chunkY: number, chunkZ: number): void {
+        const offsets = [[1, 0, 0], [-1, 0, 0], [0, 1, 0], [0, -1, 0], [0, 0, 1], [0, 0, -1]];
+        for (const [dx, dy, dz] of offsets) {
+            const key = this.getChunkKey(chunkX + dx, chunkY + dy, chunkZ + dz);
+            if (this.chunkMeshes.has(key)) {
+                this.chunks.get(key)?.markDirty();
+            }
+        }
+    }
+    
     /**
      * Generates terrain for a chunk
      */
     private generateChunkTerrain(chunk: Chunk): void {
-        const localGroundLevel = this.GROUND_LEVEL - (chunk.y * Chunk.HEIGHT);
-        if (chunk.y <= 0) {
-            chunk.fill(0, 0, 0, Chunk.SIZE - 1, Math.min(Chunk.HEIGHT - 1, localGroundLevel - 2), Chunk.SIZE - 1, BlockType.STONE);
-            if (localGroundLevel -1 >= 0 && localGroundLevel -1 < Chunk.HEIGHT) {
-                chunk.fill(0, localGroundLevel -1, 0, Chunk.SIZE - 1, localGroundLevel -1, Chunk.SIZE - 1, BlockType.DIRT);
+        this.terrainGenerator.generate(chunk);
+    }
+    
+    /**
+     * Places the structures of a newly generated chunk, including the overhangs of structures rooted
+     * in the chunks around it (see TerrainGenerator.decorate). Every chunk gets all its structure blocks
+     * this way, whether its neighbours are loaded or not, so decoration never writes into other chunks.
+     * Since structure blocks only replace weaker ones (see canPlaceStructureBlock), overlapping
+     * structures end up the same whichever is placed first.
+     * @param chunk The chunk, already filled with its terrain
+     */
+    private decorateChunk(chunk: Chunk): void {
+        this.terrainGenerator.decorate(chunk, (x, y, z, blockType) => {
+            const localX = x - chunk.x * Chunk.SIZE;
+            const localY = y - chunk.y * Chunk.HEIGHT;
+            const localZ = z - chunk.z * Chunk.SIZE;
+            // Structure blocks are part of the generated world, they don't mark the chunk as modified
+            if (canPlaceStructureBlock(chunk.getBlock(localX, localY, localZ), blockType)) {
+                chunk.setBlock(localX, localY, localZ, blockType);
             }
-            if (localGroundLevel >= 0 && localGroundLevel < Chunk.HEIGHT) {
-                chunk.fill(0, localGroundLevel, 0, Chunk.SIZE - 1, localGroundLevel, Chunk.SIZE - 1, BlockType.GRASS);
+        });
+    }
+    
+    /**
+     * Looks up the biome of every block column of a chunk, for the meshers' grass and leaf tints
+     */
+    private buildBiomeMap(chunkX: number, chunkZ: number): Uint8Array {
+        const biomes = new Uint8Array(Chunk.SIZE * Chunk.SIZE);
+        for (let z = 0; z < Chunk.SIZE; z++) {
+            for (let x = 0; x < Chunk.SIZE; x++) {
+                biomes[x + z * Chunk.SIZE] = this.terrainGenerator.getBiome(chunkX * Chunk.SIZE + x, chunkZ * Chunk.SIZE + z).id;
             }
         }
+        return biomes;
+    }
+    
+    /**
+     * Gets the biome of a world column
+     * @param x World X coordinate
+     * @param z World Z coordinate
+     */
+    public getBiome(x: number, z: number): BiomeDefinition {
+        return this.terrainGenerator.getBiome(Math.floor(x), Math.floor(z));
+    }
+    
+    /**
+     * Gets the seed of the world's terrain generator
+     */
+    public getSeed(): number {
+        return this.terrainGenerator.seed;
+    }
+    
+    /**
+     * Replaces the terrain generator. Only affects chunks generated afterwards.
+     */
+    public setTerrainGenerator(generator: TerrainGenerator): void {
+        this.terrainGenerator = generator;
     }
     
     public getChunk(chunkX: number, chunkY: number, chunkZ: number): Chunk | undefined {
-        return this.chunks.get(this.getChunkKey(chunkX, chunkY, chunkZ));
+        const last = this.lastChunk;
+        if (last && last.x === chunkX && last.y === chunkY && last.z === chunkZ) {
+            return last;
+        }
+        const chunk = this.chunks.get(chunkKey(chunkX, chunkY, chunkZ));
+        if (chunk) this.lastChunk = chunk;
+        return chunk;
+    }
+    
+    /**
+     * Whether the sky is visible from the given block, judging by the generated terrain.
+     * Used by the light engine for columns whose upper chunks aren't loaded.
+     */
+    public isSkyExposed(x: number, y: number, z: number): boolean {
+        return y >= (this.maxChunkY + 1) * Chunk.HEIGHT || y > this.terrainGenerator.getSurfaceHeight(x, z);
+    }
+    
+    /**
+     * Checks whether the chunk holding a block is loaded
+     */
+    public isBlockLoaded(x: number, y: number, z: number): boolean {
+        return this.getChunk(Math.floor(x / Chunk.SIZE), Math.floor(y / Chunk.HEIGHT), Math.floor(z / Chunk.SIZE)) !== undefined;
+    }
+    
+    /**
+     * Gets the block state at the specified world coordinates (e.g. fluid levels, see fluids/FluidState)
+     * @returns The metadata byte, 0 if the chunk isn't loaded
+     */
+    public getBlockMeta(x: number, y: number, z: number): number {
+        const chunkX = Math.floor(x / Chunk.SIZE);
+        const chunkY = Math.floor(y / Chunk.HEIGHT);
+        const chunkZ = Math.floor(z / Chunk.SIZE);
+        
+        const chunk = this.getChunk(chunkX, chunkY, chunkZ);
+        if (!chunk) return 0;
+        return chunk.getMeta(x - chunkX * Chunk.SIZE, y - chunkY * Chunk.HEIGHT, z - chunkZ * Chunk.SIZE);
+    }
+    
+    /**
+     * Gets the packed light value at the specified world coordinates (see lighting/LightLevels)
+     * @returns The light value, full sunlight if the chunk isn't loaded
+     */
+    public getLight(x: number, y: number, z: number): number {
+        const chunkX = Math.floor(x / Chunk.SIZE);
+        const chunkY = Math.floor(y / Chunk.HEIGHT);
+        const chunkZ = Math.floor(z / Chunk.SIZE);
+        
+        const chunk = this.getChunk(chunkX, chunkY, chunkZ);
+        if (!chunk) return FULL_SUNLIGHT;
+        return chunk.getLight(x - chunkX * Chunk.SIZE, y - chunkY * Chunk.HEIGHT, z - chunkZ * Chunk.SIZE);
     }
     
     public getOrGenerateChunk(chunkX: number, chunkY: number, chunkZ: number): Chunk {
@@ -229,31 +523,22 @@ export class World {
      * @returns The Y coordinate of the highest non-air block + 1, or 0 if no blocks found
      */
     public getHighestBlockY(x: number, z: number): number {
-        // Get all chunk Y coordinates that exist in the world
-        const chunkYCoords = new Set<number>();
-        for (const key of this.chunks.keys()) {
-            const [chunkX, chunkY, chunkZ] = key.split(',').map(Number);
-            if (Math.floor(x / Chunk.SIZE) === chunkX && Math.floor(z / Chunk.SIZE) === chunkZ) {
-                chunkYCoords.add(chunkY);
-            }
-        }
+        const chunkX = Math.floor(x / Chunk.SIZE);
+        const chunkZ = Math.floor(z / Chunk.SIZE);
+        const localX = x - chunkX * Chunk.SIZE;
+        const localZ = z - chunkZ * Chunk.SIZE;
 
-        // If no chunks found at this (x,z), return 0
-        if (chunkYCoords.size === 0) {
+        // If no chunks are loaded at this (x,z), return 0
+        const column = this.columns.get(columnKey(chunkX, chunkZ));
+        if (!column) {
             return 0;
         }
 
-        // Sort chunk Y coordinates in descending order
-        const sortedChunkYs = Array.from(chunkYCoords).sort((a, b) => b - a);
-
         // Check chunks from top to bottom
-        for (const chunkY of sortedChunkYs) {
-            const startY = Chunk.HEIGHT - 1;
-            const endY = 0;
-            for (let y = startY; y >= endY; y--) {
-                const worldY = chunkY * Chunk.HEIGHT + y;
-                if (this.getBlock(x, worldY, z) !== BlockType.AIR) {
-                    return worldY + 1; // +1 because we want the block above
+        for (const chunk of column) {
+            for (let y = Chunk.HEIGHT - 1; y >= 0; y--) {
+                if (chunk.getBlock(localX, y, localZ) !== BlockType.AIR) {
+                    return chunk.y * Chunk.HEIGHT + y + 1; // +1 because we want the block above
                 }
             }
         }
@@ -278,7 +563,11 @@ export class World {
         return chunk ? chunk.getBlock(localX, localY, localZ) : BlockType.AIR;
     }
     
-    public setBlock(x: number, y: number, z: number, blockType: BlockType): void {
+    /**
+     * Sets a block, updating light, meshes and scheduled block updates around it
+     * @param meta Block state of the new block (fluid level), 0 by default
+     */
+    public setBlock(x: number, y: number, z: number, blockType: BlockType, meta: number = 0): void {
         const chunkX = Math.floor(x / Chunk.SIZE);
         const chunkY = Math.floor(y / Chunk.HEIGHT);
         const chunkZ = Math.floor(z / Chunk.SIZE);
@@ -287,16 +576,30 @@ export class World {
         const localY = y - (chunkY * Chunk.HEIGHT);
         const localZ = z - (chunkZ * Chunk.SIZE);
         
+        // Blocks above or below the world's vertical limits can't be edited
+        if (!this.isChunkYInBounds(chunkY)) {
+            return;
+        }
+        
         const chunk = this.getOrGenerateChunk(chunkX, chunkY, chunkZ);
         const oldBlockType = chunk.getBlock(localX, localY, localZ);
         
-        // If the block type hasn't changed, don't do anything
-        if (oldBlockType === blockType) {
+        // If the block hasn't changed, don't do anything
+        if (oldBlockType === blockType && chunk.getMeta(localX, localY, localZ) === meta) {
             return;
         }
         
         // Update the block
-        chunk.setBlock(localX, localY, localZ, blockType);
+        chunk.setBlock(localX, localY, localZ, blockType, meta);
+        chunk.isModified = true;
+        
+        // Marks every chunk whose light changed dirty, including neighbours
+        if (oldBlockType !== blockType) {
+            this.lightEngine.onBlockChanged(x, y, z, oldBlockType, blockType);
+        }
+        
+        // Fluids around the change may now flow (or dry up), unsupported blocks fall
+        this.scheduleBlockUpdates(x, y, z);
         
         // Force the chunk to regenerate its mesh
         chunk.forceMeshRegeneration();
@@ -304,14 +607,30 @@ export class World {
         // Mark the chunk as dirty
         this.markChunkDirty(chunkX, chunkY, chunkZ);
         
+        this.markBorderNeighboursDirty(chunkX, chunkY, chunkZ, localX, localY, localZ);
+
+        // Don't force immediate update - let the normal update cycle handle it
+        // This prevents massive CPU usage when destroying blocks
+    }
+    
+    /**
+     * Marks the neighbours of a chunk dirty whose border faces touch a changed block
+     * @param localX Local X coordinate of the changed block
+     * @param localY Local Y coordinate of the changed block
+     * @param localZ Local Z coordinate of the changed block
+     */
+    private markBorderNeighboursDirty(chunkX: number, chunkY: number, chunkZ: number, localX: number, localY: number, localZ: number): void {
         // Mark adjacent chunks as dirty only if they're on chunk borders (optimization)
         // Only mark chunks that actually need updates to prevent excessive regeneration
         if (localX === 0 || localX === Chunk.SIZE - 1 ||
+            localY === 0 || localY === Chunk.HEIGHT - 1 ||
             localZ === 0 || localZ === Chunk.SIZE - 1) {
             const adjacentChunks: {x: number, y: number, z: number}[] = [];
 
             if (localX === 0) adjacentChunks.push({x: chunkX - 1, y: chunkY, z: chunkZ});
             if (localX === Chunk.SIZE - 1) adjacentChunks.push({x: chunkX + 1, y: chunkY, z: chunkZ});
+            if (localY === 0) adjacentChunks.push({x: chunkX, y: chunkY - 1, z: chunkZ});
+            if (localY === Chunk.HEIGHT - 1) adjacentChunks.push({x: chunkX, y: chunkY + 1, z: chunkZ});
             if (localZ === 0) adjacentChunks.push({x: chunkX, y: chunkY, z: chunkZ - 1});
             if (localZ === Chunk.SIZE - 1) adjacentChunks.push({x: chunkX, y: chunkY, z: chunkZ + 1});
 
@@ -320,16 +639,105 @@ export class World {
                 this.markChunkDirty(adjChunk.x, adjChunk.y, adjChunk.z);
             });
         }
-
-        // Don't force immediate update - let the normal update cycle handle it
-        // This prevents massive CPU usage when destroying blocks
     }
     
-    private getChunkKey(x: number, y: number, z: number): string {
-        return `${x},${y},${z}`;
+    /**
+     * Schedules an update for a changed block and its six neighbours,
+     * skipping blocks no update handler reacts to
+     */
+    private scheduleBlockUpdates(x: number, y: number, z: number): void {
+        const offsets = [[0, 0, 0], [1, 0, 0], [-1, 0, 0], [0, 1, 0], [0, -1, 0], [0, 0, 1], [0, 0, -1]];
+        for (const [dx, dy, dz] of offsets) {
+            const handler = this.getUpdateHandler(this.getBlock(x + dx, y + dy, z + dz));
+            if (handler) {
+                this.tickQueue.schedule(x + dx, y + dy, z + dz, handler.tickDelay);
+            }
+        }
     }
     
-    public getChunkMeshes(): Map<string, THREE.Mesh> {
+    private getUpdateHandler(blockType: BlockType | undefined): BlockUpdateHandler | undefined {
+        if (blockType === undefined) return undefined;
+        return this.blockUpdateHandlers.find(handler => handler.handles(blockType));
+    }
+    
+    /**
+     * Starts a falling block entity (see gravity/GravityBlocks)
+     */
+    public spawnFallingBlock(x: number, y: number, z: number, blockType: BlockType): void {
+        const fallingBlock = new FallingBlock(x, y, z, blockType);
+        if (this.scene && this.blockMaterial) {
+            this.scene.add(fallingBlock.createMesh(this.blockMaterial));
+        }
+        this.fallingBlocks.push(fallingBlock);
+    }
+    
+    /**
+     * Moves the falling block meshes between their tick positions
+     */
+    private updateFallingBlockMeshes(): void {
+        const alpha = this.tickAccumulator / World.TICK_INTERVAL;
+        for (const fallingBlock of this.fallingBlocks) {
+            const light = this.getLight(fallingBlock.x, Math.floor(fallingBlock.height), fallingBlock.z);
+            fallingBlock.updateMesh(alpha, lightToBrightness(light));
+        }
+    }
+    
+    private removeFallingBlock(fallingBlock: FallingBlock): void {
+        const mesh = fallingBlock.getMesh();
+        if (mesh) this.scene?.remove(mesh);
+        fallingBlock.dispose();
+    }
+    
+    /**
+     * Runs the game ticks that are due since the last frame
+     */
+    private updateTicks(): void {
+        const now = performance.now();
+        if (this.lastTickTime === null) {
+            this.lastTickTime = now;
+            return;
+        }
+        this.tickAccumulator = Math.min(
+            this.tickAccumulator + now - this.lastTickTime,
+            World.TICK_INTERVAL * World.MAX_TICKS_PER_FRAME
+        );
+        this.lastTickTime = now;
+        
+        while (this.tickAccumulator >= World.TICK_INTERVAL) {
+            this.tickAccumulator -= World.TICK_INTERVAL;
+            this.tick();
+        }
+    }
+    
+    /**
+     * Runs one game tick: applies the block updates scheduled for it and moves the falling blocks
+     */
+    public tick(): void {
+        const due = this.tickQueue.advance(World.MAX_UPDATES_PER_TICK);
+        for (let i = 0; i < due.length; i += 3) {
+            const x = due[i], y = due[i + 1], z = due[i + 2];
+            this.getUpdateHandler(this.getBlock(x, y, z))?.update(x, y, z);
+        }
+        
+        if (this.fallingBlocks.length > 0) {
+            // Landing sets blocks, which may spawn more falling blocks while iterating
+            const fallingBlocks = this.fallingBlocks;
+            this.fallingBlocks = [];
+            for (const fallingBlock of fallingBlocks) {
+                if (fallingBlock.tick(this, World.TICK_INTERVAL / 1000)) {
+                    this.fallingBlocks.push(fallingBlock);
+                } else {
+                    this.removeFallingBlock(fallingBlock);
+                }
+            }
+        }
+    }
+    
+    private getChunkKey(x: number, y: number, z: number): number {
+        return chunkKey(x, y, z);
+    }
+    
+    public getChunkMeshes(): Map<number, THREE.Mesh> {
         return this.chunkMeshes;
     }
 
@@ -341,7 +749,7 @@ export class World {
      * Adds a chunk's mesh to the scene with the specified level of detail.
      * Returns true if the mesh in the scene was updated/replaced, false if nothing changed.
      */
-    private addChunkToScene(chunk: Chunk, mode: 'detailed' | 'greedy'): boolean {
+    private addChunkToScene(chunk: Chunk, mode: MeshMode): boolean {
         if (!this.scene || !this.sharedMaterial) return false;
         const chunkKey = this.getChunkKey(chunk.x, chunk.y, chunk.z);
         
@@ -376,7 +784,7 @@ export class World {
                 mesh.userData.chunkY = chunk.y;
                 mesh.userData.chunkZ = chunk.z;
                 
-                // Apply the shared material (clone when necessary for transitions)
+                // Apply the shared materials (clone when necessary for transitions)
                 const material = this.getMaterial();
                 if (!material) {
                     console.warn(`Failed to get material for chunk ${chunkKey}`);
@@ -386,38 +794,26 @@ export class World {
                 const clonedMaterial = this.cloneMaterialForTransition(material);
                 mesh.material = clonedMaterial;
 
-                // Ensure geometry attributes are flagged for update
-                const geom = mesh.geometry as THREE.BufferGeometry;
-                if (geom) {
-                    // compute bounding box if needed
-                    if (!geom.boundingBox) geom.computeBoundingBox();
-
-                    if (geom.attributes.position) geom.attributes.position.needsUpdate = true;
-                    if (geom.attributes.normal) geom.attributes.normal.needsUpdate = true;
-                    if (geom.attributes.uv) geom.attributes.uv.needsUpdate = true;
-                    if (geom.index) geom.index.needsUpdate = true;
-                }
-
                 // Add to scene and store reference
                 this.chunkMeshes.set(chunkKey, mesh);
                 this.scene.add(mesh);
+                this.cullingDirty = true;
                 
                 // If we have a transition mesh, add it to the scene too
-                if ((chunk as any)['transitionMesh']) {
-                    const transitionMesh = (chunk as any)['transitionMesh'] as THREE.Mesh;
+                if (chunk.transitionMesh) {
+                    const transitionMesh = chunk.transitionMesh;
                     const transitionMaterial = this.cloneMaterialForTransition(material);
                     transitionMesh.material = transitionMaterial;
                     this.scene.add(transitionMesh);
                     
-                    // Set initial opacity for crossfade if supported
-                    if ('opacity' in (transitionMaterial as any)) {
-                        (transitionMaterial as any).opacity = 1.0;
-                        (transitionMaterial as any).transparent = true;
+                    // Set initial opacity for crossfade
+                    for (const m of transitionMaterial) {
+                        m.opacity = 1.0;
+                        m.transparent = true;
                     }
-                    
-                    if ('opacity' in clonedMaterial) {
-                        (clonedMaterial as any).opacity = 0.0;
-                        (clonedMaterial as any).transparent = true;
+                    for (const m of clonedMaterial) {
+                        m.opacity = 0.0;
+                        m.transparent = true;
                     }
                 }
 
@@ -455,6 +851,7 @@ export class World {
             // Remove from scene and map
             this.scene.remove(mesh);
             this.chunkMeshes.delete(chunkKey);
+            this.cullingDirty = true;
             
             // Only dispose if this mesh is not part of an active transition
             const chunk = this.chunks.get(chunkKey);
@@ -475,22 +872,14 @@ export class World {
         }
     }
     
-    // Creates a clone of a material for use in transitions
-    private cloneMaterialForTransition(baseMaterial: THREE.Material): THREE.Material | THREE.Material[] {
-        if (Array.isArray(baseMaterial)) {
-            return baseMaterial.map(m => this.cloneMaterialForTransition(m) as THREE.Material);
-        }
-        
-        // Create a clone of the material
-        const material = baseMaterial.clone();
-        
-        // Ensure the material can handle transparency
-        if ('opacity' in material) {
+    // Creates a clone of the pass materials for use in transitions. The clones keep the transparency
+    // of their pass, the crossfade only makes them transparent while it runs.
+    private cloneMaterialForTransition(baseMaterials: THREE.Material[]): THREE.Material[] {
+        return baseMaterials.map(baseMaterial => {
+            const material = baseMaterial.clone();
             material.opacity = 1;
-            material.transparent = true;
-        }
-        
-        return material;
+            return material;
+        });
     }
     
     // Updates all active LOD transitions
@@ -500,13 +889,14 @@ export class World {
         // Update all chunks that are in transition
         for (const chunk of this.chunks.values()) {
             if (chunk.currentLOD === 'transitioning') {
-                const wasUpdated = chunk['updateTransition'] ? chunk['updateTransition']() : false;
+                // Completing the transition disposes the old mesh and clears the chunk's reference to it
+                const transitionMesh = chunk.transitionMesh;
+                const wasUpdated = chunk.updateTransition();
                 needsUpdate = needsUpdate || wasUpdated;
 
                 // If transition is complete, clean up
-                if (chunk.currentLOD !== 'transitioning' && chunk['transitionMesh']) {
-                    this.scene?.remove(chunk['transitionMesh']);
-                    chunk['transitionMesh'] = null;
+                if (chunk.currentLOD !== 'transitioning' && transitionMesh) {
+                    this.scene?.remove(transitionMesh);
                 }
             }
         }
@@ -520,95 +910,105 @@ export class World {
     }
 
     /**
-     * Updates frustum culling by hiding chunks that are outside the camera's view
-     * Includes aggressive occlusion culling to hide chunks behind the player
+     * Updates frustum culling by hiding chunks that are outside the camera's view.
+     * Chunks inside the frustum are only shown if a line of sight from the camera's chunk can
+     * reach them through see-through blocks (see ChunkVisibility), which hides caves and
+     * terrain sealed behind hills. Meshes are tested against the bounds of their geometry.
      */
-    private updateFrustumCulling(playerPosition: THREE.Vector3): void {
-        if (!this.scene) return;
+    private updateFrustumCulling(): void {
+        const camera = this.camera;
+        if (!this.scene || !camera) return;
 
-        // Create a frustum from the camera
-        const camera = this.scene.userData.camera as THREE.Camera;
-        if (!camera) return;
-
-        const frustum = new THREE.Frustum();
-        const matrix = new THREE.Matrix4().multiplyMatrices(camera.projectionMatrix, camera.matrixWorldInverse);
-        frustum.setFromProjectionMatrix(matrix);
-
-        // Calculate player's viewing direction (forward vector)
-        const forward = new THREE.Vector3(0, 0, -1);
-        forward.applyQuaternion(camera.quaternion);
-
-        // Get player chunk coordinates
-        const playerChunkX = Math.floor(playerPosition.x / Chunk.SIZE);
-        const playerChunkZ = Math.floor(playerPosition.z / Chunk.SIZE);
-
-        // Update visibility for all chunk meshes
-        for (const [chunkKey, mesh] of this.chunkMeshes.entries()) {
-            const [x, y, z] = chunkKey.split(',').map(Number);
-
-            // Calculate chunk center position
-            const chunkCenter = new THREE.Vector3(
-                (x + 0.5) * Chunk.SIZE,
-                (y + 0.5) * Chunk.HEIGHT,
-                (z + 0.5) * Chunk.SIZE
-            );
-
-            // Create a bounding sphere for the chunk (approximation)
-            const chunkRadius = Math.sqrt(Chunk.SIZE * Chunk.SIZE + Chunk.HEIGHT * Chunk.HEIGHT + Chunk.SIZE * Chunk.SIZE) * 0.5;
-            const boundingSphere = new THREE.Sphere(chunkCenter, chunkRadius);
-
-            // Check if chunk is in frustum
-            const isInFrustum = frustum.intersectsSphere(boundingSphere);
+        const startTime = performance.now();
+        const moved = camera.position.distanceToSquared(this.lastCullingPosition) > World.CULLING_MOVE_THRESHOLD ** 2 ||
+            camera.quaternion.angleTo(this.lastCullingRotation) > World.CULLING_TURN_THRESHOLD ||
+            !camera.projectionMatrix.equals(this.lastCullingProjection);
+        if (!moved && !this.cullingDirty) {
+            this.cullingStats.lastFrameMs = 0;
+            this.cullingStats.recomputed = false;
+            return;
+        }
+        this.lastCullingPosition.copy(camera.position);
+        this.lastCullingRotation.copy(camera.quaternion);
+        this.lastCullingProjection.copy(camera.projectionMatrix);
+        this.cullingDirty = false;
 
-            // Calculate vector from player to chunk
-            const playerToChunk = new THREE.Vector3(
-                chunkCenter.x - playerPosition.x,
-                0, // Ignore Y for horizontal occlusion
-                chunkCenter.z - playerPosition.z
-            ).normalize();
+        // The renderer only updates the camera's matrices when it draws, after this
+        camera.updateMatrixWorld();
+        this.cullingMatrix.multiplyMatrices(camera.projectionMatrix, camera.matrixWorldInverse);
+        this.frustum.setFromProjectionMatrix(this.cullingMatrix);
 
-            // Calculate dot product to determine if chunk is behind player
-            const dotProduct = forward.dot(playerToChunk);
+        // Search from the camera's chunk, or from the nearest layer of chunks when it's above or below the world
+        const cameraChunkX = Math.floor(camera.position.x / Chunk.SIZE);
+        const cameraChunkY = Math.min(this.maxChunkY, Math.max(this.minChunkY, Math.floor(camera.position.y / Chunk.HEIGHT)));
+        const cameraChunkZ = Math.floor(camera.position.z / Chunk.SIZE);
 
-            // Distance check
-            const distanceToPlayer = Math.sqrt(
-                Math.pow(x - playerChunkX, 2) + Math.pow(z - playerChunkZ, 2)
-            );
+        this.visibilitySearch.search(
+            cameraChunkX, cameraChunkY, cameraChunkZ,
+            (x, y, z) => {
+                if (y < this.minChunkY || y > this.maxChunkY) return null;
+                if (!this.isInViewDistance(x - cameraChunkX, z - cameraChunkZ)) return null;
+                // Chunks not loaded yet don't hide anything behind them
+                return this.getChunk(x, y, z)?.getVisibility() ?? ALL_FACES_CONNECTED;
+            },
+            // The search goes through the whole chunk, lines of sight cross chunks without geometry too
+            (x, y, z) => {
+                this.cullingBox.min.set(x * Chunk.SIZE, y * Chunk.HEIGHT, z * Chunk.SIZE);
+                this.cullingBox.max.set((x + 1) * Chunk.SIZE, (y + 1) * Chunk.HEIGHT, (z + 1) * Chunk.SIZE);
+                return this.frustum.intersectsBox(this.cullingBox);
+            }
+        );
 
-            // Less aggressive occlusion culling
-            // Only hide chunks that are significantly behind AND at least 2 chunks away
-            const isFarBehindPlayer = dotProduct < -0.8 && distanceToPlayer >= 2;
-            // Always show chunks within 1 chunk distance (player's immediate area)
-            const isVeryClose = distanceToPlayer < 1.5;
-            // Always show the chunk the player is currently in
-            const isPlayerChunk = (x === playerChunkX && z === playerChunkZ);
-
-            // Hide chunks that are:
-            // 1. Outside frustum, OR
-            // 2. Too far, OR
-            // 3. Significantly behind the player AND not too close
-            const shouldBeVisible = isInFrustum &&
-                                   distanceToPlayer <= this.viewDistance &&
-                                   (!isFarBehindPlayer || isVeryClose || isPlayerChunk);
+        let visible = 0;
+        for (const [key, mesh] of this.chunkMeshes.entries()) {
+            const chunk = this.chunks.get(key);
+            const shouldBeVisible = chunk !== undefined && this.visibilitySearch.isVisible(key) && this.frustum.intersectsBox(chunk.getBounds());
+            if (shouldBeVisible) visible++;
 
             // Only update visibility if it changed
             if (mesh.visible !== shouldBeVisible) {
                 mesh.visible = shouldBeVisible;
             }
         }
+
+        this.cullingStats.lastFrameMs = performance.now() - startTime;
+        this.cullingStats.recomputed = true;
+        this.cullingStats.visible = visible;
+    }
+
+    /**
+     * Culls the chunks again on the next update, the chunk's bounds or visibility changed,
+     * and counts its new buffers towards the next frame's uploads
+     */
+    public onChunkMeshUpdated(_chunk: Chunk, uploadBytes: number): void {
+        this.cullingDirty = true;
+        this.pendingUploadBytes += uploadBytes;
+    }
+
+    /**
+     * Gets the cost of the last frame's frustum culling, for debugging
+     */
+    public getCullingStats(): CullingStats {
+        return this.cullingStats;
     }
 
 
     
     public update(playerPosition: THREE.Vector3): void {
+        // Geometry applied since the last update is uploaded when this frame renders
+        this.lastFrameUploadBytes = this.pendingUploadBytes;
+        this.pendingUploadBytes = 0;
+
         this.loadChunksAroundPlayer(playerPosition);
-        this.updateFrustumCulling(playerPosition);
+        this.updateFrustumCulling();
+        this.updateTicks();
+        this.updateFallingBlockMeshes();
         this.updateDirtyChunks();
         this.updateLODTransitions();
     }
 
     /**
-     * Unloads a chunk, disposing of all its resources
+     * Unloads a chunk, saving its edits and disposing of all its resources
      * @param chunkX Chunk X coordinate
      * @param chunkY Chunk Y coordinate
      * @param chunkZ Chunk Z coordinate
@@ -618,14 +1018,25 @@ export class World {
         const chunk = this.chunks.get(chunkKey);
         if (!chunk) return;
 
+        // Persist player edits before the block data is dropped
+        if (chunk.isModified && this.chunkStorage) {
+            this.chunkStorage.save(chunk);
+            chunk.isModified = false;
+        }
+
         // Remove from scene and clean up mesh resources
         this.removeChunkFromScene(chunkX, chunkY, chunkZ);
         
+        // Drop pending mesh jobs, their results would be thrown away anyway
+        this.workerManager.cancelChunk(chunkX, chunkY, chunkZ);
+        
         // Clean up chunk resources
         chunk.dispose();
         
         // Remove from chunks map
         this.chunks.delete(chunkKey);
+        this.removeFromColumn(chunk);
+        if (this.lastChunk === chunk) this.lastChunk = null;
     }
 
 
@@ -635,60 +1046,145 @@ export class World {
      */
     private loadChunksAroundPlayer(playerPosition: THREE.Vector3): void {
         const playerChunkX = Math.floor(playerPosition.x / Chunk.SIZE);
+        const playerChunkY = Math.floor(playerPosition.y / Chunk.HEIGHT);
         const playerChunkZ = Math.floor(playerPosition.z / Chunk.SIZE);
-        const requiredChunks = new Set<string>();
+        const [minChunkY, maxChunkY] = this.getVerticalLoadRange(playerChunkY);
+
+        const last = this.lastPlayerChunk;
+        if (!last || last.x !== playerChunkX || last.y !== playerChunkY || last.z !== playerChunkZ) {
+            // Tasks queued from the old position: drop the ones out of range, sort the rest by the new distance
+            this.chunkQueue.reprioritize((chunkX, chunkY, chunkZ) => {
+                const x = chunkX - playerChunkX;
+                const z = chunkZ - playerChunkZ;
+                if (!this.isInViewDistance(x, z)) return null;
+                if (chunkY < minChunkY || chunkY > maxChunkY) return null;
+                return this.getChunkPriority(x, chunkY - playerChunkY, z);
+            });
+            this.lastPlayerChunk = { x: playerChunkX, y: playerChunkY, z: playerChunkZ };
+        }
+        this.lodCenter = { x: playerChunkX, z: playerChunkZ };
 
         // First pass: Update or queue chunks that need to be loaded/updated
         for (let x = -this.viewDistance; x <= this.viewDistance; x++) {
             for (let z = -this.viewDistance; z <= this.viewDistance; z++) {
                 const chunkX = playerChunkX + x;
                 const chunkZ = playerChunkZ + z;
-                const chunkKey = this.getChunkKey(chunkX, 0, chunkZ);
-                requiredChunks.add(chunkKey);
 
-                // Calculate distance from player for priority
+                // LOD is decided by horizontal distance so a whole column shares the same mode
                 const dx = Math.abs(x);
                 const dz = Math.abs(z);
                 const distance = Math.sqrt(dx * dx + dz * dz);
-                const priority = Math.floor(distance * 10); // Higher priority for closer chunks
-                
-                // Determine LOD based on distance from player
-                const mode = distance <= this.detailedViewDistance ? 'detailed' : 'greedy';
+                const mode = this.getMeshMode(distance);
 
-                const existingMesh = this.chunkMeshes.get(chunkKey);
-                const chunk = this.chunks.get(chunkKey);
-                
-                if (!existingMesh) {
-                    // If no mesh exists, queue the generation task
-                    this.chunkQueue.addTask(chunkX, 0, chunkZ, mode, priority);
-                } else if (existingMesh.userData.mode !== mode) {
-                    // If the LOD mode changed, force update
-                    if (chunk) {
-                        chunk.markDirty();
-                        this.chunkQueue.addTask(chunkX, 0, chunkZ, mode, priority - 0.5);
+                for (let chunkY = minChunkY; chunkY <= maxChunkY; chunkY++) {
+                    const chunkKey = this.getChunkKey(chunkX, chunkY, chunkZ);
+
+                    const priority = this.getChunkPriority(x, chunkY - playerChunkY, z);
+
+                    const existingMesh = this.chunkMeshes.get(chunkKey);
+                    const chunk = this.chunks.get(chunkKey);
+
+                    if (!existingMesh) {
+                        // Chunks that were already meshed without producing geometry (air, fully buried)
+                        // have no mesh on purpose; only queue them again once they change
+                        if (chunk && !chunk.isDirty) continue;
+
+                        // If no mesh exists, queue the generation task
+                        this.chunkQueue.addTask(chunkX, chunkY, chunkZ, mode, priority);
+                    } else if (existingMesh.userData.mode !== mode) {
+                        // If the LOD mode changed, force update
+                        if (chunk) {
+                            this.markFinerNeighboursDirty(chunk, existingMesh.userData.mode, mode);
+                            chunk.markDirty();
+                            this.chunkQueue.addTask(chunkX, chunkY, chunkZ, mode, priority - 0.5);
+                        }
+                    } else if (chunk && chunk.isDirty) {
+                        // If chunk is dirty, enqueue an update
+                        this.chunkQueue.addTask(chunkX, chunkY, chunkZ, mode, priority);
                     }
-                } else if (chunk && chunk.isDirty) {
-                    // If chunk is dirty, enqueue an update
-                    this.chunkQueue.addTask(chunkX, 0, chunkZ, mode, priority);
                 }
             }
         }
 
-        for (const chunkKey of this.chunks.keys()) {
-            if (!requiredChunks.has(chunkKey)) {
-                const [x, y, z] = chunkKey.split(',').map(Number);
-                this.unloadChunk(x, y, z);
+        // Second pass: unload chunks whose column left the view distance
+        // or that fell outside the vertical range around the player
+        for (const chunk of this.chunks.values()) {
+            const outsideColumn = !this.isInViewDistance(chunk.x - playerChunkX, chunk.z - playerChunkZ);
+            const outsideVertical = chunk.y < minChunkY || chunk.y > maxChunkY;
+            if (outsideColumn || outsideVertical) {
+                this.unloadChunk(chunk.x, chunk.y, chunk.z);
             }
         }
     }
     
+    /**
+     * Picks how a chunk column is meshed from its horizontal distance to the player
+     * @param distance Distance in chunks
+     */
+    private getMeshMode(distance: number): MeshMode {
+        const [lod2, lod4, lod8] = this.lodViewDistances;
+        if (distance <= this.detailedViewDistance) return 'detailed';
+        if (distance <= lod2) return 'greedy';
+        if (distance <= lod4) return 'lod2';
+        if (distance <= lod8) return 'lod4';
+        return 'lod8';
+    }
+
+    /**
+     * Gets the level of detail a chunk column is meshed at, from its distance to the player's column
+     */
+    public getColumnMeshMode(chunkX: number, chunkZ: number): MeshMode {
+        if (!this.lodCenter) return 'detailed';
+        const dx = chunkX - this.lodCenter.x;
+        const dz = chunkZ - this.lodCenter.z;
+        return this.getMeshMode(Math.sqrt(dx * dx + dz * dz));
+    }
+
+    /**
+     * Marks the meshed horizontal neighbours of a chunk dirty when its level of detail changes, if they
+     * are meshed finer than the old or new level: they cull their border faces against its voxels
+     * (see Chunk.buildPaddedBlocks)
+     */
+    private markFinerNeighboursDirty(chunk: Chunk, oldMode: MeshMode, newMode: MeshMode): void {
+        const scale = Math.max(getLodScale(oldMode), getLodScale(newMode));
+        for (const [dx, dz] of [[1, 0], [-1, 0], [0, 1], [0, -1]]) {
+            const key = this.getChunkKey(chunk.x + dx, chunk.y, chunk.z + dz);
+            const mesh = this.chunkMeshes.get(key);
+            if (mesh && getLodScale(mesh.userData.mode) < scale) {
+                this.chunks.get(key)?.markDirty();
+            }
+        }
+    }
+
+    /**
+     * Gets the queue priority of a chunk from its offset to the player's chunk, closer chunks come first
+     */
+    private getChunkPriority(dx: number, dy: number, dz: number): number {
+        return Math.floor(Math.sqrt(dx * dx + dy * dy + dz * dz) * 10);
+    }
+
+    /**
+     * Gets the bytes of chunk geometry uploaded to the GPU in the last frame, for debugging.
+     * Only new or rebuilt chunk meshes are uploaded, a frame where nothing changed uploads nothing.
+     */
+    public getLastFrameUploadBytes(): number {
+        return this.lastFrameUploadBytes;
+    }
+    
+    /**
+     * Gets the chunk queue usage, for debugging
+     */
+    public getChunkQueueStats(): ChunkQueueStats {
+        return this.chunkQueue.getStats();
+    }
+    
     public updateDirtyChunks(): void {
         // Limit to 1 chunk per frame to prevent performance drops during heavy destruction
         const MAX_CHUNKS_PER_FRAME = 1;
         let processedChunks = 0;
 
         // First pass: collect all dirty chunks and prioritize by distance to player
-        const dirtyChunks: {chunk: Chunk, mode: 'detailed' | 'greedy', priority: number}[] = [];
+        const dirtyChunks: {chunk: Chunk, mode: MeshMode, priority: number}[] = [];
 
         for (const chunk of this.chunks.values()) {
             if (chunk.isDirty) {
@@ -729,24 +1225,6 @@ export class World {
                 chunk.isDirty = true;
             }
         }
-        
-        // If we're in the browser, ensure the scene is marked for update and flag other attributes
-        if (typeof requestAnimationFrame === 'function') {
-            requestAnimationFrame(() => {
-                if (this.scene) {
-                    this.scene.traverse(obj => {
-                        if (obj instanceof THREE.Mesh) {
-                            const geom = obj.geometry as THREE.BufferGeometry | undefined;
-                            if (!geom) return;
-                            if (geom.attributes.position) geom.attributes.position.needsUpdate = true;
-                            if (geom.attributes.normal) geom.attributes.normal.needsUpdate = true;
-                            if (geom.attributes.uv) geom.attributes.uv.needsUpdate = true;
-                            if (geom.index) geom.index.needsUpdate = true;
-                        }
-                    });
-                }
-            });
-        }
     }
     
     public markChunkDirty(chunkX: number, chunkY: number, chunkZ: number): void {
@@ -757,15 +1235,15 @@ export class World {
     }
     
     /**
-     * Gets the shared material for chunk meshes
-     * @param debug Optional flag to get the debug wireframe material
-     * @returns The shared material or null if not loaded yet
+     * Gets the shared materials for chunk meshes, one per render pass: [opaque, translucent]
+     * @param debug Optional flag to get the debug wireframe materials
+     * @returns The shared materials or null if not loaded yet
      */
-    public getMaterial(debug: boolean = false): THREE.Material | null {
+    public getMaterial(debug: boolean = false): THREE.Material[] | null {
         if (debug) {
-            return this.debugMaterial || this.sharedMaterial;
+            return this.debugMaterials || this.chunkMaterials;
         }
-        return this.sharedMaterial;
+        return this.chunkMaterials;
     }
 
     /**
@@ -775,6 +1253,22 @@ export class World {
         return this.workerManager;
     }
 
+    /**
+     * Saves every loaded chunk with unsaved edits and writes them to the backend
+     * @returns A promise that resolves once the backend write finished
+     */
+    public saveAll(): Promise<void> {
+        if (!this.chunkStorage) return Promise.resolve();
+
+        for (const chunk of this.chunks.values()) {
+            if (chunk.isModified) {
+                this.chunkStorage.save(chunk);
+                chunk.isModified = false;
+            }
+        }
+        return this.chunkStorage.flush();
+    }
+
     public dispose(): void {
         // Clean up all chunk meshes
         this.chunkMeshes.forEach(mesh => {
@@ -795,15 +1289,35 @@ export class World {
             this.sharedMaterial = null;
         }
         
+        if (this.translucentMaterial) {
+            this.translucentMaterial.dispose();
+            this.translucentMaterial = null;
+        }
+        
         if (this.debugMaterial) {
             this.debugMaterial.dispose();
             this.debugMaterial = null;
         }
         
+        if (this.blockMaterial) {
+            this.blockMaterial.dispose();
+            this.blockMaterial = null;
+        }
+        this.chunkMaterials = null;
+        this.debugMaterials = null;
+        
         // Clean up worker manager
         this.workerManager.dispose();
         
+        this.chunkQueue.clear();
+        this.lastPlayerChunk = null;
+        this.tickQueue.clear();
+        this.fallingBlocks.forEach(fallingBlock => this.removeFallingBlock(fallingBlock));
+        this.fallingBlocks = [];
+        
         // Clear chunks
         this.chunks.clear();
+        this.columns.clear();
+        this.lastChunk = null;
     }
 }
@@ -0,0 +1,133 @@
+import { BlockType } from '../../blocks/BlockType';
+import { BiomeType } from './BiomeType';
+
+/**
+ * Colour multiplier (r, g, b, 0-1) applied to the vertex colours of tinted block faces
+ */
+export type Tint = readonly [r: number, g: number, b: number];
+
+/**
+ * Which biome colour a tinted block face takes (see BlockDefinition.tint)
+ */
+export type TintType = 'grass' | 'foliage';
+
+/**
+ * Everything world generation and the meshers need to know about a biome
+ */
+export interface BiomeDefinition {
+    id: BiomeType;
+    name: string;
+    /**
+     * Point of the biome on the temperature/humidity map (both -1 to 1). The biome of a column
+     * is the nearest one to its climate. Biomes without one are placed by height (shores, sea bed).
+     */
+    climate?: { temperature: number; humidity: number };
+    /** Top block of a column */
+    surfaceBlock: BlockType;
+    /** Blocks between the surface and the stone */
+    fillerBlock: BlockType;
+    /** Number of filler blocks under the surface */
+    fillerDepth: number;
+    /** Average Y level of the surface (climate biomes only, the others take the height of their surroundings) */
+    baseHeight: number;
+    /** Maximum distance (in blocks) the surface deviates from baseHeight (climate biomes only) */
+    amplitude: number;
+    /** Chance of a column growing a tree (0-1) */
+    vegetationDensity: number;
+    /** Tint of grass tops */
+    grassTint: Tint;
+    /** Tint of leaves */
+    foliageTint: Tint;
+    /** Name shown in the debug overlay */
+    label: string;
+}
+
+/**
+ * Biome definitions, indexed by id. Adding a biome means adding its id to BiomeType and an entry here.
+ */
+const DEFINITIONS: BiomeDefinition[] = [
+    {
+        id: BiomeType.PLAINS, name: 'plains', climate: { temperature: 0, humidity: 0 },
+        surfaceBlock: BlockType.GRASS, fillerBlock: BlockType.DIRT, fillerDepth: 3,
+        baseHeight: 22, amplitude: 8, vegetationDensity: 0.004,
+        grassTint: [1, 1, 1], foliageTint: [1, 1, 1], label: 'Plains'
+    },
+    {
+        id: BiomeType.FOREST, name: 'forest', climate: { temperature: -0.05, humidity: 0.35 },
+        surfaceBlock: BlockType.GRASS, fillerBlock: BlockType.DIRT, fillerDepth: 4,
+        baseHeight: 26, amplitude: 12, vegetationDensity: 0.04,
+        grassTint: [0.78, 0.92, 0.7], foliageTint: [0.72, 0.88, 0.66], label: 'Forest'
+    },
+    {
+        id: BiomeType.DESERT, name: 'desert', climate: { temperature: 0.4, humidity: -0.3 },
+        surfaceBlock: BlockType.SAND, fillerBlock: BlockType.SAND, fillerDepth: 4,
+        baseHeight: 23, amplitude: 5, vegetationDensity: 0,
+        grassTint: [0.95, 0.9, 0.6], foliageTint: [0.92, 0.88, 0.6], label: 'Desert'
+    },
+    {
+        id: BiomeType.SAVANNA, name: 'savanna', climate: { temperature: 0.4, humidity: 0.15 },
+        surfaceBlock: BlockType.GRASS, fillerBlock: BlockType.DIRT, fillerDepth: 3,
+        baseHeight: 25, amplitude: 7, vegetationDensity: 0.006,
+        grassTint: [1, 0.92, 0.6], foliageTint: [0.95, 0.9, 0.62], label: 'Savanna'
+    },
+    {
+        id: BiomeType.MOUNTAINS, name: 'mountains', climate: { temperature: -0.4, humidity: -0.1 },
+        surfaceBlock: BlockType.STONE, fillerBlock: BlockType.STONE, fillerDepth: 0,
+        baseHeight: 40, amplitude: 28, vegetationDensity: 0.002,
+        grassTint: [0.8, 0.9, 0.86], foliageTint: [0.76, 0.88, 0.84], label: 'Mountains'
+    },
+    {
+        id: BiomeType.BEACH, name: 'beach',
+        surfaceBlock: BlockType.SAND, fillerBlock: BlockType.SAND, fillerDepth: 3,
+        baseHeight: 0, amplitude: 0, vegetationDensity: 0,
+        grassTint: [0.95, 0.95, 0.8], foliageTint: [0.95, 0.95, 0.8], label: 'Beach'
+    },
+    {
+        id: BiomeType.OCEAN, name: 'ocean',
+        surfaceBlock: BlockType.SAND, fillerBlock: BlockType.DIRT, fillerDepth: 3,
+        baseHeight: 0, amplitude: 0, vegetationDensity: 0,
+        grassTint: [0.85, 0.95, 0.85], foliageTint: [0.85, 0.95, 0.85], label: 'Ocean'
+    }
+];
+
+/**
+ * Lookup of biome definitions by id. Free of three.js so the mesher workers can use it.
+ */
+export namespace BiomeRegistry {
+    const byId: BiomeDefinition[] = [];
+    for (const definition of DEFINITIONS) {
+        if (byId[definition.id]) {
+            throw new Error(`Duplicate biome id ${definition.id} (${definition.name})`);
+        }
+        byId[definition.id] = definition;
+    }
+
+    /**
+     * Gets the definition of a biome, unknown ids fall back to plains
+     */
+    export function get(id: number): BiomeDefinition {
+        return byId[id] ?? byId[BiomeType.PLAINS];
+    }
+
+    /**
+     * Gets every registered biome, ordered by id
+     */
+    export function all(): BiomeDefinition[] {
+        return byId.filter(definition => definition !== undefined);
+    }
+
+    /**
+     * Gets the biomes placed by climate (the ones with a climate point)
+     */
+    export function withClimate(): BiomeDefinition[] {
+        return all().filter(definition => definition.climate !== undefined);
+    }
+
+    /**
+     * Gets the colour multiplier of a tinted face in a biome
+     */
+    export function getTint(id: number, type: TintType): Tint {
+        const biome = get(id);
+        return type === 'grass' ? biome.grassTint : biome.foliageTint;
+    }
+}
@@ -0,0 +1,14 @@
+/**
+ * Numeric ids of the biomes. Chunks keep one id per block column for the meshers,
+ * which pack it in 3 bits of their merge keys: ids must stay below 8.
+ * Every id needs a definition in BiomeRegistry.
+ */
+export enum BiomeType {
+    PLAINS = 0,     // Grass on dirt, gentle hills (also the default of chunks without a biome map)
+    FOREST = 1,     // Grass on dirt, dense trees
+    DESERT = 2,     // Sand, flat
+    SAVANNA = 3,    // Dry grass on dirt, sparse trees
+    MOUNTAINS = 4,  // Bare stone, high peaks
+    BEACH = 5,      // Sand along the sea shore
+    OCEAN = 6,      // Sand on the sea bed
+}
@@ -0,0 +1,137 @@
+import { BlockType } from '../../blocks/BlockType';
+import { BlockRegistry } from '../../blocks/BlockRegistry';
+import type { BlockUpdateHandler } from '../BlockUpdateHandler';
+import { MAX_FLOW_LEVEL, FALLING_FLAG, getFlowLevel, isFalling, isSource } from './FluidState';
+
+/**
+ * What the fluid simulation needs from the world
+ */
+export interface FluidWorld {
+    getBlock(x: number, y: number, z: number): BlockType | undefined;
+    getBlockMeta(x: number, y: number, z: number): number;
+
+    /**
+     * Sets a block. Changing a block must schedule fluid updates for it and its neighbours.
+     */
+    setBlock(x: number, y: number, z: number, blockType: BlockType, meta?: number): void;
+
+    /**
+     * Whether the chunk holding the block is loaded, fluids don't flow into unloaded space
+     */
+    isBlockLoaded(x: number, y: number, z: number): boolean;
+}
+
+const HORIZONTAL: ReadonlyArray<readonly [number, number]> = [[1, 0], [-1, 0], [0, 1], [0, -1]];
+
+/**
+ * Source and flowing fluid rules.
+ *
+ * Sources stay put. Fluid below anything of the same fluid is falling and full height.
+ * Other flowing blocks take their level from the neighbour feeding them (one more than its level)
+ * and dry up when nothing feeds them any more. Fluids flow down first; sideways only when they
+ * can't go down (sources always spread sideways), up to MAX_FLOW_LEVEL blocks.
+ *
+ * The simulator only reacts to scheduled updates (see TickQueue); every block it sets
+ * schedules its neighbours through the world, so flows advance one step per update.
+ */
+export class FluidSimulator implements BlockUpdateHandler {
+    /** Ticks between two flow steps of water */
+    public static readonly TICK_DELAY = 5;
+
+    public readonly tickDelay = FluidSimulator.TICK_DELAY;
+
+    constructor(private readonly world: FluidWorld) {}
+
+    public handles(blockType: BlockType): boolean {
+        return BlockRegistry.isFluid(blockType);
+    }
+
+    /**
+     * Updates the fluid at a position
+     * @param x World X coordinate
+     * @param y World Y coordinate
+     * @param z World Z coordinate
+     */
+    public update(x: number, y: number, z: number): void {
+        const block = this.world.getBlock(x, y, z);
+        if (block === undefined || !BlockRegistry.isFluid(block)) return;
+        const meta = this.world.getBlockMeta(x, y, z);
+
+        if (!isSource(meta)) {
+            const expected = this.getExpectedState(x, y, z, block);
+            if (expected === null) {
+                this.world.setBlock(x, y, z, BlockType.AIR);
+                return;
+            }
+            if (expected !== meta) {
+                // Spreading waits for the next update, the change schedules it
+                this.world.setBlock(x, y, z, block, expected);
+                return;
+            }
+        }
+
+        this.spread(x, y, z, block, meta);
+    }
+
+    /**
+     * Works out the state a flowing block should have from the blocks feeding it
+     * @returns The metadata, or null if nothing feeds the block any more
+     */
+    private getExpectedState(x: number, y: number, z: number, fluid: BlockType): number | null {
+        if (this.world.getBlock(x, y + 1, z) === fluid) return FALLING_FLAG;
+
+        let level = MAX_FLOW_LEVEL + 1;
+        for (const [dx, dz] of HORIZONTAL) {
+            const nx = x + dx, nz = z + dz;
+            if (this.world.getBlock(nx, y, nz) !== fluid) continue;
+            const neighbourMeta = this.world.getBlockMeta(nx, y, nz);
+            if (!this.spreadsSideways(nx, y, nz, fluid, neighbourMeta)) continue;
+            level = Math.min(level, this.getSpreadLevel(neighbourMeta));
+        }
+        return level <= MAX_FLOW_LEVEL ? level : null;
+    }
+
+    /**
+     * Level of the blocks a fluid spreads into sideways
+     */
+    private getSpreadLevel(meta: number): number {
+        return isFalling(meta) ? 1 : getFlowLevel(meta) + 1;
+    }
+
+    /**
+     * Whether a fluid block feeds its horizontal neighbours: sources always do,
+     * flowing fluid only once it can't fall any further
+     */
+    private spreadsSideways(x: number, y: number, z: number, fluid: BlockType, meta: number): boolean {
+        if (isSource(meta)) return true;
+        const below = this.world.getBlock(x, y - 1, z);
+        if (below === BlockType.AIR) return false;
+        return below !== fluid || isSource(this.world.getBlockMeta(x, y - 1, z));
+    }
+
+    private spread(x: number, y: number, z: number, fluid: BlockType, meta: number): void {
+        if (this.world.isBlockLoaded(x, y - 1, z) && this.world.getBlock(x, y - 1, z) === BlockType.AIR) {
+            this.world.setBlock(x, y - 1, z, fluid, FALLING_FLAG);
+        }
+
+        if (!this.spreadsSideways(x, y, z, fluid, meta)) return;
+        const level = this.getSpreadLevel(meta);
+        if (level > MAX_FLOW_LEVEL) return;
+
+        for (const [dx, dz] of HORIZONTAL) {
+            const nx = x + dx, nz = z + dz;
+            if (!this.world.isBlockLoaded(nx, y, nz)) continue;
+
+            const neighbour = this.world.getBlock(nx, y, nz);
+            if (neighbour === BlockType.AIR) {
+                this.world.setBlock(nx, y, nz, fluid, level);
+            } else if (neighbour === fluid) {
+                // Shallower flowing fluid is raised to this level
+                const neighbourMeta = this.world.getBlockMeta(nx, y, nz);
+                if (!isSource(neighbourMeta) && !isFalling(neighbourMeta) && getFlowLevel(neighbourMeta) > level) {
+                    this.world.setBlock(nx, y, nz, fluid, level);
+                }
+            }
+        }
+    }
+}
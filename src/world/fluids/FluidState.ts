@@ -0,0 +1,37 @@
+/**
+ * Fluid blocks keep their state in the block's metadata byte:
+ * the low 3 bits are the flow level (0 = source, 1-7 = flowing, higher is further from the source)
+ * and bit 3 marks fluid falling from above, which is always drawn at full height.
+ *
+ * Kept free of three.js and world imports so the mesher workers can use it.
+ */
+
+/** Furthest a fluid flows sideways from its source */
+export const MAX_FLOW_LEVEL = 7;
+
+export const FALLING_FLAG = 0x08;
+
+/** Metadata of a source block */
+export const SOURCE_STATE = 0;
+
+export function getFlowLevel(meta: number): number {
+    return meta & 0x07;
+}
+
+export function isFalling(meta: number): boolean {
+    return (meta & FALLING_FLAG) !== 0;
+}
+
+export function isSource(meta: number): boolean {
+    return meta === SOURCE_STATE;
+}
+
+/**
+ * Height of the fluid surface inside its block (0-1)
+ * @param meta Fluid metadata
+ * @param fluidAbove Whether the same fluid is directly above, then the block is full
+ */
+export function getFluidHeight(meta: number, fluidAbove: boolean): number {
+    if (fluidAbove || isFalling(meta)) return 1;
+    return (8 - getFlowLevel(meta)) / 9;
+}
@@ -0,0 +1,243 @@
+/**
+ * Seeded noise utilities used by world generation.
+ * Everything here is deterministic: the same seed always produces the same values.
+ */
+
+/**
+ * Creates a seeded pseudo random number generator (mulberry32)
+ * @param seed 32-bit integer seed
+ * @returns A function returning floats in the range [0, 1)
+ */
+export function createRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+/**
+ * Converts an arbitrary string (e.g. a seed typed by the player) into a 32-bit integer seed
+ * @param value The text to hash
+ * @returns A 32-bit unsigned integer
+ */
+export function hashSeed(value: string): number {
+    // FNV-1a
+    let hash = 0x811C9DC5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+/**
+ * Hashes integer coordinates into a 32-bit seed, e.g. to seed the random features of a single block column
+ * @param seed World seed
+ * @param x Integer X coordinate
+ * @param z Integer Z coordinate
+ * @returns A 32-bit unsigned integer
+ */
+export function hashCoords(seed: number, x: number, z: number): number {
+    let hash = Math.imul(seed ^ 0x9E3779B9, 0x85EBCA6B);
+    hash = Math.imul(hash ^ x, 0xC2B2AE35);
+    hash = Math.imul(hash ^ (hash >>> 16) ^ z, 0x27D4EB2F);
+    hash ^= hash >>> 15;
+    hash = Math.imul(hash, 0x165667B1);
+    return (hash ^ (hash >>> 13)) >>> 0;
+}
+
+// Gradient directions for 2D and 3D simplex noise
+const GRAD3: ReadonlyArray<[number, number, number]> = [
+    [1, 1, 0], [-1, 1, 0], [1, -1, 0], [-1, -1, 0],
+    [1, 0, 1], [-1, 0, 1], [1, 0, -1], [-1, 0, -1],
+    [0, 1, 1], [0, -1, 1], [0, 1, -1], [0, -1, -1]
+];
+
+const F2 = 0.5 * (Math.sqrt(3) - 1);
+const G2 = (3 - Math.sqrt(3)) / 6;
+const F3 = 1 / 3;
+const G3 = 1 / 6;
+
+/**
+ * Seeded simplex noise in 2D and 3D.
+ * Output is roughly in the range [-1, 1].
+ */
+export class SimplexNoise {
+    private perm: Uint8Array;
+    private permMod12: Uint8Array;
+
+    constructor(seed: number) {
+        const random = createRandom(seed);
+        const p = new Uint8Array(256);
+        for (let i = 0; i < 256; i++) p[i] = i;
+
+        // Fisher-Yates shuffle driven by the seed
+        for (let i = 255; i > 0; i--) {
+            const j = Math.floor(random() * (i + 1));
+            const tmp = p[i];
+            p[i] = p[j];
+            p[j] = tmp;
+        }
+
+        this.perm = new Uint8Array(512);
+        this.permMod12 = new Uint8Array(512);
+        for (let i = 0; i < 512; i++) {
+            this.perm[i] = p[i & 255];
+            this.permMod12[i] = this.perm[i] % 12;
+        }
+    }
+
+    /**
+     * Samples 2D simplex noise
+     */
+    public noise2D(xin: number, yin: number): number {
+        const perm = this.perm;
+        const permMod12 = this.permMod12;
+
+        const s = (xin + yin) * F2;
+        const i = Math.floor(xin + s);
+        const j = Math.floor(yin + s);
+        const t = (i + j) * G2;
+        const x0 = xin - (i - t);
+        const y0 = yin - (j - t);
+
+        const i1 = x0 > y0 ? 1 : 0;
+        const j1 = x0 > y0 ? 0 : 1;
+
+        const x1 = x0 - i1 + G2;
+        const y1 = y0 - j1 + G2;
+        const x2 = x0 - 1 + 2 * G2;
+        const y2 = y0 - 1 + 2 * G2;
+
+        const ii = i & 255;
+        const jj = j & 255;
+
+        let n0 = 0, n1 = 0, n2 = 0;
+
+        let t0 = 0.5 - x0 * x0 - y0 * y0;
+        if (t0 >= 0) {
+            const g = GRAD3[permMod12[ii + perm[jj]]];
+            t0 *= t0;
+            n0 = t0 * t0 * (g[0] * x0 + g[1] * y0);
+        }
+
+        let t1 = 0.5 - x1 * x1 - y1 * y1;
+        if (t1 >= 0) {
+            const g = GRAD3[permMod12[ii + i1 + perm[jj + j1]]];
+            t1 *= t1;
+            n1 = t1 * t1 * (g[0] * x1 + g[1] * y1);
+        }
+
+        let t2 = 0.5 - x2 * x2 - y2 * y2;
+        if (t2 >= 0) {
+            const g = GRAD3[permMod12[ii + 1 + perm[jj + 1]]];
+            t2 *= t2;
+            n2 = t2 * t2 * (g[0] * x2 + g[1] * y2);
+        }
+
+        return 70 * (n0 + n1 + n2);
+    }
+
+    /**
+     * Samples 3D simplex noise
+     */
+    public noise3D(xin: number, yin: number, zin: number): number {
+        const perm = this.perm;
+        const permMod12 = this.permMod12;
+
+        const s = (xin + yin + zin) * F3;
+        const i = Math.floor(xin + s);
+        const j = Math.floor(yin + s);
+        const k = Math.floor(zin + s);
+        const t = (i + j + k) * G3;
+        const x0 = xin - (i - t);
+        const y0 = yin - (j - t);
+        const z0 = zin - (k - t);
+
+        // Determine which simplex we are in
+        let i1, j1, k1, i2, j2, k2;
+        if (x0 >= y0) {
+            if (y0 >= z0) { i1 = 1; j1 = 0; k1 = 0; i2 = 1; j2 = 1; k2 = 0; }
+            else if (x0 >= z0) { i1 = 1; j1 = 0; k1 = 0; i2 = 1; j2 = 0; k2 = 1; }
+            else { i1 = 0; j1 = 0; k1 = 1; i2 = 1; j2 = 0; k2 = 1; }
+        } else {
+            if (y0 < z0) { i1 = 0; j1 = 0; k1 = 1; i2 = 0; j2 = 1; k2 = 1; }
+            else if (x0 < z0) { i1 = 0; j1 = 1; k1 = 0; i2 = 0; j2 = 1; k2 = 1; }
+            else { i1 = 0; j1 = 1; k1 = 0; i2 = 1; j2 = 1; k2 = 0; }
+        }
+
+        const x1 = x0 - i1 + G3;
+        const y1 = y0 - j1 + G3;
+        const z1 = z0 - k1 + G3;
+        const x2 = x0 - i2 + 2 * G3;
+        const y2 = y0 - j2 + 2 * G3;
+        const z2 = z0 - k2 + 2 * G3;
+        const x3 = x0 - 1 + 3 * G3;
+        const y3 = y0 - 1 + 3 * G3;
+        const z3 = z0 - 1 + 3 * G3;
+
+        const ii = i & 255;
+        const jj = j & 255;
+        const kk = k & 255;
+
+        let n0 = 0, n1 = 0, n2 = 0, n3 = 0;
+
+        let t0 = 0.6 - x0 * x0 - y0 * y0 - z0 * z0;
+        if (t0 >= 0) {
+            const g = GRAD3[permMod12[ii + perm[jj + perm[kk]]]];
+            t0 *= t0;
+            n0 = t0 * t0 * (g[0] * x0 + g[1] * y0 + g[2] * z0);
+        }
+
+        let t1 = 0.6 - x1 * x1 - y1 * y1 - z1 * z1;
+        if (t1 >= 0) {
+            const g = GRAD3[permMod12[ii + i1 + perm[jj + j1 + perm[kk + k1]]]];
+            t1 *= t1;
+            n1 = t1 * t1 * (g[0] * x1 + g[1] * y1 + g[2] * z1);
+        }
+
+        let t2 = 0.6 - x2 * x2 - y2 * y2 - z2 * z2;
+        if (t2 >= 0) {
+            const g = GRAD3[permMod12[ii + i2 + perm[jj + j2 + perm[kk + k2]]]];
+            t2 *= t2;
+            n2 = t2 * t2 * (g[0] * x2 + g[1] * y2 + g[2] * z2);
+        }
+
+        let t3 = 0.6 - x3 * x3 - y3 * y3 - z3 * z3;
+        if (t3 >= 0) {
+            const g = GRAD3[permMod12[ii + 1 + perm[jj + 1 + perm[kk + 1]]]];
+            t3 *= t3;
+            n3 = t3 * t3 * (g[0] * x3 + g[1] * y3 + g[2] * z3);
+        }
+
+        return 32 * (n0 + n1 + n2 + n3);
+    }
+
+    /**
+     * Fractal (multi-octave) 2D noise, normalized to roughly [-1, 1]
+     * @param x Sample X coordinate (already scaled by the base frequency)
+     * @param y Sample Y coordinate (already scaled by the base frequency)
+     * @param octaves Number of noise layers to sum
+     * @param persistence Amplitude multiplier between octaves
+     * @param lacunarity Frequency multiplier between octaves
+     */
+    public fractal2D(x: number, y: number, octaves: number, persistence = 0.5, lacunarity = 2): number {
+        let total = 0;
+        let amplitude = 1;
+        let frequency = 1;
+        let maxAmplitude = 0;
+
+        for (let i = 0; i < octaves; i++) {
+            total += this.noise2D(x * frequency, y * frequency) * amplitude;
+            maxAmplitude += amplitude;
+            amplitude *= persistence;
+            frequency *= lacunarity;
+        }
+
+        return maxAmplitude > 0 ? total / maxAmplitude : 0;
+    }
+}
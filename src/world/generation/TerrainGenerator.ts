@@ -0,0 +1,393 @@
+import { Chunk } from '../Chunk';
+import { BlockType } from '../../blocks/BlockType';
+import { SimplexNoise, createRandom, hashCoords } from './Noise';
+import type { BlockPlacer } from './structures/Structure';
+import { TreeStructure } from './structures/TreeStructure';
+import { BiomeType } from '../biomes/BiomeType';
+import { BiomeRegistry, type BiomeDefinition } from '../biomes/BiomeRegistry';
+import { columnKey } from '../ChunkKey';
+
+/**
+ * Fills freshly created chunks with blocks.
+ * Implementations must be deterministic for a given seed so that chunks can be
+ * unloaded and regenerated at any time and still match their neighbours.
+ */
+export interface TerrainGenerator {
+    /** Seed the generator was created with */
+    readonly seed: number;
+
+    /**
+     * Writes the terrain for the given chunk using Chunk.fill / Chunk.setBlock
+     * @param chunk The chunk to fill (its x/y/z are chunk coordinates)
+     */
+    generate(chunk: Chunk): void;
+
+    /**
+     * Places the structure blocks (trees...) that land in a chunk: those of the structures rooted in its
+     * own columns and the overhangs of structures rooted around it. Runs after the terrain, and like it
+     * only depends on the chunk's position, so a regenerated chunk gets the same structures back.
+     * @param chunk The chunk to decorate, only read
+     * @param place Receives every structure block inside the chunk, in world coordinates
+     */
+    decorate(chunk: Chunk, place: BlockPlacer): void;
+
+    /**
+     * Gets the Y coordinate of the topmost terrain block for a world column
+     * @param x World X coordinate
+     * @param z World Z coordinate
+     */
+    getSurfaceHeight(x: number, z: number): number;
+
+    /**
+     * Gets the biome of a world column
+     * @param x World X coordinate
+     * @param z World Z coordinate
+     */
+    getBiome(x: number, z: number): BiomeDefinition;
+}
+
+/**
+ * Where and how often an ore appears. Veins are short random walks replacing stone.
+ */
+export interface OreVeinOptions {
+    /** Ore block */
+    block: BlockType;
+    /** Lowest Y a vein can start at */
+    minY: number;
+    /** Highest Y a vein can start at */
+    maxY: number;
+    /** Average number of veins per chunk inside the height range (fractions are rolled per chunk) */
+    veinsPerChunk: number;
+    /** Number of steps of a vein, the most ore blocks it can have */
+    veinSize: number;
+}
+
+/**
+ * Configuration for the noise based terrain generator
+ */
+export interface NoiseTerrainOptions {
+    /** World seed */
+    seed: number;
+    /** Base frequency of the height noise (lower = wider hills) */
+    frequency: number;
+    /** Number of noise octaves summed together */
+    octaves: number;
+    /** Amplitude multiplier between octaves */
+    persistence: number;
+    /** Frequency multiplier between octaves */
+    lacunarity: number;
+    /** Columns whose surface is below this Y are flooded with water up to it */
+    seaLevel: number;
+    /** Frequency of the temperature and humidity noise (lower = larger biomes) */
+    climateFrequency: number;
+    /** How far (in climate units) a biome's height blends into its neighbours, avoids cliffs on biome borders */
+    biomeBlend: number;
+    /** Columns this many blocks around sea level are beaches (below it, the sea bed is ocean) */
+    beachDepth: number;
+    /** Frequency of the cave noise (lower = longer, wider tunnels) */
+    caveFrequency: number;
+    /** Thickness of the cave tunnels as a noise threshold, 0 disables caves */
+    caveThreshold: number;
+    /** Ores placed in the stone, in order (later ores can't replace earlier ones) */
+    ores: OreVeinOptions[];
+}
+
+export const DEFAULT_TERRAIN_OPTIONS: Omit<NoiseTerrainOptions, 'seed'> = {
+    frequency: 0.02,
+    octaves: 4,
+    persistence: 0.5,
+    lacunarity: 2,
+    seaLevel: 20,
+    climateFrequency: 0.004,
+    biomeBlend: 0.25,
+    beachDepth: 2,
+    caveFrequency: 0.035,
+    caveThreshold: 0.12,
+    ores: [
+        { block: BlockType.COAL_ORE, minY: -32, maxY: 64, veinsPerChunk: 8, veinSize: 10 },
+        { block: BlockType.IRON_ORE, minY: -32, maxY: 24, veinsPerChunk: 5, veinSize: 7 },
+        { block: BlockType.GOLD_ORE, minY: -32, maxY: 4, veinsPerChunk: 1.5, veinSize: 6 }
+    ]
+};
+
+/**
+ * Shape and biome of a world column
+ */
+interface ColumnSample {
+    surface: number;
+    biome: BiomeType;
+}
+
+// Climate noise uses its own seeds so it doesn't follow the height noise
+const TEMPERATURE_SEED_OFFSET = 0x5F3759DF;
+const HUMIDITY_SEED_OFFSET = 0x2545F491;
+const CAVE_SEED_OFFSETS = [0x6A09E667, 0x3C6EF372];
+
+// Chunk columns whose tree positions are kept (see getColumnTrees), a bit more than a loaded view
+const TREE_CACHE_COLUMNS = 1024;
+
+// Directions an ore vein can step in
+const VEIN_STEPS: ReadonlyArray<readonly [number, number, number]> = [
+    [1, 0, 0], [-1, 0, 0], [0, 1, 0], [0, -1, 0], [0, 0, 1], [0, 0, -1]
+];
+
+/**
+ * Height-map terrain generator driven by multi-octave simplex noise.
+ * Temperature and humidity noise pick the biome of each column, which sets the surface and filler blocks
+ * on top of the stone and the height of the terrain. Dips below sea level hold still water.
+ * Below the surface, caves are carved where two 3D noise fields are both close to zero (which makes
+ * long winding tunnels, continuous across chunks in every direction) and ore veins are scattered in the stone.
+ * Trees grow on grass, as dense as the biome's vegetation density. Their positions are found once per
+ * chunk column and cached, every chunk of the column and of the columns around it places its part of them.
+ */
+export class NoiseTerrainGenerator implements TerrainGenerator {
+    public readonly seed: number;
+    private readonly options: NoiseTerrainOptions;
+    private readonly heightNoise: SimplexNoise;
+    private readonly temperatureNoise: SimplexNoise;
+    private readonly humidityNoise: SimplexNoise;
+    private readonly caveNoise: [SimplexNoise, SimplexNoise];
+    private readonly climateBiomes = BiomeRegistry.withClimate();
+    private readonly sample: ColumnSample = { surface: 0, biome: BiomeType.PLAINS };
+    private readonly tree = new TreeStructure();
+    // Trees rooted in recently decorated chunk columns, by column key, oldest first
+    private readonly columnTrees: Map<number, number[]> = new Map();
+
+    constructor(options: Partial<NoiseTerrainOptions> = {}) {
+        this.options = {
+            ...DEFAULT_TERRAIN_OPTIONS,
+            ...options,
+            // An explicit `seed: undefined` still means "pick a random seed"
+            seed: options.seed ?? Math.floor(Math.random() * 0xFFFFFFFF)
+        };
+        this.seed = this.options.seed >>> 0;
+        this.heightNoise = new SimplexNoise(this.seed);
+        this.temperatureNoise = new SimplexNoise((this.seed + TEMPERATURE_SEED_OFFSET) >>> 0);
+        this.humidityNoise = new SimplexNoise((this.seed + HUMIDITY_SEED_OFFSET) >>> 0);
+        this.caveNoise = [
+            new SimplexNoise((this.seed + CAVE_SEED_OFFSETS[0]) >>> 0),
+            new SimplexNoise((this.seed + CAVE_SEED_OFFSETS[1]) >>> 0)
+        ];
+    }
+
+    public getSurfaceHeight(x: number, z: number): number {
+        return this.sampleColumn(x, z).surface;
+    }
+
+    public getBiome(x: number, z: number): BiomeDefinition {
+        return BiomeRegistry.get(this.sampleColumn(x, z).biome);
+    }
+
+    /**
+     * Works out the surface height and biome of a column.
+     * The height parameters of the climate biomes are blended by how close the column's climate is
+     * to each of them, so the terrain changes smoothly between biomes. The closest one is the column's
+     * biome, unless the surface ends up at the shore or under the sea.
+     * @returns A shared sample, overwritten by the next call
+     */
+    private sampleColumn(x: number, z: number): ColumnSample {
+        const { frequency, octaves, persistence, lacunarity, climateFrequency, biomeBlend, seaLevel, beachDepth } = this.options;
+        const temperature = this.temperatureNoise.fractal2D(x * climateFrequency, z * climateFrequency, 2);
+        const humidity = this.humidityNoise.fractal2D(x * climateFrequency, z * climateFrequency, 2);
+
+        let totalWeight = 0, baseHeight = 0, amplitude = 0;
+        let closest = this.climateBiomes[0], closestDistance = Infinity;
+        for (const biome of this.climateBiomes) {
+            const dt = temperature - biome.climate!.temperature;
+            const dh = humidity - biome.climate!.humidity;
+            const distance = dt * dt + dh * dh;
+            const weight = Math.exp(-distance / (biomeBlend * biomeBlend));
+            totalWeight += weight;
+            baseHeight += biome.baseHeight * weight;
+            amplitude += biome.amplitude * weight;
+            if (distance < closestDistance) {
+                closestDistance = distance;
+                closest = biome;
+            }
+        }
+        if (totalWeight > 0) {
+            baseHeight /= totalWeight;
+            amplitude /= totalWeight;
+        } else {
+            // Far from every biome, all weights underflowed
+            baseHeight = closest.baseHeight;
+            amplitude = closest.amplitude;
+        }
+
+        const n = this.heightNoise.fractal2D(x * frequency, z * frequency, octaves, persistence, lacunarity);
+        const surface = Math.floor(baseHeight + n * amplitude);
+
+        this.sample.surface = surface;
+        if (surface < seaLevel - beachDepth) {
+            this.sample.biome = BiomeType.OCEAN;
+        } else if (surface <= seaLevel && closest.id !== BiomeType.MOUNTAINS) {
+            this.sample.biome = BiomeType.BEACH;
+        } else {
+            this.sample.biome = closest.id;
+        }
+        return this.sample;
+    }
+
+    public generate(chunk: Chunk): void {
+        const baseX = chunk.x * Chunk.SIZE;
+        const baseY = chunk.y * Chunk.HEIGHT;
+        const baseZ = chunk.z * Chunk.SIZE;
+        const { seaLevel } = this.options;
+        // Chunk-local surface Y of every column, ores stay below it
+        const surfaces = new Int32Array(Chunk.SIZE * Chunk.SIZE);
+
+        for (let z = 0; z < Chunk.SIZE; z++) {
+            for (let x = 0; x < Chunk.SIZE; x++) {
+                const column = this.sampleColumn(baseX + x, baseZ + z);
+                const biome = BiomeRegistry.get(column.biome);
+                // Surface height converted to chunk-local Y
+                const surface = column.surface - baseY;
+                surfaces[x + z * Chunk.SIZE] = surface;
+                if (column.surface < seaLevel) {
+                    // Water sources at rest, they only start flowing once a neighbour changes
+                    chunk.fill(x, surface + 1, z, x, seaLevel - baseY, z, BlockType.WATER);
+                }
+                if (surface < 0) continue; // Whole column is above the terrain
+
+                const fillerTop = surface - 1;
+                const stoneTop = surface - 1 - biome.fillerDepth;
+
+                // Chunk.fill clamps to the chunk bounds, so ranges may extend outside of it
+                if (stoneTop >= 0) {
+                    chunk.fill(x, 0, z, x, stoneTop, z, BlockType.STONE);
+                }
+                if (fillerTop >= 0 && biome.fillerDepth > 0) {
+                    chunk.fill(x, Math.max(0, stoneTop + 1), z, x, fillerTop, z, biome.fillerBlock);
+                }
+                if (surface < Chunk.HEIGHT) {
+                    chunk.setBlock(x, surface, z, biome.surfaceBlock);
+                }
+
+                // The surface block itself is kept, so trees and water always have ground under them
+                const caveTop = Math.min(surface - 1, Chunk.HEIGHT - 1);
+                for (let y = 0; y <= caveTop; y++) {
+                    if (this.isCave(baseX + x, baseY + y, baseZ + z)) {
+                        chunk.setBlock(x, y, z, BlockType.AIR);
+                    }
+                }
+            }
+        }
+
+        this.options.ores.forEach((ore, index) => this.placeOre(chunk, ore, index, surfaces));
+    }
+
+    /**
+     * Checks whether a block below the surface is carved out by a cave
+     */
+    private isCave(x: number, y: number, z: number): boolean {
+        const { caveFrequency, caveThreshold } = this.options;
+        if (caveThreshold <= 0) return false;
+        // Squashing Y makes the tunnels run more horizontally than vertically
+        const a = this.caveNoise[0].noise3D(x * caveFrequency, y * caveFrequency * 1.6, z * caveFrequency);
+        if (Math.abs(a) >= caveThreshold) return false;
+        const b = this.caveNoise[1].noise3D(x * caveFrequency, y * caveFrequency * 1.6, z * caveFrequency);
+        return a * a + b * b < caveThreshold * caveThreshold;
+    }
+
+    /**
+     * Scatters the veins of an ore in a chunk's stone. Veins stay inside the chunk,
+     * seeded by the chunk position so every chunk can be generated on its own.
+     * @param surfaces Chunk-local surface Y of each column (bare stone surfaces are left as stone)
+     */
+    private placeOre(chunk: Chunk, ore: OreVeinOptions, index: number, surfaces: Int32Array): void {
+        const baseY = chunk.y * Chunk.HEIGHT;
+        const minY = Math.max(ore.minY, baseY) - baseY;
+        const maxY = Math.min(ore.maxY, baseY + Chunk.HEIGHT - 1) - baseY;
+        if (minY > maxY) return;
+
+        const random = createRandom(hashCoords(hashCoords(this.seed, chunk.x, chunk.z), chunk.y, index));
+        // Chunks only partly inside the height range get a share of the veins
+        const share = (maxY - minY + 1) / Chunk.HEIGHT;
+        const expected = ore.veinsPerChunk * share;
+        const veins = Math.floor(expected) + (random() < expected % 1 ? 1 : 0);
+
+        for (let vein = 0; vein < veins; vein++) {
+            let x = Math.floor(random() * Chunk.SIZE);
+            let y = minY + Math.floor(random() * (maxY - minY + 1));
+            let z = Math.floor(random() * Chunk.SIZE);
+            for (let step = 0; step < ore.veinSize; step++) {
+                if (y < surfaces[x + z * Chunk.SIZE] && chunk.getBlock(x, y, z) === BlockType.STONE) {
+                    chunk.setBlock(x, y, z, ore.block);
+                }
+                const [dx, dy, dz] = VEIN_STEPS[Math.floor(random() * VEIN_STEPS.length)];
+                x = Math.min(Chunk.SIZE - 1, Math.max(0, x + dx));
+                y = Math.min(maxY, Math.max(minY, y + dy));
+                z = Math.min(Chunk.SIZE - 1, Math.max(0, z + dz));
+            }
+        }
+    }
+
+    public decorate(chunk: Chunk, place: BlockPlacer): void {
+        const baseX = chunk.x * Chunk.SIZE;
+        const baseY = chunk.y * Chunk.HEIGHT;
+        const baseZ = chunk.z * Chunk.SIZE;
+        const reach = TreeStructure.RADIUS;
+
+        // Trees are rebuilt whole from their column's seed and only their blocks inside the chunk are kept
+        const placeInChunk: BlockPlacer = (x, y, z, blockType) => {
+            if (x < baseX || x >= baseX + Chunk.SIZE || z < baseZ || z >= baseZ + Chunk.SIZE) return;
+            if (y < baseY || y >= baseY + Chunk.HEIGHT) return;
+            place(x, y, z, blockType);
+        };
+
+        // Trees reach less than a chunk, so only the columns next to this one can overhang into it
+        for (let dz = -1; dz <= 1; dz++) {
+            for (let dx = -1; dx <= 1; dx++) {
+                const trees = this.getColumnTrees(chunk.x + dx, chunk.z + dz);
+                for (let i = 0; i < trees.length; i += 3) {
+                    const x = trees[i], bottom = trees[i + 1], z = trees[i + 2];
+                    if (x < baseX - reach || x >= baseX + Chunk.SIZE + reach || z < baseZ - reach || z >= baseZ + Chunk.SIZE + reach) continue;
+                    if (bottom >= baseY + Chunk.HEIGHT || bottom + TreeStructure.MAX_HEIGHT <= baseY) continue;
+
+                    // Same random sequence as when the tree was found, past the vegetation roll
+                    const random = createRandom(hashCoords(this.seed, x, z));
+                    random();
+                    this.tree.place(x, bottom, z, random, placeInChunk);
+                }
+            }
+        }
+    }
+
+    /**
+     * Finds the trees rooted in a chunk column, at every height. Sampling the columns is the costly part
+     * of decorating, so the result is cached for the next chunks of the column and of its neighbours.
+     * @returns Flat [x, bottom y, z, ...] array, the bottom being the first block above the ground
+     */
+    private getColumnTrees(chunkX: number, chunkZ: number): number[] {
+        const key = columnKey(chunkX, chunkZ);
+        let trees = this.columnTrees.get(key);
+        if (trees) {
+            // Move it to the back, the least recently used columns go first
+            this.columnTrees.delete(key);
+            this.columnTrees.set(key, trees);
+            return trees;
+        }
+
+        trees = [];
+        const baseX = chunkX * Chunk.SIZE;
+        const baseZ = chunkZ * Chunk.SIZE;
+        for (let z = baseZ; z < baseZ + Chunk.SIZE; z++) {
+            for (let x = baseX; x < baseX + Chunk.SIZE; x++) {
+                const column = this.sampleColumn(x, z);
+                const biome = BiomeRegistry.get(column.biome);
+                if (biome.surfaceBlock !== BlockType.GRASS) continue;
+
+                const random = createRandom(hashCoords(this.seed, x, z));
+                if (random() < biome.vegetationDensity) {
+                    trees.push(x, column.surface + 1, z);
+                }
+            }
+        }
+
+        this.columnTrees.set(key, trees);
+        if (this.columnTrees.size > TREE_CACHE_COLUMNS) {
+            this.columnTrees.delete(this.columnTrees.keys().next().value!);
+        }
+        return trees;
+    }
+}
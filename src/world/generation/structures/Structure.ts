@@ -0,0 +1,43 @@
+import { BlockType } from '../../../blocks/BlockType';
+
+/**
+ * Receives the blocks of a structure, in world coordinates. The blocks may land outside
+ * the chunk being decorated, the world takes care of getting them into the right chunk.
+ */
+export type BlockPlacer = (x: number, y: number, z: number, blockType: BlockType) => void;
+
+/**
+ * A multi-block feature placed on top of the terrain by the decoration pass (trees, rocks...)
+ */
+export interface Structure {
+    /**
+     * Places the structure. Must only depend on the position and the random values,
+     * so the same seed always builds the same structure.
+     * @param x World X coordinate of the structure's origin
+     * @param y World Y coordinate of the structure's origin (the first block above the ground)
+     * @param z World Z coordinate of the structure's origin
+     * @param random Seeded random number generator of the structure's column
+     * @param place Receives every block of the structure
+     */
+    place(x: number, y: number, z: number, random: () => number, place: BlockPlacer): void;
+}
+
+// Blocks structures may overwrite, and what they can be replaced with
+const DECORATION_PRIORITY: Partial<Record<BlockType, number>> = {
+    [BlockType.AIR]: 0,
+    [BlockType.LEAVES]: 1,
+    [BlockType.WOOD]: 2
+};
+
+/**
+ * Checks whether a structure block replaces the block already there.
+ * Structures only grow into air, and trunks through leaves. Because the stronger block always wins,
+ * overlapping structures end up the same whichever is placed first, which keeps the world
+ * independent of the order chunks are generated in.
+ */
+export function canPlaceStructureBlock(existing: BlockType | undefined, blockType: BlockType): boolean {
+    if (existing === undefined) return false;
+    const existingPriority = DECORATION_PRIORITY[existing];
+    const newPriority = DECORATION_PRIORITY[blockType];
+    return existingPriority !== undefined && newPriority !== undefined && newPriority > existingPriority;
+}
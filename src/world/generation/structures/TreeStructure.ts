@@ -0,0 +1,38 @@
+import { BlockType } from '../../../blocks/BlockType';
+import type { BlockPlacer, Structure } from './Structure';
+
+/**
+ * A small tree: a wooden trunk with a blob of leaves around its top.
+ * The leaves reach 2 blocks out from the trunk, so trees near a chunk border overhang into the neighbour.
+ */
+export class TreeStructure implements Structure {
+    public static readonly MIN_TRUNK_HEIGHT = 4;
+    public static readonly MAX_TRUNK_HEIGHT = 6;
+    /** Farthest a block reaches horizontally from the trunk */
+    public static readonly RADIUS = 2;
+    /** Most blocks a tree spans vertically, from the bottom of the trunk to the top of the crown */
+    public static readonly MAX_HEIGHT = TreeStructure.MAX_TRUNK_HEIGHT + 2;
+
+    public place(x: number, y: number, z: number, random: () => number, place: BlockPlacer): void {
+        const range = TreeStructure.MAX_TRUNK_HEIGHT - TreeStructure.MIN_TRUNK_HEIGHT + 1;
+        const trunkHeight = TreeStructure.MIN_TRUNK_HEIGHT + Math.floor(random() * range);
+        const top = y + trunkHeight; // First block above the trunk
+
+        // Two wide layers around the upper trunk, then two narrow ones closing the crown
+        for (let layerY = top - 2; layerY <= top + 1; layerY++) {
+            const radius = layerY < top ? 2 : 1;
+            for (let dz = -radius; dz <= radius; dz++) {
+                for (let dx = -radius; dx <= radius; dx++) {
+                    const corner = Math.abs(dx) === radius && Math.abs(dz) === radius;
+                    // Corners are trimmed at random on the wide layers and always on the top one
+                    if (corner && (layerY === top + 1 || random() < 0.5)) continue;
+                    place(x + dx, layerY, z + dz, BlockType.LEAVES);
+                }
+            }
+        }
+
+        for (let trunkY = y; trunkY < top; trunkY++) {
+            place(x, trunkY, z, BlockType.WOOD);
+        }
+    }
+}
@@ -0,0 +1,154 @@
+import * as THREE from 'three';
+import { BlockType } from '../../blocks/BlockType';
+import { BlockRegistry } from '../../blocks/BlockRegistry';
+import { TextureAtlas } from '../TextureAtlas';
+
+/**
+ * What a falling block needs from the world
+ */
+export interface FallingBlockWorld {
+    getBlock(x: number, y: number, z: number): BlockType | undefined;
+    setBlock(x: number, y: number, z: number, blockType: BlockType): void;
+    isBlockLoaded(x: number, y: number, z: number): boolean;
+}
+
+// BoxGeometry face order: +X, -X, +Y, -Y, +Z, -Z
+const BOX_FACES = ['side', 'side', 'top', 'bottom', 'side', 'side'];
+
+/**
+ * A gravity-affected block on its way down (see GravityBlocks).
+ * It moves straight down, one step per game tick, and turns back into a block
+ * on top of the first solid block it hits. Above unloaded space it waits for it to load.
+ */
+export class FallingBlock {
+    public static readonly GRAVITY = 20; // blocks/s², same as the player
+    public static readonly MAX_SPEED = 40; // blocks/s
+    public static readonly MAX_AGE = 600; // ticks spent falling, the block stops where it is if it hasn't landed by then
+
+    // Height of the block's bottom, before and after the last tick (the mesh interpolates between both)
+    private y: number;
+    private previousY: number;
+    private velocity = 0;
+    private age = 0;
+    private mesh: THREE.Mesh | null = null;
+    private brightness = -1;
+
+    /**
+     * @param x World X coordinate of the block column
+     * @param y World Y coordinate the block starts falling from
+     * @param z World Z coordinate of the block column
+     * @param blockType Block placed when it lands
+     */
+    constructor(public readonly x: number, y: number, public readonly z: number, public readonly blockType: BlockType) {
+        this.y = y;
+        this.previousY = y;
+    }
+
+    /**
+     * Current height of the block's bottom
+     */
+    public get height(): number {
+        return this.y;
+    }
+
+    /**
+     * Moves the block one game tick
+     * @param world World to collide with and land in
+     * @param deltaTime Length of a tick in seconds
+     * @returns false once the block has been placed and the entity can be removed
+     */
+    public tick(world: FallingBlockWorld, deltaTime: number): boolean {
+        this.previousY = this.y;
+
+        this.velocity = Math.min(this.velocity + FallingBlock.GRAVITY * deltaTime, FallingBlock.MAX_SPEED);
+        const targetY = this.y - this.velocity * deltaTime;
+
+        // Check every cell the bottom passes through, fast blocks cross several per tick
+        for (let cellY = Math.ceil(this.y) - 1; cellY >= Math.floor(targetY); cellY--) {
+            if (!world.isBlockLoaded(this.x, cellY, this.z)) {
+                // Wait above unloaded space until it loads, waiting doesn't count towards MAX_AGE
+                this.y = cellY + 1;
+                this.velocity = 0;
+                return true;
+            }
+            if (BlockRegistry.isSolid(world.getBlock(this.x, cellY, this.z))) {
+                this.land(world, cellY + 1);
+                return false;
+            }
+        }
+
+        this.y = targetY;
+
+        // Falling too long through loaded space (a very deep shaft), place the block in the cell it's in
+        if (++this.age >= FallingBlock.MAX_AGE) {
+            this.land(world, Math.floor(this.y));
+            return false;
+        }
+        return true;
+    }
+
+    /**
+     * Places the block where it landed. If something solid took the spot meanwhile the block is lost.
+     */
+    private land(world: FallingBlockWorld, y: number): void {
+        this.y = y;
+        if (!BlockRegistry.isSolid(world.getBlock(this.x, y, this.z))) {
+            world.setBlock(this.x, y, this.z, this.blockType);
+        }
+    }
+
+    /**
+     * Creates the textured cube drawn for the block
+     * @param material Block material, textured with the atlas and using vertex colours
+     */
+    public createMesh(material: THREE.Material): THREE.Mesh {
+        const geometry = new THREE.BoxGeometry(1, 1, 1);
+        const uvs = geometry.getAttribute('uv') as THREE.BufferAttribute;
+        const bounds: TextureAtlas.TileBounds = { u0: 0, v0: 0, u1: 0, v1: 0 };
+        for (let face = 0; face < BOX_FACES.length; face++) {
+            TextureAtlas.getTileBounds(this.blockType, BOX_FACES[face], bounds);
+            for (let i = face * 4; i < face * 4 + 4; i++) {
+                uvs.setXY(i,
+                    bounds.u0 + uvs.getX(i) * (bounds.u1 - bounds.u0),
+                    bounds.v0 + uvs.getY(i) * (bounds.v1 - bounds.v0));
+            }
+        }
+        geometry.setAttribute('color', new THREE.BufferAttribute(new Float32Array(uvs.count * 3).fill(1), 3));
+
+        this.mesh = new THREE.Mesh(geometry, material);
+        this.mesh.position.set(this.x + 0.5, this.y + 0.5, this.z + 0.5);
+        return this.mesh;
+    }
+
+    /**
+     * Moves the mesh between the last two tick positions and updates its light
+     * @param alpha Progress towards the next tick (0-1)
+     * @param brightness Vertex colour multiplier at the block's position
+     */
+    public updateMesh(alpha: number, brightness: number): void {
+        if (!this.mesh) return;
+        this.mesh.position.y = this.previousY + (this.y - this.previousY) * alpha + 0.5;
+
+        if (brightness !== this.brightness) {
+            this.brightness = brightness;
+            const colors = this.mesh.geometry.getAttribute('color') as THREE.BufferAttribute;
+            (colors.array as Float32Array).fill(brightness);
+            colors.needsUpdate = true;
+        }
+    }
+
+    /**
+     * Gets the mesh, if one was created
+     */
+    public getMesh(): THREE.Mesh | null {
+        return this.mesh;
+    }
+
+    /**
+     * Disposes of the mesh geometry (the material is shared)
+     */
+    public dispose(): void {
+        this.mesh?.geometry.dispose();
+        this.mesh = null;
+    }
+}
@@ -0,0 +1,43 @@
+import { BlockType } from '../../blocks/BlockType';
+import { BlockRegistry } from '../../blocks/BlockRegistry';
+import type { BlockUpdateHandler } from '../BlockUpdateHandler';
+
+/**
+ * What the gravity rule needs from the world
+ */
+export interface GravityWorld {
+    getBlock(x: number, y: number, z: number): BlockType | undefined;
+    setBlock(x: number, y: number, z: number, blockType: BlockType): void;
+    isBlockLoaded(x: number, y: number, z: number): boolean;
+
+    /**
+     * Starts a falling block entity at the position of the block that was just removed
+     */
+    spawnFallingBlock(x: number, y: number, z: number, blockType: BlockType): void;
+}
+
+/**
+ * Makes gravity-affected blocks (BlockDefinition.gravity) fall when the block below
+ * isn't solid: the block is removed and continues as a FallingBlock entity.
+ */
+export class GravityBlocks implements BlockUpdateHandler {
+    public readonly tickDelay = 2;
+
+    constructor(private readonly world: GravityWorld) {}
+
+    public handles(blockType: BlockType): boolean {
+        return BlockRegistry.hasGravity(blockType);
+    }
+
+    public update(x: number, y: number, z: number): void {
+        const block = this.world.getBlock(x, y, z);
+        if (block === undefined || !BlockRegistry.hasGravity(block)) return;
+
+        // Unloaded space below holds the block until it loads
+        if (!this.world.isBlockLoaded(x, y - 1, z)) return;
+        if (BlockRegistry.isSolid(this.world.getBlock(x, y - 1, z))) return;
+
+        this.world.setBlock(x, y, z, BlockType.AIR);
+        this.world.spawnFallingBlock(x, y, z, block);
+    }
+}
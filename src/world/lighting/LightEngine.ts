@@ -0,0 +1,289 @@
+import { Chunk } from '../Chunk';
+import { BlockType } from '../../blocks/BlockType';
+import { BlockRegistry } from '../../blocks/BlockRegistry';
+import { MAX_LIGHT, getSunLight, getBlockLight, packLight } from './LightLevels';
+
+/**
+ * What the light engine needs from the world
+ */
+export interface LightWorld {
+    getChunk(chunkX: number, chunkY: number, chunkZ: number): Chunk | undefined;
+
+    /**
+     * Whether sunlight reaches the given block from the sky, used when the chunks above aren't loaded
+     */
+    isSkyExposed(x: number, y: number, z: number): boolean;
+}
+
+type Channel = 'sun' | 'block';
+
+// Neighbour offsets; index 3 is straight down, where full sunlight travels without dimming
+const DIRECTIONS: ReadonlyArray<readonly [number, number, number]> = [
+    [1, 0, 0], [-1, 0, 0], [0, 1, 0], [0, -1, 0], [0, 0, 1], [0, 0, -1]
+];
+const DOWN = 3;
+
+/**
+ * Flood-fill lighting.
+ *
+ * Sunlight enters from the top of the world and goes straight down through see-through blocks
+ * at full strength, losing one level per block when it spreads in any other direction.
+ * Block light spreads from emissive blocks losing one level per block.
+ * Light only travels through loaded chunks; new chunks pull light in from their neighbours.
+ *
+ * Queues hold world coordinates as flat [x, y, z, ...] arrays.
+ */
+export class LightEngine {
+    private addQueue: number[] = [];
+    private removeQueue: number[] = []; // [x, y, z, level, ...]
+    private changedChunks: Set<Chunk> = new Set();
+
+    constructor(private readonly world: LightWorld) {}
+
+    private getChunkAt(x: number, y: number, z: number): Chunk | undefined {
+        return this.world.getChunk(
+            Math.floor(x / Chunk.SIZE),
+            Math.floor(y / Chunk.HEIGHT),
+            Math.floor(z / Chunk.SIZE)
+        );
+    }
+
+    private getLevel(chunk: Chunk, x: number, y: number, z: number, channel: Channel): number {
+        const packed = chunk.getLight(x - chunk.x * Chunk.SIZE, y - chunk.y * Chunk.HEIGHT, z - chunk.z * Chunk.SIZE);
+        return channel === 'sun' ? getSunLight(packed) : getBlockLight(packed);
+    }
+
+    private setLevel(chunk: Chunk, x: number, y: number, z: number, channel: Channel, level: number): void {
+        const lx = x - chunk.x * Chunk.SIZE;
+        const ly = y - chunk.y * Chunk.HEIGHT;
+        const lz = z - chunk.z * Chunk.SIZE;
+        const packed = chunk.getLight(lx, ly, lz);
+        chunk.setLight(lx, ly, lz, channel === 'sun'
+            ? packLight(level, getBlockLight(packed))
+            : packLight(getSunLight(packed), level));
+
+        this.changedChunks.add(chunk);
+        // Neighbouring chunks read border light when they are meshed
+        if (lx === 0) this.markChanged(chunk.x - 1, chunk.y, chunk.z);
+        if (lx === Chunk.SIZE - 1) this.markChanged(chunk.x + 1, chunk.y, chunk.z);
+        if (ly === 0) this.markChanged(chunk.x, chunk.y - 1, chunk.z);
+        if (ly === Chunk.HEIGHT - 1) this.markChanged(chunk.x, chunk.y + 1, chunk.z);
+        if (lz === 0) this.markChanged(chunk.x, chunk.y, chunk.z - 1);
+        if (lz === Chunk.SIZE - 1) this.markChanged(chunk.x, chunk.y, chunk.z + 1);
+    }
+
+    private markChanged(chunkX: number, chunkY: number, chunkZ: number): void {
+        const chunk = this.world.getChunk(chunkX, chunkY, chunkZ);
+        if (chunk) this.changedChunks.add(chunk);
+    }
+
+    /**
+     * Marks every chunk whose light changed as needing a new mesh
+     * @param except Chunk that is being lit for the first time (it is dirty already)
+     */
+    private flushChanges(except?: Chunk): void {
+        for (const chunk of this.changedChunks) {
+            if (chunk !== except) chunk.markDirty();
+        }
+        this.changedChunks.clear();
+    }
+
+    /**
+     * Computes the light of a newly loaded chunk and spreads it to (and from) its loaded neighbours
+     */
+    public initializeChunk(chunk: Chunk): void {
+        const baseX = chunk.x * Chunk.SIZE;
+        const baseY = chunk.y * Chunk.HEIGHT;
+        const baseZ = chunk.z * Chunk.SIZE;
+        const above = this.world.getChunk(chunk.x, chunk.y + 1, chunk.z);
+
+        // Sunlight columns: straight down from whatever is above the chunk
+        for (let z = 0; z < Chunk.SIZE; z++) {
+            for (let x = 0; x < Chunk.SIZE; x++) {
+                let sun = above
+                    ? getSunLight(above.getLight(x, 0, z))
+                    : (this.world.isSkyExposed(baseX + x, baseY + Chunk.HEIGHT, baseZ + z) ? MAX_LIGHT : 0);
+                if (sun < MAX_LIGHT) sun = 0; // dimmed light spreads sideways, picked up by the flood fill below
+
+                for (let y = Chunk.HEIGHT - 1; y >= 0; y--) {
+                    const block = chunk.getBlock(x, y, z);
+                    if (!BlockRegistry.isTransparent(block)) sun = 0;
+                    const emission = BlockRegistry.getEmission(block);
+                    chunk.setLight(x, y, z, packLight(sun, emission));
+                    if (sun > 1) this.addQueue.push(baseX + x, baseY + y, baseZ + z);
+                }
+            }
+        }
+        this.propagate('sun');
+
+        // Pull sunlight in from the neighbours' borders
+        this.queueNeighbourBorders(chunk, 'sun');
+        this.propagate('sun');
+
+        // Block light from emitters inside the chunk and from the neighbours
+        for (let y = 0; y < Chunk.HEIGHT; y++) {
+            for (let z = 0; z < Chunk.SIZE; z++) {
+                for (let x = 0; x < Chunk.SIZE; x++) {
+                    if (getBlockLight(chunk.getLight(x, y, z)) > 1) {
+                        this.addQueue.push(baseX + x, baseY + y, baseZ + z);
+                    }
+                }
+            }
+        }
+        this.queueNeighbourBorders(chunk, 'block');
+        this.propagate('block');
+
+        this.flushChanges(chunk);
+    }
+
+    /**
+     * Queues the lit blocks of the loaded neighbours that touch the chunk
+     */
+    private queueNeighbourBorders(chunk: Chunk, channel: Channel): void {
+        const baseX = chunk.x * Chunk.SIZE;
+        const baseY = chunk.y * Chunk.HEIGHT;
+        const baseZ = chunk.z * Chunk.SIZE;
+
+        const queueLayer = (
+            x0: number, x1: number, y0: number, y1: number, z0: number, z1: number
+        ) => {
+            const neighbour = this.getChunkAt(x0, y0, z0);
+            if (!neighbour) return;
+            for (let y = y0; y <= y1; y++) {
+                for (let z = z0; z <= z1; z++) {
+                    for (let x = x0; x <= x1; x++) {
+                        if (this.getLevel(neighbour, x, y, z, channel) > 1) this.addQueue.push(x, y, z);
+                    }
+                }
+            }
+        };
+
+        const maxX = baseX + Chunk.SIZE - 1;
+        const maxY = baseY + Chunk.HEIGHT - 1;
+        const maxZ = baseZ + Chunk.SIZE - 1;
+        queueLayer(baseX - 1, baseX - 1, baseY, maxY, baseZ, maxZ);
+        queueLayer(maxX + 1, maxX + 1, baseY, maxY, baseZ, maxZ);
+        queueLayer(baseX, maxX, baseY - 1, baseY - 1, baseZ, maxZ);
+        queueLayer(baseX, maxX, maxY + 1, maxY + 1, baseZ, maxZ);
+        queueLayer(baseX, maxX, baseY, maxY, baseZ - 1, baseZ - 1);
+        queueLayer(baseX, maxX, baseY, maxY, maxZ + 1, maxZ + 1);
+    }
+
+    /**
+     * Updates the light around a block that changed. Must be called after the block was set.
+     * @param x World X coordinate
+     * @param y World Y coordinate
+     * @param z World Z coordinate
+     * @param oldBlock The block that was there before
+     * @param newBlock The block that is there now
+     */
+    public onBlockChanged(x: number, y: number, z: number, oldBlock: BlockType, newBlock: BlockType): void {
+        const chunk = this.getChunkAt(x, y, z);
+        if (!chunk) return;
+
+        const opaque = !BlockRegistry.isTransparent(newBlock);
+
+        // Block light: drop what was here, then re-light from the emitter and the neighbours
+        const oldBlockLight = this.getLevel(chunk, x, y, z, 'block');
+        const emission = BlockRegistry.getEmission(newBlock);
+        if (oldBlockLight > 0 && (opaque || BlockRegistry.getEmission(oldBlock) > 0)) {
+            this.setLevel(chunk, x, y, z, 'block', 0);
+            this.removeQueue.push(x, y, z, oldBlockLight);
+            this.unpropagate('block');
+        }
+        if (emission > 0) {
+            this.setLevel(chunk, x, y, z, 'block', emission);
+            this.addQueue.push(x, y, z);
+        }
+        if (!opaque) this.queueNeighbours(x, y, z, 'block');
+        this.propagate('block');
+
+        // Sunlight: an opaque block casts a shadow, a see-through one lets light back in
+        const oldSun = this.getLevel(chunk, x, y, z, 'sun');
+        if (opaque) {
+            if (oldSun > 0) {
+                this.setLevel(chunk, x, y, z, 'sun', 0);
+                this.removeQueue.push(x, y, z, oldSun);
+                this.unpropagate('sun');
+            }
+        } else {
+            if (!this.getChunkAt(x, y + 1, z) && this.world.isSkyExposed(x, y + 1, z)) {
+                this.setLevel(chunk, x, y, z, 'sun', MAX_LIGHT);
+                this.addQueue.push(x, y, z);
+            }
+            this.queueNeighbours(x, y, z, 'sun');
+        }
+        this.propagate('sun');
+
+        this.flushChanges();
+    }
+
+    private queueNeighbours(x: number, y: number, z: number, channel: Channel): void {
+        for (const [dx, dy, dz] of DIRECTIONS) {
+            const chunk = this.getChunkAt(x + dx, y + dy, z + dz);
+            if (chunk && this.getLevel(chunk, x + dx, y + dy, z + dz, channel) > 0) {
+                this.addQueue.push(x + dx, y + dy, z + dz);
+            }
+        }
+    }
+
+    /**
+     * Spreads light from every queued block (breadth first)
+     */
+    private propagate(channel: Channel): void {
+        const queue = this.addQueue;
+        for (let i = 0; i < queue.length; i += 3) {
+            const x = queue[i], y = queue[i + 1], z = queue[i + 2];
+            const chunk = this.getChunkAt(x, y, z);
+            if (!chunk) continue;
+            const level = this.getLevel(chunk, x, y, z, channel);
+            if (level <= 1 && !(channel === 'sun' && level === MAX_LIGHT)) continue;
+
+            for (let d = 0; d < DIRECTIONS.length; d++) {
+                const nx = x + DIRECTIONS[d][0], ny = y + DIRECTIONS[d][1], nz = z + DIRECTIONS[d][2];
+                const neighbour = this.getChunkAt(nx, ny, nz);
+                if (!neighbour) continue;
+
+                const block = neighbour.getBlock(nx - neighbour.x * Chunk.SIZE, ny - neighbour.y * Chunk.HEIGHT, nz - neighbour.z * Chunk.SIZE);
+                if (!BlockRegistry.isTransparent(block)) continue;
+
+                const spread = channel === 'sun' && d === DOWN && level === MAX_LIGHT ? MAX_LIGHT : level - 1;
+                if (spread > this.getLevel(neighbour, nx, ny, nz, channel)) {
+                    this.setLevel(neighbour, nx, ny, nz, channel, spread);
+                    queue.push(nx, ny, nz);
+                }
+            }
+        }
+        queue.length = 0;
+    }
+
+    /**
+     * Removes the light that came from the queued blocks. Blocks lit by another source
+     * are queued for propagation so they fill the darkened area back in.
+     */
+    private unpropagate(channel: Channel): void {
+        const queue = this.removeQueue;
+        for (let i = 0; i < queue.length; i += 4) {
+            const x = queue[i], y = queue[i + 1], z = queue[i + 2], level = queue[i + 3];
+
+            for (let d = 0; d < DIRECTIONS.length; d++) {
+                const nx = x + DIRECTIONS[d][0], ny = y + DIRECTIONS[d][1], nz = z + DIRECTIONS[d][2];
+                const neighbour = this.getChunkAt(nx, ny, nz);
+                if (!neighbour) continue;
+
+                const neighbourLevel = this.getLevel(neighbour, nx, ny, nz, channel);
+                if (neighbourLevel === 0) continue;
+
+                const litByThis = neighbourLevel < level ||
+                    (channel === 'sun' && d === DOWN && level === MAX_LIGHT && neighbourLevel === MAX_LIGHT);
+                if (litByThis) {
+                    this.setLevel(neighbour, nx, ny, nz, channel, 0);
+                    queue.push(nx, ny, nz, neighbourLevel);
+                } else {
+                    this.addQueue.push(nx, ny, nz);
+                }
+            }
+        }
+        queue.length = 0;
+    }
+}
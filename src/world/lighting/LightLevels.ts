@@ -0,0 +1,42 @@
+/**
+ * Light values are stored one byte per block: sunlight in the high nibble,
+ * block light (emitted by blocks like lamps) in the low nibble. Both range from 0 to 15.
+ *
+ * Kept free of three.js and world imports so the mesher workers can use it.
+ */
+
+export const MAX_LIGHT = 15;
+
+/** Packed value of a block in full sunlight, used for space that isn't loaded */
+export const FULL_SUNLIGHT = MAX_LIGHT << 4;
+
+// Darkest a face can get, so unlit caves are dim instead of pitch black
+const MIN_BRIGHTNESS = 0.06;
+// Each light level is this fraction of the next one
+const FALLOFF = 0.8;
+
+export function getSunLight(packed: number): number {
+    return packed >> 4;
+}
+
+export function getBlockLight(packed: number): number {
+    return packed & 0x0F;
+}
+
+export function packLight(sun: number, block: number): number {
+    return (sun << 4) | block;
+}
+
+// Brightness of every packed value, precomputed for the meshers
+const BRIGHTNESS = new Float32Array(256);
+for (let packed = 0; packed < 256; packed++) {
+    const level = Math.max(getSunLight(packed), getBlockLight(packed));
+    BRIGHTNESS[packed] = MIN_BRIGHTNESS + (1 - MIN_BRIGHTNESS) * Math.pow(FALLOFF, MAX_LIGHT - level);
+}
+
+/**
+ * Converts a packed light value into the vertex colour multiplier (0-1) of a face lit by it
+ */
+export function lightToBrightness(packed: number): number {
+    return BRIGHTNESS[packed & 0xFF];
+}
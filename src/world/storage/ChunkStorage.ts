@@ -0,0 +1,279 @@
+import { Chunk } from '../Chunk';
+import { decodeChunk, isEncodedChunk } from '../ChunkCodec';
+
+/**
+ * Persistence backend for chunk data.
+ * Keys are chunk coordinates formatted as "x,y,z", values are chunks encoded with ChunkCodec.
+ */
+export interface ChunkStorageBackend {
+    /**
+     * Reads every stored chunk
+     * @returns Map of chunk key to encoded chunk
+     */
+    loadAll(): Promise<Map<string, Uint8Array>>;
+
+    /**
+     * Writes (or overwrites) a batch of chunks
+     * @param entries Pairs of chunk key and encoded chunk
+     */
+    putMany(entries: Array<[string, Uint8Array]>): Promise<void>;
+
+    /**
+     * Removes every stored chunk
+     */
+    clear(): Promise<void>;
+}
+
+/**
+ * Backend that keeps chunks in memory only.
+ * Used when IndexedDB is not available and as a stand-in for it in tests.
+ */
+export class MemoryChunkBackend implements ChunkStorageBackend {
+    private data: Map<string, Uint8Array> = new Map();
+
+    public async loadAll(): Promise<Map<string, Uint8Array>> {
+        const result = new Map<string, Uint8Array>();
+        this.data.forEach((value, key) => result.set(key, value.slice()));
+        return result;
+    }
+
+    public async putMany(entries: Array<[string, Uint8Array]>): Promise<void> {
+        for (const [key, value] of entries) {
+            this.data.set(key, value.slice());
+        }
+    }
+
+    public async clear(): Promise<void> {
+        this.data.clear();
+    }
+
+    /**
+     * Number of chunks currently stored
+     */
+    public get size(): number {
+        return this.data.size;
+    }
+}
+
+/**
+ * Backend that stores chunks in an IndexedDB object store
+ */
+export class IndexedDBChunkBackend implements ChunkStorageBackend {
+    private static readonly STORE_NAME = 'chunks';
+    private static readonly DB_VERSION = 1;
+
+    private dbPromise: Promise<IDBDatabase> | null = null;
+
+    /**
+     * @param dbName Name of the database (one database per world)
+     * @param factory IndexedDB factory, injectable so tests can pass a fake implementation
+     */
+    constructor(private readonly dbName: string, private readonly factory: IDBFactory = indexedDB) {}
+
+    private openDatabase(): Promise<IDBDatabase> {
+        if (!this.dbPromise) {
+            this.dbPromise = new Promise((resolve, reject) => {
+                const request = this.factory.open(this.dbName, IndexedDBChunkBackend.DB_VERSION);
+
+                request.onupgradeneeded = () => {
+                    const db = request.result;
+                    if (!db.objectStoreNames.contains(IndexedDBChunkBackend.STORE_NAME)) {
+                        db.createObjectStore(IndexedDBChunkBackend.STORE_NAME);
+                    }
+                };
+                request.onsuccess = () => resolve(request.result);
+                request.onerror = () => reject(request.error);
+            });
+        }
+        return this.dbPromise;
+    }
+
+    public async loadAll(): Promise<Map<string, Uint8Array>> {
+        const db = await this.openDatabase();
+        return new Promise((resolve, reject) => {
+            const result = new Map<string, Uint8Array>();
+            const transaction = db.transaction(IndexedDBChunkBackend.STORE_NAME, 'readonly');
+            const request = transaction.objectStore(IndexedDBChunkBackend.STORE_NAME).openCursor();
+
+            request.onsuccess = () => {
+                const cursor = request.result;
+                if (cursor) {
+                    result.set(String(cursor.key), new Uint8Array(cursor.value));
+                    cursor.continue();
+                }
+            };
+            transaction.oncomplete = () => resolve(result);
+            transaction.onerror = () => reject(transaction.error);
+        });
+    }
+
+    public async putMany(entries: Array<[string, Uint8Array]>): Promise<void> {
+        if (entries.length === 0) return;
+        const db = await this.openDatabase();
+        return new Promise((resolve, reject) => {
+            const transaction = db.transaction(IndexedDBChunkBackend.STORE_NAME, 'readwrite');
+            const store = transaction.objectStore(IndexedDBChunkBackend.STORE_NAME);
+            for (const [key, value] of entries) {
+                store.put(value, key);
+            }
+            transaction.oncomplete = () => resolve();
+            transaction.onerror = () => reject(transaction.error);
+        });
+    }
+
+    public async clear(): Promise<void> {
+        const db = await this.openDatabase();
+        return new Promise((resolve, reject) => {
+            const transaction = db.transaction(IndexedDBChunkBackend.STORE_NAME, 'readwrite');
+            transaction.objectStore(IndexedDBChunkBackend.STORE_NAME).clear();
+            transaction.oncomplete = () => resolve();
+            transaction.onerror = () => reject(transaction.error);
+        });
+    }
+}
+
+/**
+ * Keeps edited chunks across unloads and page reloads.
+ *
+ * All saved chunks are read once in open() so that lookups during chunk generation
+ * stay synchronous. Saves go to an in-memory cache first and are written to the
+ * backend in batches (scheduled automatically, or immediately with flush()).
+ */
+export class ChunkStorage {
+    private cache: Map<string, Uint8Array> = new Map();
+    private pending: Set<string> = new Set();
+    private flushTimer: ReturnType<typeof setTimeout> | null = null;
+    private flushDelay: number;
+
+    /**
+     * @param backend Where chunks are persisted
+     * @param flushDelay Delay in ms used to batch writes after a save
+     */
+    constructor(private readonly backend: ChunkStorageBackend, flushDelay = 2000) {
+        this.flushDelay = flushDelay;
+    }
+
+    /**
+     * Loads all stored chunks from the backend. Must be awaited before the world generates chunks.
+     */
+    public async open(): Promise<void> {
+        const stored = await this.backend.loadAll();
+        stored.forEach((data, key) => {
+            // Chunks saved during this session are newer than what the backend returns
+            if (!this.pending.has(key)) {
+                this.cache.set(key, data);
+            }
+        });
+        console.log(`[ChunkStorage] Loaded ${stored.size} saved chunks`);
+    }
+
+    private getKey(chunkX: number, chunkY: number, chunkZ: number): string {
+        return `${chunkX},${chunkY},${chunkZ}`;
+    }
+
+    /**
+     * Checks whether a chunk has saved data
+     */
+    public has(chunkX: number, chunkY: number, chunkZ: number): boolean {
+        return this.cache.has(this.getKey(chunkX, chunkY, chunkZ));
+    }
+
+    /**
+     * Gets the saved block data for a chunk
+     * @returns The saved blocks, or undefined if the chunk was never saved or its data is unreadable
+     */
+    public load(chunkX: number, chunkY: number, chunkZ: number): Uint8Array | undefined {
+        return this.loadState(chunkX, chunkY, chunkZ)?.blocks;
+    }
+
+    /**
+     * Gets the saved blocks and block states (fluid levels etc.) for a chunk
+     * @returns The saved data (meta is undefined if every state is 0), or undefined like load()
+     */
+    public loadState(chunkX: number, chunkY: number, chunkZ: number): { blocks: Uint8Array; meta?: Uint8Array } | undefined {
+        const key = this.getKey(chunkX, chunkY, chunkZ);
+        const data = this.cache.get(key);
+        if (!data) return undefined;
+
+        // Early saves stored the raw block array instead of the encoded chunk
+        if (!isEncodedChunk(data)) {
+            return data.length === Chunk.SIZE * Chunk.SIZE * Chunk.HEIGHT ? { blocks: data.slice() } : undefined;
+        }
+
+        try {
+            const decoded = decodeChunk(data);
+            if (decoded.x !== chunkX || decoded.y !== chunkY || decoded.z !== chunkZ) {
+                throw new Error(`stored under ${key} but encoded as ${decoded.x},${decoded.y},${decoded.z}`);
+            }
+            return { blocks: decoded.blocks, meta: decoded.meta };
+        } catch (error) {
+            // A corrupt save shouldn't break world generation, the chunk is regenerated instead
+            console.error(`[ChunkStorage] Discarding unreadable chunk ${key}:`, error);
+            this.cache.delete(key);
+            return undefined;
+        }
+    }
+
+    /**
+     * Saves a chunk's block data. The write to the backend happens on the next flush.
+     */
+    public save(chunk: Chunk): void {
+        const key = this.getKey(chunk.x, chunk.y, chunk.z);
+        this.cache.set(key, chunk.encode());
+        this.pending.add(key);
+        this.scheduleFlush();
+    }
+
+    private scheduleFlush(): void {
+        if (this.flushTimer !== null) return;
+        this.flushTimer = setTimeout(() => {
+            this.flushTimer = null;
+            this.flush().catch(error => console.error('[ChunkStorage] Failed to save chunks:', error));
+        }, this.flushDelay);
+    }
+
+    /**
+     * Writes all pending chunks to the backend right away
+     */
+    public flush(): Promise<void> {
+        if (this.flushTimer !== null) {
+            clearTimeout(this.flushTimer);
+            this.flushTimer = null;
+        }
+        if (this.pending.size === 0) {
+            return Promise.resolve();
+        }
+
+        const entries: Array<[string, Uint8Array]> = [];
+        for (const key of this.pending) {
+            entries.push([key, this.cache.get(key)!]);
+        }
+        this.pending.clear();
+
+        return this.backend.putMany(entries).catch(error => {
+            // Keep the chunks pending so the next flush retries them
+            for (const [key] of entries) this.pending.add(key);
+            throw error;
+        });
+    }
+
+    /**
+     * Number of chunks waiting to be written to the backend
+     */
+    public getPendingCount(): number {
+        return this.pending.size;
+    }
+
+    /**
+     * Deletes every saved chunk (in memory and in the backend)
+     */
+    public async clear(): Promise<void> {
+        if (this.flushTimer !== null) {
+            clearTimeout(this.flushTimer);
+            this.flushTimer = null;
+        }
+        this.cache.clear();
+        this.pending.clear();
+        await this.backend.clear();
+    }
+}